@@ -1,13 +1,18 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { OpenApp, AppDefinition, ClipboardItem, FilesystemItem } from './types';
+import { OpenApp, AppDefinition, ClipboardItem, FilesystemItem, SessionWindow } from './types';
 import { TASKBAR_HEIGHT, DEFAULT_WINDOW_WIDTH, DEFAULT_WINDOW_HEIGHT } from './constants';
 import { ThemeContext, themes } from './components/theme';
 import * as FsService from './services/filesystemService';
+import * as Journal from './services/operationJournal';
+import * as SessionService from './services/sessionService';
+import * as AuthService from './services/authService';
 import { APP_DEFINITIONS } from './components/apps';
 import Taskbar from './components/Taskbar';
 import StartMenu from './components/StartMenu';
 import AppWindow from './components/AppWindow';
 import Desktop from './components/Desktop';
+import LoginScreen from './components/LoginScreen';
+import AccessDeniedNotice from './components/AccessDeniedNotice';
 
 const App: React.FC = () => {
   const [openApps, setOpenApps] = useState<OpenApp[]>([]);
@@ -15,26 +20,27 @@ const App: React.FC = () => {
   const [nextZIndex, setNextZIndex] = useState<number>(10);
   const [isStartMenuOpen, setIsStartMenuOpen] = useState<boolean>(false);
   const [clipboard, setClipboard] = useState<ClipboardItem | null>(null);
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
+  const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const desktopRef = useRef<HTMLDivElement>(null);
   
   // --- Theme State ---
   const [currentThemeId, setCurrentThemeId] = useState<'default' | 'light'>('default');
-  const theme = themes[currentThemeId];
+  // A wallpaper chosen by the user (e.g. "Set as desktop background" in Photos): an image URL or a
+  // project path like '/Pictures/beach.jpg'. It replaces the theme's until another theme is picked.
+  const [customWallpaper, setCustomWallpaper] = useState<string | null>(null);
+  const theme = customWallpaper
+    ? { ...themes[currentThemeId], wallpaper: customWallpaper.startsWith('/') ? FsService.getFileStreamUrl(customWallpaper) : customWallpaper }
+    : themes[currentThemeId];
 
-  // A simple way to trigger refresh in filesystem-aware components
-  const [refreshId, setRefreshId] = useState(0);
-  const triggerRefresh = () => setRefreshId(id => id + 1);
-  
   const handleThemeChange = (themeId: 'default' | 'light') => {
     setCurrentThemeId(themeId);
+    setCustomWallpaper(null);
   };
   
-  const handleWallpaperChange = useCallback((newWallpaperUrl: string) => {
-    // This is now handled by the ThemeApp, which changes the entire theme object.
-    // This function is kept for compatibility if another app (like Settings) needs to change it.
-    // For a simple wallpaper change, we'd need to create a custom theme object.
-    // For now, we recommend using the Themes app.
-    console.log("Direct wallpaper change requested to:", newWallpaperUrl, "Use the Themes app for full effect.");
+  const handleWallpaperChange = useCallback((newWallpaper: string) => {
+    setCustomWallpaper(newWallpaper);
   }, []);
 
   const getNextPosition = (appWidth: number, appHeight: number) => {
@@ -70,7 +76,7 @@ const App: React.FC = () => {
       } else {
         // Fallback to the web API for remote/browser clients
         try {
-          const response = await fetch('http://localhost:3001/api/launch', {
+          const response = await AuthService.authFetch('http://localhost:3001/api/launch', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ path: appDef.externalPath, args }),
@@ -117,13 +123,13 @@ const App: React.FC = () => {
       isMinimized: false,
       isMaximized: false,
       title: appDef.name,
-      initialData: {...initialData, refreshId, triggerRefresh}, // Pass refreshId and trigger
+      initialData,
     };
 
     setOpenApps(prev => [...prev, newApp]);
     setActiveAppInstanceId(instanceId);
     setIsStartMenuOpen(false);
-  }, [nextZIndex, openApps, refreshId]);
+  }, [nextZIndex, openApps]);
 
   const focusApp = useCallback((instanceId: string) => {
     if (activeAppInstanceId === instanceId) return;
@@ -217,26 +223,126 @@ const App: React.FC = () => {
     );
   }, []);
 
+  const updateAppSessionData = useCallback((instanceId: string, sessionData: any) => {
+    setOpenApps(prev => {
+      const app = prev.find(a => a.instanceId === instanceId);
+      // Bail out when nothing changed so apps can report state from effects without re-render loops
+      if (!app || JSON.stringify(app.sessionData) === JSON.stringify(sessionData)) return prev;
+      return prev.map(a => a.instanceId === instanceId ? { ...a, sessionData } : a);
+    });
+  }, []);
+
+  // --- Authentication ---
+  const resetDesktop = useCallback(() => {
+    setOpenApps([]);
+    setActiveAppInstanceId(null);
+    setIsStartMenuOpen(false);
+    setClipboard(null);
+    setCustomWallpaper(null);
+    setIsSessionRestored(false);
+    setCurrentUser(null);
+  }, []);
+
+  useEffect(() => {
+    AuthService.getCurrentUser().then(user => {
+      setCurrentUser(user);
+      setIsCheckingAuth(false);
+    });
+    // The token can expire (or the server restart) while the desktop is open
+    return AuthService.onUnauthorized(resetDesktop);
+  }, [resetDesktop]);
+
+  const handleSignOut = useCallback(async () => {
+    await AuthService.logout();
+    resetDesktop();
+  }, [resetDesktop]);
+
+  // --- Session Persistence ---
+  useEffect(() => {
+    if (!currentUser) return;
+    const restoreSession = async () => {
+      const snapshot = await SessionService.loadSession();
+      if (snapshot) {
+        setCustomWallpaper(snapshot.wallpaper || null);
+        const restoredApps = snapshot.windows.reduce<OpenApp[]>((acc, win) => {
+          const appDef = APP_DEFINITIONS.find(def => def.id === win.appId);
+          if (!appDef || appDef.isExternal || appDef.isWebApp) return acc;
+          acc.push({
+            ...appDef,
+            instanceId: win.instanceId,
+            zIndex: win.zIndex,
+            position: win.position,
+            size: win.size,
+            isMinimized: win.isMinimized,
+            isMaximized: win.isMaximized,
+            title: win.title || appDef.name,
+            previousPosition: win.previousPosition,
+            previousSize: win.previousSize,
+            initialData: win.initialData,
+            sessionData: win.initialData,
+          });
+          return acc;
+        }, []);
+        if (restoredApps.length > 0) {
+          setOpenApps(restoredApps);
+          setNextZIndex(Math.max(10, ...restoredApps.map(app => app.zIndex)));
+          const activeExists = restoredApps.some(app => app.instanceId === snapshot.activeInstanceId);
+          setActiveAppInstanceId(activeExists ? snapshot.activeInstanceId : null);
+        }
+      }
+      setIsSessionRestored(true);
+    };
+    restoreSession();
+  }, [currentUser]);
+
+  useEffect(() => {
+    // Don't overwrite the saved session with the empty initial state before it has been restored
+    if (!isSessionRestored || !currentUser) return;
+    const timeoutId = setTimeout(() => {
+      const windows: SessionWindow[] = openApps.map(app => ({
+        appId: app.id,
+        instanceId: app.instanceId,
+        title: app.title,
+        zIndex: app.zIndex,
+        position: app.position,
+        size: app.size,
+        isMinimized: app.isMinimized,
+        isMaximized: app.isMaximized,
+        previousPosition: app.previousPosition,
+        previousSize: app.previousSize,
+        initialData: app.sessionData,
+      }));
+      SessionService.saveSession({ activeInstanceId: activeAppInstanceId, windows, wallpaper: customWallpaper || undefined });
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [openApps, activeAppInstanceId, customWallpaper, isSessionRestored, currentUser]);
+
   const toggleStartMenu = useCallback(() => setIsStartMenuOpen(prev => !prev), []);
   
   // --- Filesystem Operations ---
-  const handleCopy = useCallback((item: FilesystemItem) => {
-    setClipboard({ item, operation: 'copy' });
+  const handleCopy = useCallback((items: FilesystemItem[]) => {
+    setClipboard({ items, operation: 'copy' });
   }, []);
-  const handleCut = useCallback((item: FilesystemItem) => {
-    setClipboard({ item, operation: 'cut' });
+  const handleCut = useCallback((items: FilesystemItem[]) => {
+    setClipboard({ items, operation: 'cut' });
   }, []);
   const handlePaste = useCallback(async (destinationPath: string) => {
     if (!clipboard) return;
-    const { item, operation } = clipboard;
+    const { items, operation } = clipboard;
     
     if (operation === 'copy') {
-        await FsService.copyItem(item, destinationPath);
+        const results = await Journal.copyItems(items, destinationPath);
+        const failureMessage = FsService.describeBatchFailures(results, 'copy');
+        if (failureMessage) alert(failureMessage);
     } else { // cut
-        await FsService.moveItem(item, destinationPath);
-        setClipboard(null);
+        const results = await Journal.moveItems(items, destinationPath);
+        const failureMessage = FsService.describeBatchFailures(results, 'move');
+        if (failureMessage) alert(failureMessage);
+        // Items that couldn't be moved stay on the clipboard so the user can try again
+        const failedPaths = new Set(results.filter(result => !result.success).map(result => result.path));
+        const remainingItems = items.filter(item => failedPaths.has(item.path));
+        setClipboard(remainingItems.length > 0 ? { items: remainingItems, operation } : null);
     }
-    triggerRefresh();
   }, [clipboard]);
   
   useEffect(() => {
@@ -253,6 +359,16 @@ const App: React.FC = () => {
   }, [isStartMenuOpen]);
 
 
+  if (isCheckingAuth || !currentUser) {
+    return (
+      <ThemeContext.Provider value={{ theme, setTheme: handleThemeChange }}>
+        {isCheckingAuth
+          ? <div className="h-screen w-screen bg-black" />
+          : <LoginScreen onLogin={setCurrentUser} />}
+      </ThemeContext.Provider>
+    );
+  }
+
   return (
     <ThemeContext.Provider value={{ theme, setTheme: handleThemeChange }}>
       <div 
@@ -267,12 +383,11 @@ const App: React.FC = () => {
               handleCopy={handleCopy}
               handleCut={handleCut}
               handlePaste={handlePaste}
-              key={refreshId} // Force remount on refresh
           />
           {openApps.filter(app => !app.isMinimized).map(app => (
             <AppWindow
               key={app.instanceId}
-              app={{...app, initialData: {...app.initialData, refreshId, triggerRefresh}}}
+              app={app}
               onClose={() => closeApp(app.instanceId)}
               onMinimize={() => toggleMinimizeApp(app.instanceId)}
               onMaximize={() => toggleMaximizeApp(app.instanceId)}
@@ -282,6 +397,7 @@ const App: React.FC = () => {
               isActive={app.instanceId === activeAppInstanceId}
               desktopRef={desktopRef}
               onSetTitle={(newTitle) => updateAppTitle(app.instanceId, newTitle)}
+              onSetSessionData={(data) => updateAppSessionData(app.instanceId, data)}
               onWallpaperChange={handleWallpaperChange}
               openApp={openApp}
               clipboard={clipboard}
@@ -290,6 +406,7 @@ const App: React.FC = () => {
               handlePaste={handlePaste}
             />
           ))}
+          <AccessDeniedNotice />
         </div>
 
         {isStartMenuOpen && (
@@ -297,6 +414,8 @@ const App: React.FC = () => {
             apps={APP_DEFINITIONS}
             onOpenApp={openApp}
             onClose={() => setIsStartMenuOpen(false)}
+            username={currentUser}
+            onSignOut={handleSignOut}
           />
         )}
 
@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from 'react';
+import * as FsService from '../services/filesystemService';
+
+const NOTICE_DURATION_MS = 5000;
+
+/**
+ * Tells the user why the server refused a file operation (a hidden, write-protected or read-only
+ * path). Apps only learn that the operation failed; the reason is shown here, for any app.
+ */
+const AccessDeniedNotice: React.FC = () => {
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => FsService.subscribeToAccessDenied(setMessage), []);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  if (!message) return null;
+
+  return (
+    <div
+      role="alert"
+      onClick={() => setMessage(null)}
+      className="absolute top-3 left-1/2 -translate-x-1/2 z-[10000] max-w-md px-4 py-2 rounded bg-zinc-900/95 border border-zinc-700 shadow-lg text-sm text-white flex items-center gap-2 cursor-pointer"
+    >
+      <span className="text-red-400 font-bold">⛔</span>
+      <span>{message}</span>
+    </div>
+  );
+};
+
+export default AccessDeniedNotice;
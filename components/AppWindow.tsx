@@ -14,11 +14,12 @@ interface AppWindowProps {
   isActive: boolean;
   desktopRef: React.RefObject<HTMLDivElement>;
   onSetTitle: (newTitle: string) => void;
+  onSetSessionData: (data: any) => void;
   onWallpaperChange: (newUrl: string) => void;
   openApp?: (appId: string, initialData?: any) => void;
   clipboard?: ClipboardItem | null;
-  handleCopy?: (item: FilesystemItem) => void;
-  handleCut?: (item: FilesystemItem) => void;
+  handleCopy?: (items: FilesystemItem[]) => void;
+  handleCut?: (items: FilesystemItem[]) => void;
   handlePaste?: (destinationPath: string) => void;
 }
 
@@ -33,6 +34,7 @@ const AppWindow: React.FC<AppWindowProps> = ({
   isActive,
   desktopRef,
   onSetTitle,
+  onSetSessionData,
   onWallpaperChange,
   openApp,
   clipboard,
@@ -218,8 +220,9 @@ const AppWindow: React.FC<AppWindowProps> = ({
             appInstanceId={app.instanceId} 
             onClose={onClose}
             setTitle={(newTitle) => onSetTitle(newTitle)}
+            setSessionData={onSetSessionData}
             wallpaper={app.id === 'themes' ? theme.wallpaper : undefined}
-            onWallpaperChange={app.id === 'themes' ? onWallpaperChange : undefined}
+            onWallpaperChange={onWallpaperChange}
             openApp={openApp}
             initialData={app.initialData}
             clipboard={clipboard}
@@ -1,8 +1,10 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 
 export type ContextMenuItem = 
   | { type: 'item'; label: string; onClick: () => void; disabled?: boolean }
+  // Submenus are one level deep; a submenu inside a submenu is not shown
+  | { type: 'submenu'; label: string; items: ContextMenuItem[]; disabled?: boolean }
   | { type: 'separator' };
 
 interface ContextMenuProps {
@@ -14,6 +16,7 @@ interface ContextMenuProps {
 
 const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
   const menuRef = useRef<HTMLDivElement>(null);
+  const [openSubmenuIndex, setOpenSubmenuIndex] = useState<number | null>(null);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -33,6 +36,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
   
   const finalX = x + menuWidth > screenWidth ? screenWidth - menuWidth - 5 : x;
   const finalY = y + menuHeight > screenHeight ? screenHeight - menuHeight - 5 : y;
+  // Submenus open to the right unless that would leave the screen
+  const submenuSide = finalX + menuWidth * 2 > screenWidth ? 'right-full' : 'left-full';
 
   return (
     <div
@@ -49,6 +54,41 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
         if (item.type === 'separator') {
           return <div key={index} className="h-px bg-zinc-700 my-1.5" />;
         }
+        if (item.type === 'submenu') {
+          const isOpen = openSubmenuIndex === index && !item.disabled;
+          return (
+            <div key={index} className="relative" onMouseEnter={() => setOpenSubmenuIndex(index)} onMouseLeave={() => setOpenSubmenuIndex(null)}>
+              <button
+                onClick={e => {
+                  // Opening a submenu doesn't close the menu
+                  e.stopPropagation();
+                  setOpenSubmenuIndex(index);
+                }}
+                disabled={item.disabled}
+                className={`w-full text-left px-3 py-1.5 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-sm flex items-center justify-between ${isOpen ? 'bg-blue-600' : ''}`}
+              >
+                {item.label}
+                <span className="text-xs ml-2">&#9656;</span>
+              </button>
+              {isOpen && (
+                <div className={`absolute top-0 ${submenuSide} bg-black/90 backdrop-blur-xl border border-zinc-700 rounded-md shadow-lg py-1.5 w-48`}>
+                  {item.items.map((subItem, subIndex) => subItem.type === 'item' ? (
+                    <button
+                      key={subIndex}
+                      onClick={subItem.onClick}
+                      disabled={subItem.disabled}
+                      className="w-full text-left px-3 py-1.5 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-sm flex items-center"
+                    >
+                      {subItem.label}
+                    </button>
+                  ) : subItem.type === 'separator' ? (
+                    <div key={subIndex} className="h-px bg-zinc-700 my-1.5" />
+                  ) : null)}
+                </div>
+              )}
+            </div>
+          );
+        }
         return (
           <button
             key={index}
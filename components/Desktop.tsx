@@ -3,9 +3,16 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { FilesystemItem, AppComponentProps, ClipboardItem } from '../types';
 import * as FsService from '../services/filesystemService';
 import ContextMenu, { ContextMenuItem } from './ContextMenu';
+import { useItemSelection, SELECTABLE_ID_ATTRIBUTE } from './useItemSelection';
+import { useOperationJournal } from './useOperationJournal';
+import { useFileDrop } from './useFileDrop';
+import { useArchiveOperations } from './useArchiveOperations';
+import UploadProgressBar, { ArchiveProgressBar } from './UploadProgressBar';
+import * as Journal from '../services/operationJournal';
 import { TASKBAR_HEIGHT } from '../constants';
-import { FolderIcon, FileCodeIcon, FileJsonIcon, FileGenericIcon, NotebookIcon } from '../constants';
-import { APP_DEFINITIONS } from './apps';
+import { useFileAssociations, getShortcutAppId, openFileWith } from './fileAssociations';
+import OpenWithDialog from './OpenWithDialog';
+import { isAttachableFile } from '../services/chatAttachmentService';
 
 
 const GRID_SIZE = 90;
@@ -16,49 +23,75 @@ interface DesktopIconState {
   position: { x: number; y: number };
 }
 
+// Icons being dragged together, with where each one started
+interface IconDrag {
+  ids: string[];
+  clickedId: string;
+  origin: { x: number; y: number };
+  startPositions: Record<string, { x: number; y: number }>;
+}
+
 interface DesktopProps extends Pick<AppComponentProps, 'openApp' | 'clipboard' | 'handleCopy' | 'handleCut' | 'handlePaste'> {}
 
 
-const getFileIcon = (item: FilesystemItem) => {
-    const appDef = APP_DEFINITIONS.find(def => def.id === item.name.replace('.app','').replace(' ', '').toLowerCase());
-    if (appDef) return <appDef.icon className="w-10 h-10 mb-1 pointer-events-none" />;
+const getGridPosition = (index: number, iconsPerColumn: number) => ({
+    x: 10 + Math.floor(index / iconsPerColumn) * GRID_SIZE,
+    y: 10 + (index % iconsPerColumn) * GRID_SIZE,
+});
 
-    const filename = item.name;
-    if (filename.endsWith('.tsx') || filename.endsWith('.ts')) return <FileCodeIcon className="w-10 h-10 text-cyan-400" />;
-    if (filename.endsWith('.json')) return <FileJsonIcon className="w-10 h-10 text-yellow-400" />;
-    if (filename.endsWith('.html')) return <FileCodeIcon className="w-10 h-10 text-orange-500" />;
-    if (filename.endsWith('.txt') || filename.endsWith('.md')) return <NotebookIcon isSmall className="w-10 h-10 text-zinc-300" />;
-    return <FileGenericIcon className="w-10 h-10 text-zinc-400" />;
-}
+// Icons already on the desktop keep their position; new ones take the first free grid slots
+const layoutIcons = (items: FilesystemItem[], prevIcons: DesktopIconState[], desktopHeight: number): DesktopIconState[] => {
+    const iconsPerColumn = Math.max(1, Math.floor((desktopHeight - 20) / GRID_SIZE));
+    const prevPositions = new Map(prevIcons.map(icon => [icon.id, icon.position]));
+    const occupiedSlots = new Set<string>();
+    items.forEach(item => {
+        const position = prevPositions.get(item.path);
+        if (position) occupiedSlots.add(`${position.x},${position.y}`);
+    });
+
+    let nextSlot = 0;
+    return items.map(item => {
+        let position = prevPositions.get(item.path);
+        while (!position) {
+            const candidate = getGridPosition(nextSlot++, iconsPerColumn);
+            const key = `${candidate.x},${candidate.y}`;
+            if (!occupiedSlots.has(key)) {
+                occupiedSlots.add(key);
+                position = candidate;
+            }
+        }
+        return { id: item.path, item, position };
+    });
+};
 
 
 const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handleCut, handlePaste }) => {
   const [icons, setIcons] = useState<DesktopIconState[]>([]);
-  const [selectedIconId, setSelectedIconId] = useState<string | null>(null);
-  const [draggingIcon, setDraggingIcon] = useState<{ id: string; offset: { x: number; y: number } } | null>(null);
+  const [iconDrag, setIconDrag] = useState<IconDrag | null>(null);
+  const hasDragMovedRef = useRef(false);
   const desktopRef = useRef<HTMLDivElement>(null);
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item?: DesktopIconState } | null>(null);
+  // `targets` are the items a context menu action applies to: the selection, or the clicked icon
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item?: DesktopIconState; targets?: FilesystemItem[] } | null>(null);
   const [renamingIconId, setRenamingIconId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState('');
+  const iconIds = useMemo(() => icons.map(icon => icon.id), [icons]);
+  const selection = useItemSelection(iconIds, desktopRef);
+  const journal = useOperationJournal();
+  const { selectedIds } = selection;
+  const selectedItems = useMemo(() => icons.filter(icon => selectedIds.has(icon.id)).map(icon => icon.item), [icons, selectedIds]);
+  const cutPaths = useMemo(() => new Set(clipboard?.operation === 'cut' ? clipboard.items.map(item => item.path) : []), [clipboard]);
 
   const DESKTOP_PATH = '/Desktop';
+  const fileDrop = useFileDrop(DESKTOP_PATH);
+  const archive = useArchiveOperations();
+  const fileAssociations = useFileAssociations(openApp);
+  const [openWithItem, setOpenWithItem] = useState<FilesystemItem | null>(null);
 
   const fetchDesktopItems = useCallback(async () => {
       const desktopItems = await FsService.listDirectory(DESKTOP_PATH);
       if (desktopRef.current) {
           const desktopHeight = desktopRef.current.clientHeight;
-          const iconsPerColumn = Math.floor((desktopHeight - 20) / GRID_SIZE);
-
-          setIcons(
-              desktopItems.map((item, index) => ({
-                  id: item.path,
-                  item,
-                  position: {
-                      x: 10 + Math.floor(index / iconsPerColumn) * GRID_SIZE,
-                      y: 10 + (index % iconsPerColumn) * GRID_SIZE,
-                  },
-              }))
-          );
+          setIcons(prev => layoutIcons(desktopItems, prev, desktopHeight));
       }
   }, []);
 
@@ -66,39 +99,69 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
     fetchDesktopItems();
   }, [fetchDesktopItems]);
 
+  useEffect(() => FsService.subscribeToChanges(
+    DESKTOP_PATH,
+    changes => {
+      if (!desktopRef.current) return;
+      const desktopHeight = desktopRef.current.clientHeight;
+      setIcons(prev => layoutIcons(FsService.applyChanges(prev.map(icon => icon.item), changes, DESKTOP_PATH), prev, desktopHeight));
+    },
+    fetchDesktopItems,
+  ), [fetchDesktopItems]);
+
 
   const handleIconMouseDown = (e: React.MouseEvent, icon: DesktopIconState) => {
     e.preventDefault();
     e.stopPropagation();
+    desktopRef.current?.focus();
     if (e.button !== 0 || renamingIconId === icon.id) return;
-    setSelectedIconId(icon.id);
     setContextMenu(null);
-    setDraggingIcon({
-      id: icon.id,
-      offset: { x: e.clientX - icon.position.x, y: e.clientY - icon.position.y },
+
+    // Pressing on an icon that is already selected drags the whole selection
+    const isModified = e.ctrlKey || e.metaKey || e.shiftKey;
+    let dragIds = [icon.id];
+    if (isModified) {
+      selection.selectWithModifiers(icon.id, e);
+      if (e.shiftKey || selectedIds.has(icon.id)) return;
+      dragIds = [...selectedIds, icon.id];
+    } else if (selectedIds.has(icon.id)) {
+      dragIds = [...selectedIds];
+    } else {
+      selection.selectOnly(icon.id);
+    }
+
+    hasDragMovedRef.current = false;
+    setIconDrag({
+      ids: dragIds,
+      clickedId: icon.id,
+      origin: { x: e.clientX, y: e.clientY },
+      startPositions: Object.fromEntries(icons.filter(i => dragIds.includes(i.id)).map(i => [i.id, i.position])),
     });
   };
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!draggingIcon || !desktopRef.current) return;
-    let newX = e.clientX - draggingIcon.offset.x;
-    let newY = e.clientY - draggingIcon.offset.y;
+    if (!iconDrag || !desktopRef.current) return;
+    const dx = e.clientX - iconDrag.origin.x;
+    const dy = e.clientY - iconDrag.origin.y;
+    if (dx !== 0 || dy !== 0) hasDragMovedRef.current = true;
     const desktopWidth = desktopRef.current.clientWidth;
     const desktopHeight = desktopRef.current.clientHeight;
-    newX = Math.max(10, Math.min(newX, desktopWidth - GRID_SIZE + 10));
-    newY = Math.max(10, Math.min(newY, desktopHeight - GRID_SIZE + 10));
     setIcons(prev =>
-      prev.map(icon =>
-        icon.id === draggingIcon.id ? { ...icon, position: { x: newX, y: newY } } : icon
-      )
+      prev.map(icon => {
+        const start = iconDrag.startPositions[icon.id];
+        if (!start) return icon;
+        const newX = Math.max(10, Math.min(start.x + dx, desktopWidth - GRID_SIZE + 10));
+        const newY = Math.max(10, Math.min(start.y + dy, desktopHeight - GRID_SIZE + 10));
+        return { ...icon, position: { x: newX, y: newY } };
+      })
     );
-  }, [draggingIcon]);
+  }, [iconDrag]);
 
   const handleMouseUp = useCallback(() => {
-    if (draggingIcon) {
+    if (iconDrag) {
       setIcons(prevIcons =>
         prevIcons.map(icon => {
-          if (icon.id === draggingIcon.id) {
+          if (iconDrag.startPositions[icon.id]) {
             const snappedX = Math.round((icon.position.x - 10) / GRID_SIZE) * GRID_SIZE + 10;
             const snappedY = Math.round((icon.position.y - 10) / GRID_SIZE) * GRID_SIZE + 10;
             return { ...icon, position: { x: snappedX, y: snappedY } };
@@ -106,12 +169,14 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
           return icon;
         })
       );
-      setDraggingIcon(null);
+      // A plain click (no drag) inside a multi-selection selects just that icon
+      if (!hasDragMovedRef.current && iconDrag.ids.length > 1) selection.selectOnly(iconDrag.clickedId);
+      setIconDrag(null);
     }
-  }, [draggingIcon]);
+  }, [iconDrag, selection.selectOnly]);
 
   useEffect(() => {
-    if (draggingIcon) {
+    if (iconDrag) {
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
     }
@@ -119,7 +184,7 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [draggingIcon, handleMouseMove, handleMouseUp]);
+  }, [iconDrag, handleMouseMove, handleMouseUp]);
   
   const handleDoubleClick = (item: FilesystemItem) => {
     if (item.name.endsWith('.app') && item.content) {
@@ -128,7 +193,7 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
             openApp?.(appInfo.appId);
         } catch(e) { console.error("Could not parse app shortcut", e); }
     } else if (item.type === 'file') {
-        openApp?.('notebook', { file: { path: item.path, name: item.name } });
+        fileAssociations.openFile(item);
     } else {
         openApp?.('fileExplorer', { initialPath: item.path });
     }
@@ -137,22 +202,45 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
   const handleDesktopContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
     if (e.target !== desktopRef.current) return;
-    setSelectedIconId(null);
+    selection.clearSelection();
     setContextMenu({ x: e.clientX, y: e.clientY });
   };
   
   const handleIconContextMenu = (e: React.MouseEvent, icon: DesktopIconState) => {
     e.preventDefault();
     e.stopPropagation();
-    setSelectedIconId(icon.id);
-    setContextMenu({ x: e.clientX, y: e.clientY, item: icon });
+    // Right-clicking outside the selection acts on that icon alone, like Explorer
+    const isInSelection = selectedIds.has(icon.id);
+    if (!isInSelection) selection.selectOnly(icon.id);
+    setContextMenu({ x: e.clientX, y: e.clientY, item: icon, targets: isInSelection ? selectedItems : [icon.item] });
+  };
+
+  const deleteItems = useCallback(async (items: FilesystemItem[], permanent: boolean = false) => {
+    if (items.length === 0) return;
+    const subject = items.length > 1 ? `these ${items.length} items` : `"${items[0].name}"`;
+    if (permanent ? !window.confirm(`Permanently delete ${subject}? This cannot be undone.`)
+      : items.length > 1 && !window.confirm(`Move ${subject} to the Recycle Bin?`)) return;
+    const results = await Journal.deleteItems(items, permanent);
+    const failureMessage = FsService.describeBatchFailures(results, 'delete');
+    if (failureMessage) alert(failureMessage);
+  }, []);
+
+  const emptyRecycleBin = async () => {
+    if (!window.confirm('Permanently delete all items in the Recycle Bin?')) return;
+    if (!await FsService.emptyRecycleBin()) alert('Could not empty the Recycle Bin.');
+  };
+
+  const startRename = (icon: DesktopIconState) => {
+    setRenamingIconId(icon.id);
+    setRenameValue(icon.item.name);
   };
   
   const handleRename = async () => {
     const icon = icons.find(i => i.id === renamingIconId);
     if (icon && renameValue && icon.item.name !== renameValue) {
-        await FsService.renameItem(icon.item, renameValue);
-        await fetchDesktopItems();
+        if (!await Journal.renameItem(icon.item, renameValue)) {
+          alert(`Could not rename "${icon.item.name}". An item named "${renameValue}" may already exist.`);
+        }
     }
     setRenamingIconId(null);
   };
@@ -161,34 +249,42 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
     if (!contextMenu) return [];
     const selectedIconState = contextMenu.item;
     const selectedItem = selectedIconState?.item;
+    const targets = contextMenu.targets || [];
+    const isMultiple = targets.length > 1;
 
     const createNewFolder = async () => {
       const name = await FsService.findUniqueName(DESKTOP_PATH, "New folder", true);
       await FsService.createFolder(DESKTOP_PATH, name);
-      fetchDesktopItems();
     }
 
     const createNewFile = async () => {
       const name = await FsService.findUniqueName(DESKTOP_PATH, "New Text Document", false, ".txt");
       await FsService.createFile(DESKTOP_PATH, name, "");
-      fetchDesktopItems();
     }
     
-    if (selectedItem && handleCopy && handleCut) {
+    if (selectedIconState && selectedItem && handleCopy && handleCut) {
       return [
         { type: 'item', label: 'Open', onClick: () => handleDoubleClick(selectedItem) },
+        ...(!isMultiple && selectedItem.type === 'file' && !getShortcutAppId(selectedItem) ? [
+          fileAssociations.openWithMenu(selectedItem, () => setOpenWithItem(selectedItem)),
+        ] : []),
+        ...(!isMultiple && getShortcutAppId(selectedItem) === 'recycleBin' ? [
+          { type: 'item', label: 'Empty Recycle Bin', onClick: emptyRecycleBin } as ContextMenuItem,
+        ] : []),
+        ...(!isMultiple && selectedItem.type === 'file' && isAttachableFile(selectedItem.name) ? [
+          { type: 'item', label: 'Ask Gemini about this file', onClick: () => openApp?.('geminiChat', { attachFilePath: selectedItem.path }) } as ContextMenuItem,
+        ] : []),
         { type: 'separator' },
-        { type: 'item', label: 'Cut', onClick: () => handleCut(selectedItem) },
-        { type: 'item', label: 'Copy', onClick: () => handleCopy(selectedItem) },
+        ...archive.menuItems(targets),
+        { type: 'item', label: 'Cut', onClick: () => handleCut(targets) },
+        { type: 'item', label: 'Copy', onClick: () => handleCopy(targets) },
         { type: 'separator' },
-        { type: 'item', label: 'Delete', onClick: async () => { await FsService.deleteItem(selectedItem); fetchDesktopItems(); } },
-        { type: 'item', label: 'Rename', onClick: () => { 
-            setRenamingIconId(selectedIconState.id); 
-            setRenameValue(selectedItem.name);
-        } },
+        { type: 'item', label: isMultiple ? `Delete ${targets.length} items` : 'Delete', onClick: () => deleteItems(targets) },
+        { type: 'item', label: 'Rename', onClick: () => startRename(selectedIconState), disabled: isMultiple },
       ];
     } else if (handlePaste) {
       return [
+        ...journal.menuItems,
         { type: 'item', label: 'New Folder', onClick: createNewFolder },
         { type: 'item', label: 'New Text File', onClick: createNewFile },
         { type: 'separator' },
@@ -199,46 +295,77 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
       ];
     }
     return [];
-  }, [contextMenu, openApp, clipboard, handleCopy, handleCut, handlePaste, fetchDesktopItems]);
+  }, [contextMenu, openApp, clipboard, handleCopy, handleCut, handlePaste, deleteItems, journal.menuItems, archive.menuItems, fileAssociations.openWithMenu]);
+
+  const handleDesktopMouseDown = (e: React.MouseEvent) => {
+    if (e.target !== desktopRef.current) return;
+    desktopRef.current.focus();
+    if (renamingIconId) handleRename();
+    setContextMenu(null);
+    selection.startRubberBand(e);
+  };
 
-  const handleDesktopClick = (e: React.MouseEvent) => {
-    if (e.target === desktopRef.current) {
-      if(renamingIconId) handleRename();
-      setSelectedIconId(null);
-      setContextMenu(null);
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.target as HTMLElement).tagName === 'INPUT') return;
+    const isCtrl = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    const selectedIcons = icons.filter(icon => selectedIds.has(icon.id));
+    if (isCtrl && key === 'z' && !e.shiftKey) {
+      journal.undo();
+    } else if (isCtrl && (key === 'y' || key === 'z')) {
+      journal.redo();
+    } else if (isCtrl && key === 'a') {
+      selection.selectAll();
+    } else if (isCtrl && key === 'c' && selectedItems.length > 0) {
+      handleCopy?.(selectedItems);
+    } else if (isCtrl && key === 'x' && selectedItems.length > 0) {
+      handleCut?.(selectedItems);
+    } else if (isCtrl && key === 'v' && clipboard) {
+      handlePaste?.(DESKTOP_PATH);
+    } else if (e.key === 'Delete') {
+      deleteItems(selectedItems, e.shiftKey);
+    } else if (e.key === 'F2' && selectedIcons.length === 1) {
+      startRename(selectedIcons[0]);
+    } else if (e.key === 'Enter' && selectedIcons.length === 1) {
+      handleDoubleClick(selectedIcons[0].item);
+    } else {
+      return;
     }
+    e.preventDefault();
   };
 
 
   return (
     <div
       ref={desktopRef}
-      className="absolute inset-0 h-full w-full"
+      className={`absolute inset-0 h-full w-full outline-none ${fileDrop.isDraggingOver ? 'bg-blue-500/10' : ''}`}
       style={{ paddingBottom: `${TASKBAR_HEIGHT}px` }}
       onContextMenu={handleDesktopContextMenu}
-      onClick={handleDesktopClick}
+      {...fileDrop.dropHandlers}
+      onMouseDown={handleDesktopMouseDown}
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
     >
       {icons.map(icon => (
         <div
           key={icon.id}
-          className="absolute flex flex-col items-center p-2 rounded cursor-pointer select-none"
+          {...{ [SELECTABLE_ID_ATTRIBUTE]: icon.id }}
+          className={`absolute flex flex-col items-center p-2 rounded cursor-pointer select-none ${cutPaths.has(icon.id) ? 'opacity-50' : ''}`}
           style={{
             left: `${icon.position.x}px`,
             top: `${icon.position.y}px`,
             width: `${GRID_SIZE - 10}px`,
             height: `${GRID_SIZE - 10}px`,
-            backgroundColor: selectedIconId === icon.id ? 'rgba(255, 255, 255, 0.15)' : 'transparent',
-            border: selectedIconId === icon.id ? '1px solid rgba(255, 255, 255, 0.3)' : '1px solid transparent',
-            transition: draggingIcon?.id === icon.id ? 'none' : 'all 0.2s ease-out'
+            backgroundColor: selectedIds.has(icon.id) ? 'rgba(255, 255, 255, 0.15)' : 'transparent',
+            border: selectedIds.has(icon.id) ? '1px solid rgba(255, 255, 255, 0.3)' : '1px solid transparent',
+            transition: iconDrag?.startPositions[icon.id] ? 'none' : 'all 0.2s ease-out'
           }}
           onMouseDown={e => handleIconMouseDown(e, icon)}
           onDoubleClick={() => renamingIconId !== icon.id && handleDoubleClick(icon.item)}
           onContextMenu={e => handleIconContextMenu(e, icon)}
           title={icon.item.name}
         >
-          {icon.item.type === 'folder' 
-            ? <FolderIcon className="w-10 h-10 text-amber-400 mb-1 pointer-events-none" />
-            : getFileIcon(icon.item)}
+          {fileAssociations.getIcon(icon.item, 'w-10 h-10 mb-1 pointer-events-none')}
           
           {renamingIconId === icon.id ? (
             <input 
@@ -259,6 +386,17 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
         </div>
       ))}
 
+      {selection.rubberBandRect && (
+        <div className="absolute border border-blue-400 bg-blue-500/20 pointer-events-none" style={selection.rubberBandRect} />
+      )}
+
+      {(fileDrop.progress || archive.operation) && (
+        <div className="absolute right-4 flex flex-col space-y-2" style={{ bottom: TASKBAR_HEIGHT + 16 }}>
+          {fileDrop.progress && <UploadProgressBar progress={fileDrop.progress} />}
+          {archive.operation && <ArchiveProgressBar operation={archive.operation} onCancel={archive.cancel} />}
+        </div>
+      )}
+
       {contextMenu && (
         <ContextMenu
           x={contextMenu.x}
@@ -267,6 +405,10 @@ const Desktop: React.FC<DesktopProps> = ({ openApp, clipboard, handleCopy, handl
           onClose={() => setContextMenu(null)}
         />
       )}
+
+      {openWithItem && openApp && (
+        <OpenWithDialog item={openWithItem} onOpen={app => openFileWith(openWithItem, app, openApp)} onClose={() => setOpenWithItem(null)} />
+      )}
     </div>
   );
 };
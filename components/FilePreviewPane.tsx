@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github-dark.css';
+import { FilesystemItem } from '../types';
+import * as FsService from '../services/filesystemService';
+import MarkdownRenderer from './MarkdownRenderer';
+import { getExtensions } from './fileAssociations';
+import { formatSize, formatDate, describeItemType } from './fileFormatters';
+
+// Only the start of a file is loaded; enough to see what it is without downloading all of it
+const PREVIEW_BYTES = 64 * 1024;
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+
+type PreviewKind = 'image' | 'markdown' | 'json' | 'text';
+
+type PreviewContent =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'loaded'; text: string; isTruncated: boolean };
+
+const getPreviewKind = (item: FilesystemItem): PreviewKind => {
+  const extension = getExtensions(item.name).pop() || '';
+  if (item.mimeType?.startsWith('image/')) return 'image';
+  if (MARKDOWN_EXTENSIONS.includes(extension)) return 'markdown';
+  if (extension === 'json' || item.mimeType === 'application/json') return 'json';
+  return 'text';
+};
+
+// Reads the text to preview. Zip entries can't be read in ranges, so they are cut down after loading.
+const loadPreviewText = async (path: string, isInArchive: boolean): Promise<PreviewContent> => {
+  if (isInArchive) {
+    const entry = await FsService.readArchiveEntry(path);
+    if (!entry) return { status: 'error', message: 'This file could not be read.' };
+    return { status: 'loaded', text: entry.content.slice(0, PREVIEW_BYTES), isTruncated: entry.content.length > PREVIEW_BYTES };
+  }
+  const preview = await FsService.readFilePreview(path, PREVIEW_BYTES);
+  if (!preview) return { status: 'error', message: 'This file could not be read.' };
+  if (preview.isBinary) return { status: 'error', message: 'No preview available for this file.' };
+  return { status: 'loaded', text: preview.text, isTruncated: preview.isTruncated };
+};
+
+const HighlightedText: React.FC<{ text: string; fileName: string }> = ({ text, fileName }) => {
+  // highlight.js knows most file extensions as language aliases ('ts', 'py', 'yml', ...)
+  const language = getExtensions(fileName).reverse().find(extension => hljs.getLanguage(extension)) || 'plaintext';
+  // The highlighter escapes the source, so its HTML is safe to insert
+  const html = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+  return (
+    <pre className="m-0 p-3 text-xs overflow-auto custom-scrollbar bg-[#0d1117] select-text">
+      <code className="hljs !bg-transparent !p-0" dangerouslySetInnerHTML={{ __html: html }} />
+    </pre>
+  );
+};
+
+const JsonValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null) return <span className="text-zinc-400">null</span>;
+  if (typeof value === 'string') return <span className="text-green-400 break-all">"{value}"</span>;
+  if (typeof value === 'number') return <span className="text-cyan-400">{value}</span>;
+  return <span className="text-purple-400">{String(value)}</span>;
+};
+
+/** One key of a JSON document. Objects and arrays fold; only the top level starts open. */
+const JsonNode: React.FC<{ name?: string; value: unknown; depth: number }> = ({ name, value, depth }) => {
+  const [isExpanded, setIsExpanded] = useState(depth === 0);
+  const label = name !== undefined && <span className="text-sky-300">{name}: </span>;
+  if (value === null || typeof value !== 'object') {
+    return <div className="pl-4">{label}<JsonValue value={value} /></div>;
+  }
+  const entries = Array.isArray(value) ? value.map((child, index) => [String(index), child] as const) : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+  return (
+    <div>
+      <button onClick={() => setIsExpanded(prev => !prev)} className="w-full text-left hover:bg-white/5 rounded-sm">
+        <span className="inline-block w-4 text-zinc-500">{entries.length > 0 ? (isExpanded ? '▾' : '▸') : ''}</span>
+        {label}<span className="text-zinc-500">{summary}</span>
+      </button>
+      {isExpanded && (
+        <div className="pl-3 border-l border-zinc-800 ml-1.5">
+          {entries.map(([key, child]) => <JsonNode key={key} name={key} value={child} depth={depth + 1} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const JsonPreview: React.FC<{ text: string; fileName: string; isTruncated: boolean }> = ({ text, fileName, isTruncated }) => {
+  // Only a complete document parses; the start of a large one is shown as highlighted text instead
+  let data: unknown;
+  try {
+    if (isTruncated) throw new Error('truncated');
+    data = JSON.parse(text);
+  } catch (e) {
+    return <HighlightedText text={text} fileName={fileName} />;
+  }
+  return (
+    <div className="p-2 text-xs font-mono select-text">
+      <JsonNode value={data} depth={0} />
+    </div>
+  );
+};
+
+interface FilePreviewPaneProps {
+  items: FilesystemItem[]; // the selection; a preview is shown when it is one file
+  isInArchive?: boolean;
+}
+
+/**
+ * File Explorer's preview pane. Shows the contents of the selected file: images, Markdown
+ * rendered, JSON as a tree and other text highlighted by its extension.
+ */
+const FilePreviewPane: React.FC<FilePreviewPaneProps> = ({ items, isInArchive = false }) => {
+  const item = items.length === 1 && items[0].type === 'file' ? items[0] : null;
+  const kind = item ? getPreviewKind(item) : null;
+  const [content, setContent] = useState<PreviewContent>({ status: 'loading' });
+
+  // Keyed by path rather than the item, which is a new object after every listing update;
+  // `mtime` is part of the key so an edited file is previewed again
+  const itemPath = item?.path;
+  const itemMtime = item?.mtime;
+  useEffect(() => {
+    if (!itemPath || kind === 'image') return;
+    let isCancelled = false;
+    setContent({ status: 'loading' });
+    loadPreviewText(itemPath, isInArchive).then(result => {
+      if (!isCancelled) setContent(result);
+    });
+    return () => { isCancelled = true; };
+  }, [itemPath, itemMtime, kind, isInArchive]);
+
+  if (!item) {
+    return (
+      <div className="h-full flex items-center justify-center p-4 text-center text-xs text-zinc-400">
+        {items.length > 1 ? `${items.length} items selected` : items.length === 1 ? 'Folders have no preview.' : 'Select a file to preview its contents.'}
+      </div>
+    );
+  }
+
+  const renderBody = () => {
+    if (kind === 'image') {
+      return isInArchive
+        ? <div className="p-4 text-xs text-zinc-400">Extract this image to preview it.</div>
+        : <div className="p-3 flex justify-center"><img src={FsService.getFileStreamUrl(item.path)} alt={item.name} className="max-w-full max-h-96 object-contain" /></div>;
+    }
+    if (content.status === 'loading') return <div className="p-4 text-xs text-zinc-400">Loading preview...</div>;
+    if (content.status === 'error') return <div className="p-4 text-xs text-zinc-400">{content.message}</div>;
+    if (kind === 'markdown') return <div className="p-3 select-text"><MarkdownRenderer content={content.text} /></div>;
+    if (kind === 'json') return <JsonPreview text={content.text} fileName={item.name} isTruncated={content.isTruncated} />;
+    return <HighlightedText text={content.text} fileName={item.name} />;
+  };
+
+  return (
+    <div className="h-full flex flex-col min-h-0">
+      <div className="flex-shrink-0 px-3 py-2 border-b border-zinc-800">
+        <div className="text-sm font-semibold truncate" title={item.name}>{item.name}</div>
+        <div className="text-xs text-zinc-400 truncate">
+          {describeItemType(item)}{item.size !== undefined && ` · ${formatSize(item.size)}`}{item.mtime && ` · ${formatDate(item.mtime)}`}
+        </div>
+      </div>
+      <div className="flex-grow overflow-auto custom-scrollbar min-h-0">
+        {renderBody()}
+        {content.status === 'loaded' && content.isTruncated && kind !== 'image' && (
+          <div className="px-3 py-2 text-xs text-zinc-500 border-t border-zinc-800">Showing the first {formatSize(PREVIEW_BYTES)}. Open the file to see all of it.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FilePreviewPane;
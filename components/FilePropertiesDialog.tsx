@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { FilesystemItem, FilesystemItemDetails } from '../types';
+import * as FsService from '../services/filesystemService';
+import { formatSize, formatDate, formatMode, describeItemType } from './fileFormatters';
+
+const getParentFolder = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+
+const PropertyRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <dt className="text-zinc-400">{label}</dt>
+    <dd className="break-all">{children}</dd>
+  </>
+);
+
+/**
+ * Shows the metadata of one item. The item from the listing is shown right away; folder totals
+ * come from `/stat`, which walks the folder, so they fill in once it returns.
+ */
+const FilePropertiesDialog: React.FC<{ item: FilesystemItem; onClose: () => void }> = ({ item, onClose }) => {
+  const [details, setDetails] = useState<FilesystemItemDetails>(item);
+  const [isMeasuring, setIsMeasuring] = useState(item.type === 'folder');
+
+  useEffect(() => {
+    let isCancelled = false;
+    FsService.getItemDetails(item.path).then(result => {
+      if (isCancelled) return;
+      if (result) setDetails(result);
+      setIsMeasuring(false);
+    });
+    return () => { isCancelled = true; };
+  }, [item.path]);
+
+  const sizeText = details.size === undefined
+    ? (isMeasuring ? 'Calculating...' : 'Unknown')
+    : `${formatSize(details.size)} (${details.size.toLocaleString()} bytes)`;
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60" onClick={onClose} onKeyDown={e => {
+      // Keep shortcuts like Delete from reaching the window behind the dialog
+      e.stopPropagation();
+      if (e.key === 'Escape') onClose();
+    }}>
+      <div className="w-96 max-w-[90%] bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-4" onClick={e => e.stopPropagation()}>
+        <h3 className="text-sm font-semibold mb-3 truncate">{item.name} Properties</h3>
+        <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1.5 text-xs">
+          <PropertyRow label="Type">
+            {describeItemType(details)}{details.mimeType && <span className="text-zinc-400"> ({details.mimeType})</span>}
+          </PropertyRow>
+          <PropertyRow label="Location">{getParentFolder(details.path)}</PropertyRow>
+          <PropertyRow label="Size">{sizeText}</PropertyRow>
+          {details.type === 'folder' && details.fileCount !== undefined && (
+            <PropertyRow label="Contains">{details.fileCount} files, {details.folderCount} folders</PropertyRow>
+          )}
+          {details.mtime && <PropertyRow label="Modified">{formatDate(details.mtime)}</PropertyRow>}
+          {details.ctime && <PropertyRow label="Changed">{formatDate(details.ctime)}</PropertyRow>}
+          {details.mode !== undefined && (
+            <PropertyRow label="Permissions">
+              <span className="font-mono">{formatMode(details.mode)}</span>
+              <span className="text-zinc-400"> ({details.mode.toString(8).padStart(3, '0')})</span>
+            </PropertyRow>
+          )}
+          {details.symlinkTarget && <PropertyRow label="Link target">{details.symlinkTarget}</PropertyRow>}
+        </dl>
+        <div className="flex justify-end mt-4">
+          <button onClick={onClose} className="px-3 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 text-white" autoFocus>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilePropertiesDialog;
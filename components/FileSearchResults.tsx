@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { FileSearchResult, FilesystemItem } from '../types';
+import { getItemIcon } from './fileAssociations';
+
+export interface FileSearchState {
+  results: FileSearchResult[];
+  status: 'searching' | 'done' | 'cancelled' | 'error';
+  scanned?: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+interface FileSearchResultsProps {
+  search: FileSearchState;
+  onOpen: (item: FilesystemItem) => void;
+  onContextMenu: (e: React.MouseEvent, item: FilesystemItem) => void;
+}
+
+const getParentFolder = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+
+const describeStatus = ({ results, status, scanned, truncated, error }: FileSearchState) => {
+  const found = `${results.length} result${results.length === 1 ? '' : 's'}`;
+  switch (status) {
+    case 'searching': return `Searching... ${found} so far`;
+    case 'cancelled': return `Search cancelled. ${found}`;
+    case 'error': return `Search failed: ${error}`;
+    case 'done': return `${found} (${scanned} items searched)${truncated ? '. Only the first results are shown; narrow your search to see the rest.' : ''}`;
+  }
+};
+
+/** The results of a File Explorer search, with the matching lines of content searches underneath each file. */
+const FileSearchResults: React.FC<FileSearchResultsProps> = ({ search, onOpen, onContextMenu }) => {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  return (
+    <div className="text-sm">
+      <div className="px-2 pb-2 text-xs text-zinc-400">{describeStatus(search)}</div>
+      {search.results.map(({ item, matches }) => (
+        <div
+          key={item.path}
+          onClick={() => setSelectedPath(item.path)}
+          onDoubleClick={() => onOpen(item)}
+          onContextMenu={(e) => {
+            setSelectedPath(item.path);
+            onContextMenu(e, item);
+          }}
+          className={`px-2 py-1.5 rounded cursor-default ${selectedPath === item.path ? 'bg-blue-500/30' : 'hover:bg-white/10'}`}
+        >
+          <div className="flex items-center space-x-2 min-w-0">
+            {getItemIcon(item, 'w-5 h-5 flex-shrink-0')}
+            <span className="truncate">{item.name}</span>
+            <span className="truncate text-xs text-zinc-500">{getParentFolder(item.path)}</span>
+          </div>
+          {matches && (
+            <div className="ml-7 mt-0.5 font-mono text-xs text-zinc-400">
+              {matches.map(match => (
+                <div key={match.line} className="truncate">
+                  <span className="text-zinc-500 mr-2">{match.line}:</span>{match.text.trim()}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FileSearchResults;
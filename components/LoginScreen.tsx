@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import * as AuthService from '../services/authService';
+import { useTheme } from './theme';
+
+interface LoginScreenProps {
+  onLogin: (username: string) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
+  const [currentTime, setCurrentTime] = useState(new Date());
+  const [isShowingForm, setIsShowingForm] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    const timerId = setInterval(() => setCurrentTime(new Date()), 1000);
+    return () => clearInterval(timerId);
+  }, []);
+
+  // Like the real lock screen, any key or click reveals the sign-in form
+  useEffect(() => {
+    if (isShowingForm) return;
+    const reveal = () => setIsShowingForm(true);
+    document.addEventListener('keydown', reveal);
+    return () => document.removeEventListener('keydown', reveal);
+  }, [isShowingForm]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password || isSubmitting) return;
+    setIsSubmitting(true);
+    setErrorMsg('');
+    const result = await AuthService.login(username, password);
+    setIsSubmitting(false);
+    if (result.username) {
+      onLogin(result.username);
+    } else {
+      setErrorMsg(result.error || 'Login failed');
+      setPassword('');
+    }
+  };
+
+  return (
+    <div
+      className="h-screen w-screen bg-cover bg-center text-white select-none"
+      style={{ backgroundImage: `url(${theme.wallpaper})` }}
+      onClick={() => setIsShowingForm(true)}
+    >
+      <div className={`h-full w-full flex flex-col items-center justify-center transition-colors duration-300 ${isShowingForm ? 'bg-black/50 backdrop-blur-md' : ''}`}>
+        {!isShowingForm ? (
+          <div className="text-center -mt-32">
+            <div className="text-8xl font-light">{currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
+            <div className="text-2xl mt-2">{currentTime.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}</div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="w-72 flex flex-col items-center animate-fade-in-fast">
+            <img src="https://picsum.photos/seed/user/96/96" alt="User" className="w-24 h-24 rounded-full mb-4" />
+            <input
+              type="text"
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              placeholder="Username"
+              className="w-full mb-2 bg-black/40 border border-zinc-500 rounded py-2 px-3 outline-none focus:border-blue-500 placeholder-zinc-400"
+              autoFocus
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              placeholder="Password"
+              className="w-full bg-black/40 border border-zinc-500 rounded py-2 px-3 outline-none focus:border-blue-500 placeholder-zinc-400"
+            />
+            {errorMsg && <p className="text-red-400 text-xs mt-3 text-center">{errorMsg}</p>}
+            <button
+              type="submit"
+              disabled={isSubmitting || !username || !password}
+              className="w-full mt-4 bg-blue-600 hover:bg-blue-700 disabled:bg-zinc-600 p-2 rounded font-semibold transition-colors"
+            >
+              {isSubmitting ? 'Signing in...' : 'Sign in'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+
+// File extensions used when a code block is opened in Notebook
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', jsx: 'jsx', typescript: 'ts', ts: 'ts', tsx: 'tsx',
+  python: 'py', py: 'py', json: 'json', html: 'html', css: 'css', markdown: 'md', md: 'md',
+  bash: 'sh', sh: 'sh', shell: 'sh', java: 'java', c: 'c', cpp: 'cpp', csharp: 'cs',
+  go: 'go', rust: 'rs', ruby: 'rb', php: 'php', sql: 'sql', yaml: 'yml', xml: 'xml',
+};
+
+export const getExtensionForLanguage = (language: string): string => LANGUAGE_EXTENSIONS[language.toLowerCase()] || 'txt';
+
+// Collects the text of a hast node. Code blocks are highlighted into nested spans,
+// so the original source has to be reassembled from the syntax tree.
+const getNodeText = (node: any): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  return (node.children || []).map(getNodeText).join('');
+};
+
+const CodeBlock: React.FC<{
+  code: string;
+  language: string;
+  children: React.ReactNode;
+  onOpenInNotebook?: (code: string, language: string) => void;
+}> = ({ code, language, children, onOpenInNotebook }) => {
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 1500);
+    } catch (e) {
+      console.error('Could not copy code to clipboard', e);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-md overflow-hidden border border-zinc-700 not-prose">
+      <div className="flex items-center justify-between px-3 py-1 bg-zinc-800 text-xs text-zinc-400">
+        <span>{language || 'text'}</span>
+        <div className="flex items-center space-x-2">
+          <button onClick={handleCopy} className="hover:text-white">{isCopied ? 'Copied!' : 'Copy'}</button>
+          {onOpenInNotebook && (
+            <button onClick={() => onOpenInNotebook(code, language)} className="hover:text-white">Open in Notebook</button>
+          )}
+        </div>
+      </div>
+      <pre className="m-0 p-3 overflow-x-auto custom-scrollbar bg-[#0d1117] text-xs">{children}</pre>
+    </div>
+  );
+};
+
+interface MarkdownRendererProps {
+  content: string;
+  onOpenInNotebook?: (code: string, language: string) => void;
+}
+
+/**
+ * Renders untrusted Markdown (e.g. model output). Raw HTML in the source is not rendered
+ * and unsafe link protocols are stripped, so the output is safe to show as-is.
+ */
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, onOpenInNotebook }) => {
+  const components: Components = {
+    pre: ({ node, children }) => {
+      const codeNode: any = node?.children?.[0];
+      const className: string[] = codeNode?.properties?.className || [];
+      const languageClass = className.find(c => typeof c === 'string' && c.startsWith('language-'));
+      const language = languageClass ? languageClass.substring('language-'.length) : '';
+      return (
+        <CodeBlock code={getNodeText(codeNode).replace(/\n$/, '')} language={language} onOpenInNotebook={onOpenInNotebook}>
+          {children}
+        </CodeBlock>
+      );
+    },
+    a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  };
+
+  return (
+    <div className="prose prose-invert prose-sm max-w-none break-words prose-pre:my-0 prose-table:my-2 prose-p:my-1.5">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownRenderer;
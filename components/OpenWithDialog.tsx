@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { AppDefinition, FilesystemItem } from '../types';
+import { APP_DEFINITIONS } from './apps';
+import * as FileAssociations from '../services/fileAssociationService';
+import { getAppsForFile, getDefaultApp, getFileType } from './fileAssociations';
+
+interface OpenWithDialogProps {
+  item: FilesystemItem;
+  onOpen: (app: AppDefinition) => void;
+  onClose: () => void;
+}
+
+/**
+ * "Choose another app": every app that opens files, the ones made for this file's type first.
+ * With "Always use this app" checked, the choice becomes the default for the type.
+ */
+const OpenWithDialog: React.FC<OpenWithDialogProps> = ({ item, onOpen, onClose }) => {
+  const fileType = getFileType(item);
+  const recommendedApps = getAppsForFile(item);
+  const otherApps = APP_DEFINITIONS.filter(app => app.fileTypes && !recommendedApps.includes(app));
+  const [selectedApp, setSelectedApp] = useState<AppDefinition>(getDefaultApp(item));
+  const [isAlways, setIsAlways] = useState(false);
+
+  const confirm = async () => {
+    if (isAlways && !await FileAssociations.setDefaultApp(fileType, selectedApp.id)) {
+      alert(`Could not make ${selectedApp.name} the default app for .${fileType} files.`);
+    }
+    onOpen(selectedApp);
+    onClose();
+  };
+
+  const renderApp = (app: AppDefinition) => (
+    <button
+      key={app.id}
+      onClick={() => setSelectedApp(app)}
+      onDoubleClick={() => {
+        setSelectedApp(app);
+        onOpen(app);
+        onClose();
+      }}
+      className={`w-full flex items-center space-x-2 px-2 py-1.5 rounded text-left ${selectedApp === app ? 'bg-blue-500/30' : 'hover:bg-white/10'}`}
+    >
+      <app.icon className="w-5 h-5 flex-shrink-0" />
+      <span className="truncate">{app.name}</span>
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60" onClick={onClose} onKeyDown={e => {
+      // Keep shortcuts like Delete from reaching the window behind the dialog
+      e.stopPropagation();
+      if (e.key === 'Escape') onClose();
+    }}>
+      <div className="w-96 max-w-[90%] bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-4" onClick={e => e.stopPropagation()}>
+        <h3 className="text-sm font-semibold mb-3 truncate">How do you want to open {item.name}?</h3>
+        <div className="max-h-64 overflow-y-auto custom-scrollbar text-sm">
+          {recommendedApps.length > 0 && (
+            <>
+              <div className="px-2 pb-1 text-xs text-zinc-400">Suggested apps</div>
+              {recommendedApps.map(renderApp)}
+            </>
+          )}
+          {otherApps.length > 0 && (
+            <>
+              <div className="px-2 pt-2 pb-1 text-xs text-zinc-400">Other apps</div>
+              {otherApps.map(renderApp)}
+            </>
+          )}
+        </div>
+        {fileType && (
+          <label className="flex items-center space-x-2 mt-3 text-xs">
+            <input type="checkbox" checked={isAlways} onChange={e => setIsAlways(e.target.checked)} />
+            <span>Always use this app to open .{fileType} files</span>
+          </label>
+        )}
+        <div className="flex justify-end space-x-2 mt-4">
+          <button onClick={onClose} className="px-3 py-1 text-xs rounded bg-zinc-700 hover:bg-zinc-600">Cancel</button>
+          <button onClick={confirm} className="px-3 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 text-white" autoFocus>Open</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OpenWithDialog;
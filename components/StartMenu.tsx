@@ -1,18 +1,156 @@
 
-import React, { useState, useMemo } from 'react';
-import { AppDefinition } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { AppDefinition, FilesystemItem } from '../types';
 import { SearchIcon, SettingsIcon, StartIcon as PowerIcon } from '../constants'; // Reusing StartIcon as PowerIcon for simplicity
 import { useTheme } from './theme';
+import * as FsService from '../services/filesystemService';
+import { useFileAssociations, getShortcutAppId } from './fileAssociations';
+import { SETTINGS_PAGES } from './apps/SettingsApp';
 
 interface StartMenuProps {
   apps: AppDefinition[];
-  onOpenApp: (appId: string) => void;
+  onOpenApp: (appId: string, initialData?: any) => void;
   onClose: () => void;
+  username: string;
+  onSignOut: () => void;
 }
 
-const StartMenu: React.FC<StartMenuProps> = ({ apps, onOpenApp, onClose }) => {
+type SearchResult =
+  | { kind: 'app'; key: string; score: number; app: AppDefinition }
+  | { kind: 'setting'; key: string; score: number; page: typeof SETTINGS_PAGES[number] }
+  | { kind: 'item'; key: string; score: number; item: FilesystemItem; matchedContent: boolean };
+
+// Wait this long after the last keystroke before asking the server
+const SEARCH_DEBOUNCE_MS = 150;
+const MAX_FILE_RESULTS = 30;
+// Apps are what people look for most often, so they win ties with files of the same name
+const APP_SCORE_BONUS = 10;
+
+const getParentPath = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+
+/**
+ * Scores a name the same way the server's index does: every word of the query has to appear in
+ * the name (or the keywords, which count for less), exact and prefix matches count the most.
+ * Returns null when something doesn't match.
+ */
+const scoreName = (name: string, query: string, keywords: string[] = []): number | null => {
+  const lowerName = name.toLowerCase();
+  let score = lowerName === query ? 100 : 0;
+  for (const term of query.split(/\s+/)) {
+    if (lowerName.startsWith(term)) score += 30;
+    else if (lowerName.includes(term)) score += 15;
+    else if (keywords.some(keyword => keyword.startsWith(term))) score += 5;
+    else return null;
+  }
+  return score;
+};
+
+const StartMenu: React.FC<StartMenuProps> = ({ apps, onOpenApp, onClose, username, onSignOut }) => {
   const [isShowingAllApps, setIsShowingAllApps] = useState(false);
+  const [query, setQuery] = useState('');
+  const [fileResults, setFileResults] = useState<{ item: FilesystemItem; score: number; matchedContent: boolean }[]>([]);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const resultsRef = useRef<HTMLDivElement>(null);
   const { theme } = useTheme();
+  const fileAssociations = useFileAssociations(onOpenApp);
+  const normalizedQuery = query.trim().toLowerCase();
+
+  // Files and folders come from the server's index; apps and settings are matched locally
+  useEffect(() => {
+    if (!normalizedQuery) {
+      setFileResults([]);
+      return;
+    }
+    let isStale = false;
+    const timer = setTimeout(async () => {
+      const response = await FsService.searchIndex(normalizedQuery, MAX_FILE_RESULTS);
+      if (isStale) return;
+      setFileResults(response.results);
+      setIsIndexing(response.isIndexing);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      isStale = true;
+      clearTimeout(timer);
+    };
+  }, [normalizedQuery]);
+
+  const searchResults = useMemo<SearchResult[]>(() => {
+    if (!normalizedQuery) return [];
+    const results: SearchResult[] = [];
+    apps.forEach(app => {
+      const score = scoreName(app.name, normalizedQuery);
+      if (score !== null) results.push({ kind: 'app', key: `app-${app.id}`, score: score + APP_SCORE_BONUS, app });
+    });
+    SETTINGS_PAGES.forEach(page => {
+      const score = scoreName(page.name, normalizedQuery, page.keywords);
+      if (score !== null) results.push({ kind: 'setting', key: `setting-${page.id}`, score, page });
+    });
+    fileResults.forEach(({ item, score, matchedContent }) => {
+      results.push({ kind: 'item', key: `item-${item.path}`, score, item, matchedContent });
+    });
+    return results.sort((a, b) => b.score - a.score);
+  }, [apps, normalizedQuery, fileResults]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [searchResults]);
+
+  useEffect(() => {
+    resultsRef.current?.querySelector(`[data-result-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const openItem = (item: FilesystemItem) => {
+    const shortcutAppId = getShortcutAppId(item);
+    if (item.type === 'folder') onOpenApp('fileExplorer', { initialPath: item.path });
+    else if (shortcutAppId) onOpenApp(shortcutAppId);
+    else fileAssociations.openFile(item);
+  };
+
+  const openResult = (result: SearchResult) => {
+    if (result.kind === 'app') onOpenApp(result.app.id);
+    else if (result.kind === 'setting') onOpenApp('settings', { page: result.page.id });
+    else openItem(result.item);
+    onClose();
+  };
+
+  const openFileLocation = (item: FilesystemItem) => {
+    onOpenApp('fileExplorer', { initialPath: getParentPath(item.path), revealPath: item.path });
+    onClose();
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const activeResult = searchResults[activeIndex];
+    if (e.key === 'ArrowDown') {
+      setActiveIndex(index => Math.min(index + 1, searchResults.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && activeResult) {
+      // Ctrl+Enter shows a file or folder in File Explorer instead of opening it
+      if ((e.ctrlKey || e.metaKey) && activeResult.kind === 'item') openFileLocation(activeResult.item);
+      else openResult(activeResult);
+    } else if (e.key === 'Escape') {
+      if (query) setQuery('');
+      else onClose();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  const describeResult = (result: SearchResult) => {
+    switch (result.kind) {
+      case 'app': return 'App';
+      case 'setting': return 'Settings';
+      case 'item': return `${result.item.type === 'folder' ? 'Folder' : 'File'} in ${getParentPath(result.item.path)}${result.matchedContent ? ' (matches content)' : ''}`;
+    }
+  };
+
+  const renderResultIcon = (result: SearchResult) => {
+    if (result.kind === 'app') return <result.app.icon className="w-6 h-6 flex-shrink-0" />;
+    if (result.kind === 'setting') return <SettingsIcon className="w-6 h-6 flex-shrink-0" />;
+    return fileAssociations.getIcon(result.item, 'w-6 h-6 flex-shrink-0');
+  };
 
   // Pinned apps (example, could be dynamic later)
   const pinnedApps = apps.slice(0, 6); // Show first 6 apps as "pinned"
@@ -35,6 +173,10 @@ const StartMenu: React.FC<StartMenuProps> = ({ apps, onOpenApp, onClose }) => {
         <div className="relative">
           <input
             type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            autoFocus
             placeholder="Type here to search"
             className={`w-full rounded-md py-2.5 px-4 pl-10 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none ${theme.startMenu.searchBar}`}
           />
@@ -44,7 +186,40 @@ const StartMenu: React.FC<StartMenuProps> = ({ apps, onOpenApp, onClose }) => {
 
       {/* Main Content Area */}
       <div className="flex-grow overflow-hidden">
-        {isShowingAllApps ? (
+        {normalizedQuery ? (
+          // Search Results View
+          <div className="h-full flex flex-col">
+            <h2 className="flex-shrink-0 text-sm font-semibold opacity-80 mb-3">Best matches</h2>
+            <div ref={resultsRef} className="flex-grow overflow-y-auto custom-scrollbar -mr-4 pr-4 space-y-1">
+              {searchResults.map((result, index) => (
+                <div
+                  key={result.key}
+                  data-result-index={index}
+                  onClick={() => openResult(result)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`group flex items-center p-2 rounded-md cursor-default ${index === activeIndex ? 'bg-blue-500/30' : theme.startMenu.buttonHover}`}
+                >
+                  {renderResultIcon(result)}
+                  <div className="ml-3 min-w-0 flex-grow">
+                    <div className="text-sm truncate">{result.kind === 'app' ? result.app.name : result.kind === 'setting' ? result.page.name : result.item.name}</div>
+                    <div className="text-xs opacity-60 truncate">{describeResult(result)}</div>
+                  </div>
+                  {result.kind === 'item' && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); openFileLocation(result.item); }}
+                      className={`ml-2 px-2 py-1 text-xs rounded-md flex-shrink-0 ${index === activeIndex ? '' : 'invisible group-hover:visible'} ${theme.startMenu.buttonHover}`}
+                      title="Open file location (Ctrl+Enter)"
+                    >
+                      Open file location
+                    </button>
+                  )}
+                </div>
+              ))}
+              {searchResults.length === 0 && <p className="text-xs opacity-60">No results for "{query.trim()}".</p>}
+              {isIndexing && <p className="text-xs opacity-60 pt-2">Indexing is still in progress, so some files may be missing.</p>}
+            </div>
+          </div>
+        ) : isShowingAllApps ? (
           // All Apps View
           <div className="h-full flex flex-col">
             <div className="flex-shrink-0 flex justify-between items-center mb-3">
@@ -124,13 +299,13 @@ const StartMenu: React.FC<StartMenuProps> = ({ apps, onOpenApp, onClose }) => {
       <div className="flex-shrink-0 mt-auto pt-4 border-t border-zinc-800/50 flex justify-between items-center">
         <button className={`flex items-center p-2 rounded-md ${theme.startMenu.buttonHover}`}>
           <img src="https://picsum.photos/seed/user/32/32" alt="User" className="w-7 h-7 rounded-full mr-2" />
-          <span className="text-sm">User</span>
+          <span className="text-sm">{username}</span>
         </button>
         <div className="flex space-x-1">
           <button title="Settings" onClick={() => { onOpenApp('settings'); onClose(); }} className={`p-2 rounded-md ${theme.startMenu.buttonHover}`}>
             <SettingsIcon className="w-5 h-5" />
           </button>
-          <button title="Power (Placeholder)" className={`p-2 rounded-md ${theme.startMenu.buttonHover}`}>
+          <button title="Sign out" onClick={() => { onClose(); onSignOut(); }} className={`p-2 rounded-md ${theme.startMenu.buttonHover}`}>
             <PowerIcon className="w-5 h-5" />
           </button>
         </div>
@@ -0,0 +1,47 @@
+import React from 'react';
+import { UploadProgress } from '../services/filesystemService';
+import { ArchiveOperationState } from './useArchiveOperations';
+
+interface UploadProgressBarProps {
+  progress: UploadProgress;
+  label?: string;
+  onCancel?: () => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const UploadProgressBar: React.FC<UploadProgressBarProps> = ({ progress, label = 'Uploading', onCancel, className = '', style }) => {
+  const percent = progress.totalBytes > 0 ? Math.round((progress.uploadedBytes / progress.totalBytes) * 100) : 100;
+  return (
+    <div className={`w-64 p-3 rounded-md bg-zinc-900/95 border border-zinc-700 shadow-lg text-xs text-zinc-200 ${className}`} style={style}>
+      <div className="flex justify-between mb-1.5">
+        <span className="truncate mr-2">
+          {label} {progress.fileName}{progress.fileCount > 1 && ` (${progress.fileIndex + 1} of ${progress.fileCount})`}
+        </span>
+        <span className="text-zinc-400">{percent}%</span>
+      </div>
+      <div className="h-1.5 rounded bg-zinc-700 overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      {onCancel && (
+        <div className="flex justify-end mt-2">
+          <button onClick={onCancel} onMouseDown={e => e.stopPropagation()} className="px-2 py-0.5 rounded hover:bg-zinc-700 text-zinc-300">Cancel</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** The same bar for a running compress or extract operation. */
+export const ArchiveProgressBar: React.FC<{ operation: ArchiveOperationState; onCancel: () => void; className?: string; style?: React.CSSProperties }> = ({ operation, ...rest }) => {
+  const { currentFile, fileIndex, fileCount, processedBytes, totalBytes } = operation.progress;
+  return (
+    <UploadProgressBar
+      progress={{ fileName: currentFile, fileIndex, fileCount, uploadedBytes: processedBytes, totalBytes }}
+      label={operation.label}
+      {...rest}
+    />
+  );
+};
+
+export default UploadProgressBar;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { FileVersion } from '../types';
+import * as FsService from '../services/filesystemService';
+import { formatSize, formatDate } from './fileFormatters';
+import { diffLines, DiffLine } from './lineDiff';
+
+// Unchanged lines shown around each change; longer unchanged stretches are folded
+const CONTEXT_LINES = 3;
+
+const REASON_LABELS: Record<FileVersion['reason'], string> = {
+  save: 'Replaced by a save',
+  rename: 'Before a rename',
+  delete: 'Contents when deleted',
+  restore: 'Replaced by a restore',
+};
+
+type Comparison =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'loaded'; lines: DiffLine[] };
+
+type DiffRow = DiffLine | { type: 'folded'; count: number };
+
+const foldUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  const isNearChange = (index: number) => lines
+    .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+    .some(line => line.type !== 'same');
+  lines.forEach((line, index) => {
+    if (line.type !== 'same' || isNearChange(index)) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last?.type === 'folded') last.count++;
+    else rows.push({ type: 'folded', count: 1 });
+  });
+  return rows;
+};
+
+const ROW_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-zinc-300',
+  removed: 'bg-red-900/40 text-red-200',
+  added: 'bg-green-900/40 text-green-200',
+};
+
+const DiffView: React.FC<{ lines: DiffLine[] }> = ({ lines }) => {
+  const removedCount = lines.filter(line => line.type === 'removed').length;
+  const addedCount = lines.filter(line => line.type === 'added').length;
+  if (removedCount === 0 && addedCount === 0) {
+    return <div className="p-4 text-xs text-zinc-400">This version is the same as the current file.</div>;
+  }
+  return (
+    <>
+      <div className="flex-shrink-0 px-3 py-1.5 text-xs text-zinc-400 border-b border-zinc-800">
+        <span className="text-red-300">−{removedCount}</span> lines only in this version, <span className="text-green-300">+{addedCount}</span> only in the current file
+      </div>
+      <div className="flex-grow overflow-auto custom-scrollbar min-h-0 font-mono text-xs select-text">
+        {foldUnchanged(lines).map((row, index) => row.type === 'folded' ? (
+          <div key={index} className="px-3 py-0.5 text-zinc-500 bg-zinc-800/50">⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>
+        ) : (
+          <div key={index} className={`flex whitespace-pre ${ROW_STYLES[row.type]}`}>
+            <span className="w-10 flex-shrink-0 pr-2 text-right text-zinc-500">{row.oldLine ?? ''}</span>
+            <span className="w-10 flex-shrink-0 pr-2 text-right text-zinc-500">{row.newLine ?? ''}</span>
+            <span className="w-4 flex-shrink-0">{row.type === 'removed' ? '−' : row.type === 'added' ? '+' : ''}</span>
+            <span>{row.text}</span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+interface VersionHistoryDialogProps {
+  path: string;
+  name: string;
+  isReadOnly?: boolean; // the versions can be viewed but not restored
+  onRestored?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Version history of a file: the earlier contents the server kept when it was saved over,
+ * renamed or deleted, each compared line by line with the current file, and restoring one of them.
+ */
+const VersionHistoryDialog: React.FC<VersionHistoryDialogProps> = ({ path, name, isReadOnly = false, onRestored, onClose }) => {
+  const [versions, setVersions] = useState<FileVersion[] | null>(null);
+  // null while loading; a deleted file is compared as if it were empty
+  const [currentText, setCurrentText] = useState<string | null>(null);
+  const [isCurrentMissing, setIsCurrentMissing] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<FileVersion | null>(null);
+  const [comparison, setComparison] = useState<Comparison>({ status: 'loading' });
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    Promise.all([FsService.listFileVersions(path), FsService.readFile(path)]).then(([fileVersions, file]) => {
+      if (isCancelled) return;
+      setVersions(fileVersions);
+      setSelectedVersion(fileVersions[0] || null);
+      setCurrentText(file?.content ?? '');
+      setIsCurrentMissing(!file);
+    });
+    return () => { isCancelled = true; };
+  }, [path]);
+
+  useEffect(() => {
+    if (!selectedVersion || currentText === null) return;
+    let isCancelled = false;
+    setComparison({ status: 'loading' });
+    FsService.readFileVersion(selectedVersion).then(text => {
+      if (isCancelled) return;
+      if (text === null) setComparison({ status: 'error', message: 'This version could not be read.' });
+      else if (text.includes('\0') || currentText.includes('\0')) setComparison({ status: 'error', message: 'Binary files can\'t be compared.' });
+      else setComparison({ status: 'loaded', lines: diffLines(text, currentText) });
+    });
+    return () => { isCancelled = true; };
+  }, [selectedVersion, currentText]);
+
+  const restore = async () => {
+    if (!selectedVersion) return;
+    if (!window.confirm(`Replace ${name} with the version from ${formatDate(selectedVersion.modifiedAt)}? The current contents are kept in the history.`)) return;
+    setIsRestoring(true);
+    if (await FsService.restoreFileVersion(selectedVersion)) {
+      onRestored?.();
+      onClose();
+    } else {
+      alert(`Could not restore this version of ${name}.`);
+      setIsRestoring(false);
+    }
+  };
+
+  const renderComparison = () => {
+    if (versions?.length === 0) {
+      return <div className="p-4 text-xs text-zinc-400">No earlier versions. A version is kept each time the file is saved over, renamed or deleted.</div>;
+    }
+    if (comparison.status === 'loading') return <div className="p-4 text-xs text-zinc-400">Loading...</div>;
+    if (comparison.status === 'error') return <div className="p-4 text-xs text-zinc-400">{comparison.message}</div>;
+    return <DiffView lines={comparison.lines} />;
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60" onClick={onClose} onKeyDown={e => {
+      // Keep shortcuts like Delete from reaching the window behind the dialog
+      e.stopPropagation();
+      if (e.key === 'Escape') onClose();
+    }}>
+      <div className="w-[48rem] max-w-[95%] h-[85%] flex flex-col bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-4" onClick={e => e.stopPropagation()}>
+        <h3 className="flex-shrink-0 text-sm font-semibold mb-1 truncate">Version history of {name}</h3>
+        {isCurrentMissing && <div className="flex-shrink-0 mb-1 text-xs text-amber-300">The file no longer exists. Restoring a version recreates it.</div>}
+        <div className="flex-grow flex min-h-0 mt-2 space-x-3">
+          <div className="w-52 flex-shrink-0 overflow-y-auto custom-scrollbar">
+            {versions === null && <div className="p-2 text-xs text-zinc-400">Loading...</div>}
+            {versions?.map(version => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedVersion(version)}
+                className={`w-full text-left px-2 py-1.5 rounded text-xs ${selectedVersion?.id === version.id ? 'bg-blue-500/30' : 'hover:bg-white/10'}`}
+              >
+                <div>{formatDate(version.modifiedAt)}</div>
+                <div className="text-zinc-400">{REASON_LABELS[version.reason]} · {formatSize(version.size)}</div>
+                {version.originalPath && version.originalPath !== version.path && (
+                  <div className="text-zinc-400 truncate" title={version.originalPath}>as {version.originalPath.substring(version.originalPath.lastIndexOf('/') + 1)}</div>
+                )}
+              </button>
+            ))}
+          </div>
+          <div className="flex-grow min-w-0 flex flex-col border border-zinc-800 rounded bg-[#1e1e1e]">
+            {renderComparison()}
+          </div>
+        </div>
+        <div className="flex-shrink-0 flex justify-end space-x-2 mt-4">
+          <button onClick={onClose} className="px-3 py-1 text-xs rounded bg-zinc-700 hover:bg-zinc-600" autoFocus>Close</button>
+          <button
+            onClick={restore}
+            disabled={!selectedVersion || isReadOnly || isRestoring}
+            className="px-3 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRestoring ? 'Restoring...' : 'Restore'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryDialog;
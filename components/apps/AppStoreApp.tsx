@@ -4,10 +4,9 @@ import { StoreIcon, RefreshIcon } from '../../constants';
 import * as FsService from '../../services/filesystemService';
 import { APP_DEFINITIONS } from '.';
 
-const AppStoreApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) => {
+const AppStoreApp: React.FC<AppComponentProps> = ({ setTitle }) => {
     const [installedAppIds, setInstalledAppIds] = useState<Set<string>>(new Set());
     const [isLoading, setIsLoading] = useState(true);
-    const triggerRefresh = initialData?.triggerRefresh;
 
     const fetchInstalledApps = useCallback(async () => {
         // Don't set isLoading to true here to prevent flickering on refresh.
@@ -35,12 +34,13 @@ const AppStoreApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
         fetchInstalledApps();
     }, [setTitle, fetchInstalledApps]);
 
+    // Shortcuts can also be added or removed from the desktop itself
+    useEffect(() => FsService.subscribeToChanges('/Desktop', fetchInstalledApps, fetchInstalledApps), [fetchInstalledApps]);
+
     const handleInstall = async (app: AppDefinition) => {
         const success = await FsService.createAppShortcut(app.id, app.name);
         if (success) {
-            // Refresh the desktop to show the new icon
-            triggerRefresh?.();
-            // Manually update this component's state without flickering
+            // The desktop picks up the new shortcut through change notifications
             fetchInstalledApps();
         } else {
             alert(`Failed to install ${app.name}.`);
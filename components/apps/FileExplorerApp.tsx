@@ -1,17 +1,93 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { AppDefinition, AppComponentProps, FilesystemItem } from '../../types';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { AppDefinition, AppComponentProps, FilesystemItem, FileSearchQuery, Mount } from '../../types';
 import * as FsService from '../../services/filesystemService';
-import { FolderIcon, FileCodeIcon, FileJsonIcon, FileGenericIcon, StarIcon, NotebookIcon, FileExplorerIcon } from '../../constants';
+import { FolderIcon, FileExplorerIcon, RecycleBinIcon } from '../../constants';
 import ContextMenu, { ContextMenuItem } from '../ContextMenu';
+import { useItemSelection, SELECTABLE_ID_ATTRIBUTE } from '../useItemSelection';
+import { useOperationJournal } from '../useOperationJournal';
+import { useFileDrop } from '../useFileDrop';
+import { useArchiveOperations } from '../useArchiveOperations';
+import UploadProgressBar, { ArchiveProgressBar } from '../UploadProgressBar';
+import * as Journal from '../../services/operationJournal';
+import { isAttachableFile } from '../../services/chatAttachmentService';
+import FilePropertiesDialog from '../FilePropertiesDialog';
+import OpenWithDialog from '../OpenWithDialog';
+import VersionHistoryDialog from '../VersionHistoryDialog';
+import { useFileAssociations, getDefaultApp, getShortcutAppId, openFileWith } from '../fileAssociations';
+import FileSearchResults, { FileSearchState } from '../FileSearchResults';
+import FilePreviewPane from '../FilePreviewPane';
+import { formatSize, formatDate, describeItemType } from '../fileFormatters';
 
-const getFileIcon = (filename: string) => {
-    if (filename.endsWith('.app')) return <FileGenericIcon className="w-12 h-12 text-blue-400" />;
-    if (filename.endsWith('.tsx') || filename.endsWith('.ts') || filename.endsWith('.html')) return <FileCodeIcon className="w-12 h-12 text-cyan-400" />;
-    if (filename.endsWith('.json')) return <FileJsonIcon className="w-12 h-12 text-yellow-400" />;
-    if (filename.endsWith('.txt') || filename.endsWith('.md')) return <NotebookIcon isSmall className="w-12 h-12 text-zinc-300" />;
-    return <FileGenericIcon className="w-12 h-12 text-zinc-400" />;
+type ViewMode = 'details' | 'list' | 'largeIcons';
+type SortKey = 'name' | 'mtime' | 'type' | 'size';
+type GroupBy = 'none' | 'type' | 'mtime';
+type SearchMode = 'name' | 'regex' | 'content';
+
+interface SortOrder {
+    key: SortKey;
+    direction: 'asc' | 'desc';
 }
 
+const DEFAULT_SORT_ORDER: SortOrder = { key: 'name', direction: 'asc' };
+const DETAILS_COLUMNS = 'grid-cols-[3fr_1.5fr_1fr_1fr]';
+
+const compareItems = (a: FilesystemItem, b: FilesystemItem, { key, direction }: SortOrder) => {
+    // Folders stay on top whichever way the rest is sorted, like Explorer
+    if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+    let result = 0;
+    if (key === 'mtime') result = Date.parse(a.mtime || '0') - Date.parse(b.mtime || '0');
+    else if (key === 'size') result = (a.size ?? 0) - (b.size ?? 0);
+    else if (key === 'type') result = describeItemType(a).localeCompare(describeItemType(b));
+    if (result === 0) result = a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+    return direction === 'asc' ? result : -result;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Explorer-style relative date buckets, most recent first
+const getDateGroup = (isoDate: string | undefined, now: Date): { label: string; rank: number } => {
+    if (!isoDate) return { label: 'Unknown', rank: 6 };
+    const date = new Date(isoDate);
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const time = date.getTime();
+    if (time >= startOfToday) return { label: 'Today', rank: 0 };
+    if (time >= startOfToday - DAY_MS) return { label: 'Yesterday', rank: 1 };
+    if (time >= startOfToday - now.getDay() * DAY_MS) return { label: 'Earlier this week', rank: 2 };
+    if (date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth()) return { label: 'Earlier this month', rank: 3 };
+    if (date.getFullYear() === now.getFullYear()) return { label: 'Earlier this year', rank: 4 };
+    return { label: 'A long time ago', rank: 5 };
+};
+
+/** Splits sorted items into labelled groups, keeping the sort order within each group. */
+const groupItems = (items: FilesystemItem[], groupBy: GroupBy): { label: string | null; items: FilesystemItem[] }[] => {
+    if (groupBy === 'none') return [{ label: null, items }];
+    const now = new Date();
+    const groups = new Map<string, { label: string; rank: number; items: FilesystemItem[] }>();
+    items.forEach(item => {
+        const { label, rank } = groupBy === 'type'
+            ? { label: describeItemType(item), rank: item.type === 'folder' ? 0 : 1 }
+            : getDateGroup(item.mtime, now);
+        if (!groups.has(label)) groups.set(label, { label, rank, items: [] });
+        groups.get(label)!.items.push(item);
+    });
+    return [...groups.values()].sort((a, b) => a.rank - b.rank || a.label.localeCompare(b.label));
+};
+
+const getParentPath = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+
+const buildSearchQuery = (folderPath: string, text: string, mode: SearchMode): FileSearchQuery => {
+    if (mode === 'content') return { path: folderPath, content: text };
+    return { path: folderPath, name: text, nameMode: mode === 'regex' ? 'regex' : 'glob' };
+};
+
+const VIEW_MODES: { mode: ViewMode; label: string; icon: React.ReactNode }[] = [
+    { mode: 'details', label: 'Details', icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6h18M3 10h18M3 14h18M3 18h18" /></svg> },
+    { mode: 'list', label: 'List', icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h2M4 12h2M4 18h2M9 6h11M9 12h11M9 18h11" /></svg> },
+    { mode: 'largeIcons', label: 'Large icons', icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4h7v7H4zM13 4h7v7h-7zM4 13h7v7H4zM13 13h7v7h-7z" /></svg> },
+];
+
+const DRIVE_ICON = <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 text-zinc-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 14h16v5H4zM4 14l2.5-9h11l2.5 9M16 16.5h.01" /></svg>;
+
 const SidebarItem: React.FC<{ icon: React.ReactNode; label: string; onClick: () => void; isActive: boolean }> = ({ icon, label, onClick, isActive }) => (
     <button onClick={onClick} className={`w-full flex items-center space-x-3 px-3 py-2 text-sm rounded ${isActive ? 'bg-blue-600/30 text-white' : 'hover:bg-zinc-700/50'}`}>
         {icon}
@@ -22,6 +98,7 @@ const SidebarItem: React.FC<{ icon: React.ReactNode; label: string; onClick: ()
 
 const FileExplorerApp: React.FC<AppComponentProps> = ({ 
     setTitle, 
+    setSessionData,
     openApp,
     initialData,
     clipboard,
@@ -30,30 +107,141 @@ const FileExplorerApp: React.FC<AppComponentProps> = ({
     handlePaste,
 }) => {
     const startPath = initialData?.initialPath || '/';
+    const [viewMode, setViewMode] = useState<ViewMode>(initialData?.viewMode || 'largeIcons');
+    const [sortOrder, setSortOrder] = useState<SortOrder>(initialData?.sortOrder || DEFAULT_SORT_ORDER);
+    const [groupBy, setGroupBy] = useState<GroupBy>(initialData?.groupBy || 'none');
+    const [isPreviewVisible, setIsPreviewVisible] = useState<boolean>(initialData?.isPreviewVisible || false);
+    const [propertiesItem, setPropertiesItem] = useState<FilesystemItem | null>(null);
+    const [openWithItem, setOpenWithItem] = useState<FilesystemItem | null>(null);
+    const [versionHistoryItem, setVersionHistoryItem] = useState<FilesystemItem | null>(null);
     const [currentPath, setCurrentPath] = useState(startPath);
     const [history, setHistory] = useState([startPath]);
     const [historyIndex, setHistoryIndex] = useState(0);
     const [itemsInCurrentPath, setItemsInCurrentPath] = useState<FilesystemItem[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item?: FilesystemItem } | null>(null);
+    // Inside a zip file the listing comes from the archive and nothing can be changed
+    const [isBrowsingArchive, setIsBrowsingArchive] = useState(false);
+    const [mounts, setMounts] = useState<Mount[]>([]);
+    // `targets` are the items a context menu action applies to: the selection, or the clicked item
+    const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item?: FilesystemItem; targets?: FilesystemItem[]; isSearchResult?: boolean } | null>(null);
     const [renamingItemPath, setRenamingItemPath] = useState<string | null>(null);
     const [renameValue, setRenameValue] = useState('');
+    const [searchText, setSearchText] = useState('');
+    const [searchMode, setSearchMode] = useState<SearchMode>('name');
+    // While set, the content area shows search results instead of the folder
+    const [search, setSearch] = useState<FileSearchState | null>(null);
+    const searchAbortControllerRef = useRef<AbortController | null>(null);
+    // An item to select once the folder it is in has loaded ("Open file location"), also passed in as `initialData.revealPath`
+    const revealPathRef = useRef<string | null>(initialData?.revealPath || null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const groups = useMemo(
+        () => groupItems([...itemsInCurrentPath].sort((a, b) => compareItems(a, b, sortOrder)), groupBy),
+        [itemsInCurrentPath, sortOrder, groupBy],
+    );
+    // Display order, so Shift-click ranges follow what's on screen
+    const itemPaths = useMemo(() => groups.flatMap(group => group.items.map(item => item.path)), [groups]);
+    const selection = useItemSelection(itemPaths, contentRef);
+    const journal = useOperationJournal();
+    const fileDrop = useFileDrop(currentPath);
+    const archive = useArchiveOperations();
+    const fileAssociations = useFileAssociations(openApp);
+    const { selectedIds, clearSelection, selectOnly } = selection;
+    const currentMount = FsService.getMountForPath(mounts, currentPath);
+    // The root of the drive being browsed; '/' for the project
+    const mountPath = currentMount?.path || '/';
+    const isReadOnly = isBrowsingArchive || (currentMount?.readOnly ?? false);
+    const selectedItems = useMemo(() => itemsInCurrentPath.filter(item => selectedIds.has(item.path)), [itemsInCurrentPath, selectedIds]);
+    const cutPaths = useMemo(() => new Set(clipboard?.operation === 'cut' ? clipboard.items.map(item => item.path) : []), [clipboard]);
+
+    const selectAndScrollTo = useCallback((path: string) => {
+        selectOnly(path);
+        requestAnimationFrame(() => {
+            contentRef.current?.querySelector(`[${SELECTABLE_ID_ATTRIBUTE}="${CSS.escape(path)}"]`)?.scrollIntoView({ block: 'nearest' });
+        });
+    }, [selectOnly]);
+
+    const cancelSearch = useCallback(() => {
+        searchAbortControllerRef.current?.abort();
+        searchAbortControllerRef.current = null;
+    }, []);
+
+    const closeSearch = useCallback(() => {
+        cancelSearch();
+        setSearch(null);
+    }, [cancelSearch]);
+
+    const startSearch = async () => {
+        const text = searchText.trim();
+        if (!text) {
+            closeSearch();
+            return;
+        }
+        cancelSearch();
+        const abortController = new AbortController();
+        searchAbortControllerRef.current = abortController;
+        setSearch({ results: [], status: 'searching' });
+        try {
+            const summary = await FsService.searchFiles(
+                buildSearchQuery(currentPath, text, searchMode),
+                result => setSearch(prev => prev && { ...prev, results: [...prev.results, result] }),
+                abortController.signal,
+            );
+            setSearch(prev => prev && { ...prev, status: 'done', ...summary });
+        } catch (e) {
+            const isCancelled = e instanceof DOMException && e.name === 'AbortError';
+            // A newer search has replaced this one; leave its state alone
+            if (isCancelled && searchAbortControllerRef.current !== null && searchAbortControllerRef.current !== abortController) return;
+            setSearch(prev => prev && (isCancelled ? { ...prev, status: 'cancelled' } : { ...prev, status: 'error', error: (e as Error).message }));
+        } finally {
+            if (searchAbortControllerRef.current === abortController) searchAbortControllerRef.current = null;
+        }
+    };
 
     const fetchItems = useCallback(async () => {
         setIsLoading(true);
-        const items = await FsService.listDirectory(currentPath);
+        // A folder that is merely named like a zip file isn't an archive; list it normally
+        const archiveItems = FsService.getArchiveLocation(currentPath) ? await FsService.listArchive(currentPath) : null;
+        const items = archiveItems || await FsService.listDirectory(currentPath);
+        setIsBrowsingArchive(archiveItems !== null);
         setItemsInCurrentPath(items);
         setIsLoading(false);
-    }, [currentPath]);
+        const revealPath = revealPathRef.current;
+        revealPathRef.current = null;
+        if (revealPath && items.some(item => item.path === revealPath)) selectAndScrollTo(revealPath);
+    }, [currentPath, selectAndScrollTo]);
 
     useEffect(() => {
         const pathName = currentPath === '/' ? 'Project Root' : currentPath.split('/').pop() || 'Files';
         setTitle(`File Explorer - ${pathName}`);
     }, [currentPath, setTitle]);
+
+    useEffect(() => {
+        setSessionData?.({ initialPath: currentPath, viewMode, sortOrder, groupBy, isPreviewVisible });
+    }, [currentPath, viewMode, sortOrder, groupBy, isPreviewVisible, setSessionData]);
     
     useEffect(() => {
         fetchItems();
-    }, [currentPath, fetchItems, initialData?.refreshId]);
+        clearSelection();
+    }, [currentPath, fetchItems, clearSelection]);
+
+    useEffect(() => {
+        FsService.listMounts().then(setMounts);
+    }, []);
+
+    // Searches are scoped to a folder; leaving it ends the search
+    useEffect(() => {
+        closeSearch();
+        setSearchText('');
+    }, [currentPath, closeSearch]);
+
+    useEffect(() => cancelSearch, [cancelSearch]);
+
+    // Keep the listing in sync with changes made anywhere (other windows, Terminus, other clients)
+    useEffect(() => FsService.subscribeToChanges(
+        currentPath,
+        changes => setItemsInCurrentPath(prev => FsService.applyChanges(prev, changes, currentPath)),
+        fetchItems,
+    ), [currentPath, fetchItems]);
 
     useEffect(() => {
         const handleClickOutside = () => setContextMenu(null);
@@ -80,92 +268,296 @@ const FileExplorerApp: React.FC<AppComponentProps> = ({
     };
 
     const goUp = () => {
-        if (currentPath !== '/') {
+        if (currentPath !== mountPath) {
             const parentPath = currentPath.substring(0, currentPath.lastIndexOf('/')) || '/';
             navigateTo(parentPath);
         }
     };
     
+    // Files inside a zip open as unsaved copies, so the archive itself is never written to
+    const openArchiveEntry = useCallback(async (item: FilesystemItem) => {
+        if (FsService.isArchiveFile(item.name)) {
+            alert(`"${item.name}" is inside another zip file. Extract it first to open it.`);
+            return;
+        }
+        const file = await FsService.readArchiveEntry(item.path);
+        if (file) openApp?.('notebook', { content: file.content, fileName: file.name });
+        else alert(`Could not open "${item.name}". It may be too large or the archive may be damaged.`);
+    }, [openApp]);
+
     const openItem = useCallback((item: FilesystemItem) => {
         if (renamingItemPath === item.path) return;
+        const shortcutAppId = getShortcutAppId(item);
         if (item.type === 'folder') {
             navigateTo(item.path);
-        } else if (item.name.endsWith('.app') && item.content) {
-            try {
-                const appInfo = JSON.parse(item.content);
-                openApp?.(appInfo.appId);
-            } catch (e) { console.error("Could not parse app shortcut", e); }
-        } else if (item.type === 'file') {
-            openApp?.('notebook', { file: { path: item.path, name: item.name } });
+        } else if (isBrowsingArchive) {
+            openArchiveEntry(item);
+        } else if (shortcutAppId) {
+            openApp?.(shortcutAppId);
+        } else if (getDefaultApp(item, fileAssociations.defaultApps).id === appDefinition.id) {
+            // Files this app opens itself, like zip files, are shown in this window
+            navigateTo(item.path);
+        } else {
+            fileAssociations.openFile(item);
         }
-    }, [navigateTo, openApp, renamingItemPath]);
+    }, [navigateTo, openApp, renamingItemPath, isBrowsingArchive, openArchiveEntry, fileAssociations.defaultApps, fileAssociations.openFile]);
     
+    /** Shows the folder an item is in, with the item selected. */
+    const revealItem = (item: FilesystemItem) => {
+        const folderPath = getParentPath(item.path);
+        if (folderPath === currentPath) {
+            closeSearch();
+            selectAndScrollTo(item.path);
+            return;
+        }
+        revealPathRef.current = item.path;
+        navigateTo(folderPath);
+    };
+
+    const handleSearchResultContextMenu = (e: React.MouseEvent, item: FilesystemItem) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setContextMenu({ x: e.clientX, y: e.clientY, item, isSearchResult: true });
+    };
+
     const handleItemContextMenu = (e: React.MouseEvent, item: FilesystemItem) => {
         e.preventDefault();
         e.stopPropagation();
-        setContextMenu({ x: e.clientX, y: e.clientY, item });
+        // Right-clicking outside the selection acts on that item alone, like Explorer
+        const isInSelection = selectedIds.has(item.path);
+        if (!isInSelection) selection.selectOnly(item.path);
+        setContextMenu({ x: e.clientX, y: e.clientY, item, targets: isInSelection ? selectedItems : [item] });
+    };
+
+    const deleteItems = useCallback(async (items: FilesystemItem[], permanent: boolean = false) => {
+        if (items.length === 0) return;
+        const subject = items.length > 1 ? `these ${items.length} items` : `"${items[0].name}"`;
+        if (permanent ? !window.confirm(`Permanently delete ${subject}? This cannot be undone.`)
+            : items.length > 1 && !window.confirm(`Move ${subject} to the Recycle Bin?`)) return;
+        const results = await Journal.deleteItems(items, permanent);
+        const failureMessage = FsService.describeBatchFailures(results, 'delete');
+        if (failureMessage) alert(failureMessage);
+    }, []);
+
+    const startRename = (item: FilesystemItem) => {
+        setRenamingItemPath(item.path);
+        setRenameValue(item.name);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if ((e.target as HTMLElement).tagName === 'INPUT') return;
+        const isCtrl = e.ctrlKey || e.metaKey;
+        const key = e.key.toLowerCase();
+        // Archives and read-only drives can't be changed, and archive entries have no real path to copy from
+        if (isReadOnly && ((isCtrl && ['x', 'v'].includes(key)) || e.key === 'Delete' || e.key === 'F2')) return;
+        if (isBrowsingArchive && isCtrl && key === 'c') return;
+        if (isCtrl && key === 'z' && !e.shiftKey) {
+            journal.undo();
+        } else if (isCtrl && (key === 'y' || key === 'z')) {
+            journal.redo();
+        } else if (e.altKey && key === 'p') {
+            setIsPreviewVisible(prev => !prev);
+        } else if (isCtrl && key === 'a') {
+            selection.selectAll();
+        } else if (isCtrl && key === 'c' && selectedItems.length > 0) {
+            handleCopy?.(selectedItems);
+        } else if (isCtrl && key === 'x' && selectedItems.length > 0) {
+            handleCut?.(selectedItems);
+        } else if (isCtrl && key === 'v' && clipboard) {
+            handlePaste?.(currentPath);
+        } else if (e.key === 'Delete') {
+            deleteItems(selectedItems, e.shiftKey);
+        } else if (e.key === 'F2' && selectedItems.length === 1) {
+            startRename(selectedItems[0]);
+        } else if (e.key === 'Enter' && selectedItems.length === 1) {
+            openItem(selectedItems[0]);
+        } else if (e.key === 'Escape' && search) {
+            closeSearch();
+        } else {
+            return;
+        }
+        e.preventDefault();
+    };
+
+    const handleContentMouseDown = (e: React.MouseEvent) => {
+        if (search || (e.target as HTMLElement).closest(`[${SELECTABLE_ID_ATTRIBUTE}]`)) return;
+        if (renamingItemPath) handleRename();
+        selection.startRubberBand(e);
     };
 
     const handleBackgroundContextMenu = (e: React.MouseEvent) => {
         e.preventDefault();
-        if ((e.target as HTMLElement).closest('button')) return;
+        if (search || (e.target as HTMLElement).closest('button')) return;
         setContextMenu({ x: e.clientX, y: e.clientY });
     }
     
+    // Clicking the column that is already sorted on flips the direction
+    const sortBy = (key: SortKey) => {
+        setSortOrder(prev => prev.key === key
+            ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+            : { key, direction: key === 'mtime' || key === 'size' ? 'desc' : 'asc' });
+    };
+
     const handleRename = async () => {
         const item = itemsInCurrentPath.find(i => i.path === renamingItemPath);
         if (item && renameValue && item.name !== renameValue) {
-            await FsService.renameItem(item, renameValue);
-            fetchItems();
+            if (!await Journal.renameItem(item, renameValue)) {
+                alert(`Could not rename "${item.name}". An item named "${renameValue}" may already exist.`);
+            }
         }
         setRenamingItemPath(null);
     };
 
+    const extractCurrentArchive = () => {
+        const location = FsService.getArchiveLocation(currentPath);
+        if (location) archive.extract(location.archivePath);
+    };
+
     const contextMenuItems = useMemo<ContextMenuItem[]>(() => {
         if (!contextMenu) return [];
-        const { item } = contextMenu;
+        const { item, targets = [], isSearchResult } = contextMenu;
 
-        if (item && handleCopy && handleCut) {
+        if (item && isSearchResult) {
+            return [
+                { type: 'item', label: 'Open', onClick: () => openItem(item) },
+                { type: 'item', label: 'Open file location', onClick: () => revealItem(item) },
+                ...(item.type === 'file' ? [
+                    { type: 'item', label: 'Open in Notebook', onClick: () => openApp?.('notebook', { file: { path: item.path, name: item.name } }) } as ContextMenuItem,
+                ] : []),
+                { type: 'separator' },
+                { type: 'item', label: 'Properties', onClick: () => setPropertiesItem(item) },
+            ];
+        } else if (item && isBrowsingArchive) {
+            const location = FsService.getArchiveLocation(item.path);
             return [
                 { type: 'item', label: 'Open', onClick: () => openItem(item) },
                 { type: 'separator' },
-                { type: 'item', label: 'Cut', onClick: () => handleCut(item) },
-                { type: 'item', label: 'Copy', onClick: () => handleCopy(item) },
+                {
+                    type: 'item',
+                    label: 'Extract to...',
+                    onClick: () => location && archive.extractTo(location.archivePath, {
+                        entries: targets.map(target => FsService.getArchiveLocation(target.path)?.innerPath || ''),
+                    }),
+                    disabled: archive.operation !== null,
+                },
                 { type: 'separator' },
-                { type: 'item', label: 'Delete', onClick: async () => { await FsService.deleteItem(item); fetchItems(); } },
-                { type: 'item', label: 'Rename', onClick: () => {
-                    setRenamingItemPath(item.path);
-                    setRenameValue(item.name);
-                }},
+                { type: 'item', label: 'Properties', onClick: () => setPropertiesItem(item), disabled: targets.length > 1 },
+            ];
+        } else if (item && handleCopy && handleCut) {
+            const isMultiple = targets.length > 1;
+            return [
+                { type: 'item', label: 'Open', onClick: () => openItem(item) },
+                ...(!isMultiple && item.type === 'file' && !getShortcutAppId(item) ? [
+                    fileAssociations.openWithMenu(item, () => setOpenWithItem(item)),
+                ] : []),
+                ...(!isMultiple && item.type === 'file' && isAttachableFile(item.name) ? [
+                    { type: 'item', label: 'Ask Gemini about this file', onClick: () => openApp?.('geminiChat', { attachFilePath: item.path }) } as ContextMenuItem,
+                ] : []),
+                { type: 'separator' },
+                ...(isReadOnly ? [] : archive.menuItems(targets)),
+                { type: 'item', label: 'Cut', onClick: () => handleCut(targets), disabled: isReadOnly },
+                { type: 'item', label: 'Copy', onClick: () => handleCopy(targets) },
+                { type: 'separator' },
+                { type: 'item', label: isMultiple ? `Delete ${targets.length} items` : 'Delete', onClick: () => deleteItems(targets), disabled: isReadOnly },
+                { type: 'item', label: 'Rename', onClick: () => startRename(item), disabled: isMultiple || isReadOnly },
+                { type: 'separator' },
+                ...(item.type === 'file' ? [
+                    { type: 'item', label: 'Version history', onClick: () => setVersionHistoryItem(item), disabled: isMultiple } as ContextMenuItem,
+                ] : []),
+                { type: 'item', label: 'Properties', onClick: () => setPropertiesItem(item), disabled: isMultiple },
+            ];
+        } else if (isBrowsingArchive) {
+            return [
+                { type: 'item', label: 'Extract all', onClick: extractCurrentArchive, disabled: archive.operation !== null },
+                { type: 'item', label: 'Refresh', onClick: fetchItems },
             ];
         } else if (handlePaste) {
             const createNewFolder = async () => {
                 const name = await FsService.findUniqueName(currentPath, "New folder", true);
                 await FsService.createFolder(currentPath, name);
-                fetchItems();
             }
              const createNewFile = async () => {
                 const name = await FsService.findUniqueName(currentPath, "New Text Document", false, ".txt");
                 await FsService.createFile(currentPath, name, "");
-                fetchItems();
             }
             return [
-                { type: 'item', label: 'New Folder', onClick: createNewFolder },
-                { type: 'item', label: 'New Text File', onClick: createNewFile },
+                ...journal.menuItems,
+                { type: 'item', label: 'New Folder', onClick: createNewFolder, disabled: isReadOnly },
+                { type: 'item', label: 'New Text File', onClick: createNewFile, disabled: isReadOnly },
                 { type: 'separator' },
-                { type: 'item', label: 'Paste', onClick: () => handlePaste(currentPath), disabled: !clipboard },
+                { type: 'item', label: 'Paste', onClick: () => handlePaste(currentPath), disabled: !clipboard || isReadOnly },
                 { type: 'item', label: 'Refresh', onClick: fetchItems },
             ];
         }
         return [];
-    }, [contextMenu, openItem, handleCopy, handleCut, handlePaste, clipboard, currentPath, fetchItems]);
+    }, [contextMenu, openItem, openApp, handleCopy, handleCut, handlePaste, clipboard, currentPath, fetchItems, deleteItems, journal.menuItems, isBrowsingArchive, isReadOnly, archive.menuItems, archive.extractTo, archive.operation, fileAssociations.openWithMenu]);
+
+
+    const renderName = (item: FilesystemItem, className: string) => renamingItemPath === item.path ? (
+        <input
+            type="text"
+            value={renameValue}
+            onChange={e => setRenameValue(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={e => e.key === 'Enter' && handleRename()}
+            className={`text-xs text-black bg-white border border-blue-500 ${className}`}
+            autoFocus
+            onFocus={e => e.target.select()}
+            onClick={e => e.stopPropagation()}
+        />
+    ) : (
+        <span className={`text-xs truncate ${className}`}>{item.name}</span>
+    );
 
+    const renderItem = (item: FilesystemItem) => {
+        const stateClasses = `${selectedIds.has(item.path) ? 'bg-blue-500/30' : 'hover:bg-white/10'} ${cutPaths.has(item.path) ? 'opacity-50' : ''}`;
+        const layoutClasses = viewMode === 'largeIcons'
+            ? 'flex flex-col items-center p-2 text-center aspect-square'
+            : viewMode === 'list'
+                ? 'flex items-center space-x-2 px-2 py-1 text-left'
+                : `grid ${DETAILS_COLUMNS} gap-2 items-center px-2 py-1 text-left text-xs`;
+        return (
+            <button
+                key={item.path}
+                {...{ [SELECTABLE_ID_ATTRIBUTE]: item.path }}
+                onClick={(e) => selection.selectWithModifiers(item.path, e)}
+                onDoubleClick={() => openItem(item)}
+                onContextMenu={(e) => handleItemContextMenu(e, item)}
+                className={`rounded transition-colors relative focus:outline-none ${layoutClasses} ${stateClasses}`}
+                title={viewMode === 'largeIcons' ? undefined : item.symlinkTarget ? `${item.name} \u2192 ${item.symlinkTarget}` : item.name}
+            >
+                {viewMode === 'largeIcons' ? (
+                    <>
+                        {fileAssociations.getIcon(item, 'w-12 h-12 flex-shrink-0')}
+                        {renderName(item, 'w-full mt-1.5 text-center break-words')}
+                    </>
+                ) : viewMode === 'list' ? (
+                    <>
+                        {fileAssociations.getIcon(item, 'w-5 h-5 flex-shrink-0')}
+                        {renderName(item, 'flex-grow min-w-0')}
+                    </>
+                ) : (
+                    <>
+                        <span className="flex items-center space-x-2 min-w-0">
+                            {fileAssociations.getIcon(item, 'w-5 h-5 flex-shrink-0')}
+                            {renderName(item, 'flex-grow min-w-0')}
+                        </span>
+                        <span className="text-zinc-400 truncate">{formatDate(item.mtime)}</span>
+                        <span className="text-zinc-400 truncate">{describeItemType(item)}</span>
+                        <span className="text-zinc-400 text-right">{item.type === 'file' && item.size !== undefined ? formatSize(item.size) : ''}</span>
+                    </>
+                )}
+            </button>
+        );
+    };
 
-    const breadcrumbs = ['Project Root', ...currentPath.split('/').filter(p => p)];
+    // Paths on other drives start at the drive rather than at the project
+    const breadcrumbs = [mountPath === '/' ? 'Project Root' : currentMount!.label, ...currentPath.substring(mountPath.length).split('/').filter(p => p)];
     const handleBreadcrumbClick = (index: number) => {
-        const newPath = index === 0 ? '/' : '/' + breadcrumbs.slice(1, index + 1).join('/');
+        const newPath = index === 0 ? mountPath : `${mountPath === '/' ? '' : mountPath}/${breadcrumbs.slice(1, index + 1).join('/')}`;
         navigateTo(newPath);
     };
+    const drives = mounts.filter(mount => mount.path !== '/');
 
     const quickAccessItems = [
         { path: '/', label: 'Project Root', icon: <FileExplorerIcon isSmall className="w-5 h-5 text-blue-400"/> },
@@ -175,7 +567,7 @@ const FileExplorerApp: React.FC<AppComponentProps> = ({
     ];
     
     return (
-        <div className="flex h-full bg-black text-zinc-200 select-none" onClick={() => setContextMenu(null)}>
+        <div className="flex h-full bg-black text-zinc-200 select-none outline-none relative" onClick={() => setContextMenu(null)} onKeyDown={handleKeyDown} tabIndex={-1}>
             {/* Sidebar */}
             <aside className="w-56 flex-shrink-0 bg-zinc-900/50 p-2 flex flex-col border-r border-zinc-800">
                 <h3 className="px-2 pb-2 text-xs font-semibold text-zinc-400">Quick access</h3>
@@ -190,14 +582,38 @@ const FileExplorerApp: React.FC<AppComponentProps> = ({
                         />
                     ))}
                 </div>
+                {drives.length > 0 && (
+                    <>
+                        <h3 className="px-2 pt-4 pb-2 text-xs font-semibold text-zinc-400">Drives</h3>
+                        <div className="space-y-1">
+                            {drives.map(drive => (
+                                <SidebarItem
+                                    key={drive.path}
+                                    icon={DRIVE_ICON}
+                                    label={drive.readOnly ? `${drive.label} (read-only)` : drive.label}
+                                    onClick={() => navigateTo(drive.path)}
+                                    isActive={currentPath === drive.path}
+                                />
+                            ))}
+                        </div>
+                    </>
+                )}
+                <div className="mt-auto pt-2 border-t border-zinc-800">
+                    <SidebarItem
+                        icon={<RecycleBinIcon className="w-5 h-5 text-zinc-300" />}
+                        label="Recycle Bin"
+                        onClick={() => openApp?.('recycleBin')}
+                        isActive={false}
+                    />
+                </div>
             </aside>
 
-            <main className="flex-grow flex flex-col">
+            <main className="flex-grow flex flex-col min-w-0">
                 <div className="flex-shrink-0 flex items-center space-x-2 p-2 border-b border-zinc-800 bg-black/50">
                     <button onClick={goBack} disabled={historyIndex === 0} className="p-1.5 rounded hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed" title="Back">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
                     </button>
-                     <button onClick={goUp} disabled={currentPath === '/'} className="p-1.5 rounded hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed" title="Up">
+                     <button onClick={goUp} disabled={currentPath === mountPath} className="p-1.5 rounded hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed" title="Up">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" /></svg>
                     </button>
                     <div className="flex items-center bg-zinc-900 rounded p-1 text-sm flex-grow">
@@ -210,43 +626,139 @@ const FileExplorerApp: React.FC<AppComponentProps> = ({
                             </React.Fragment>
                         ))}
                     </div>
+                    <div className="flex items-center bg-zinc-900 rounded p-0.5">
+                        {VIEW_MODES.map(({ mode, label, icon }) => (
+                            <button key={mode} onClick={() => setViewMode(mode)} title={label} className={`p-1 rounded ${viewMode === mode ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}>
+                                {icon}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => setIsPreviewVisible(prev => !prev)}
+                        title="Preview pane (Alt+P)"
+                        className={`p-1.5 rounded ${isPreviewVisible ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h16v14H4zM14 5v14" /></svg>
+                    </button>
+                    <select
+                        value={`${sortOrder.key}:${sortOrder.direction}`}
+                        onChange={e => {
+                            const [key, direction] = e.target.value.split(':');
+                            setSortOrder({ key: key as SortKey, direction: direction as SortOrder['direction'] });
+                        }}
+                        className="bg-zinc-900 rounded px-1 py-1 text-xs outline-none"
+                        title="Sort by"
+                    >
+                        <option value="name:asc">Name (A-Z)</option>
+                        <option value="name:desc">Name (Z-A)</option>
+                        <option value="mtime:desc">Newest first</option>
+                        <option value="mtime:asc">Oldest first</option>
+                        <option value="type:asc">Type</option>
+                        <option value="size:desc">Largest first</option>
+                        <option value="size:asc">Smallest first</option>
+                    </select>
+                    <select value={groupBy} onChange={e => setGroupBy(e.target.value as GroupBy)} className="bg-zinc-900 rounded px-1 py-1 text-xs outline-none" title="Group by">
+                        <option value="none">No grouping</option>
+                        <option value="type">Group by type</option>
+                        <option value="mtime">Group by date</option>
+                    </select>
+                    <div className="flex items-center bg-zinc-900 rounded text-xs">
+                        <select value={searchMode} onChange={e => setSearchMode(e.target.value as SearchMode)} className="bg-transparent px-1 py-1 outline-none text-zinc-400" title="Search by">
+                            <option value="name">Name</option>
+                            <option value="regex">Name (regex)</option>
+                            <option value="content">Contents</option>
+                        </select>
+                        <input
+                            type="search"
+                            value={searchText}
+                            onChange={e => setSearchText(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter') startSearch();
+                                else if (e.key === 'Escape') {
+                                    setSearchText('');
+                                    closeSearch();
+                                }
+                            }}
+                            placeholder={isBrowsingArchive ? 'Search is unavailable in zip files' : `Search ${breadcrumbs[breadcrumbs.length - 1]}`}
+                            disabled={isBrowsingArchive}
+                            className="w-40 bg-transparent px-2 py-1 outline-none placeholder-zinc-500"
+                        />
+                        {search?.status === 'searching' && (
+                            <button onClick={cancelSearch} className="px-2 py-1 text-zinc-400 hover:text-white" title="Stop searching">Stop</button>
+                        )}
+                    </div>
                 </div>
-                <div className="flex-grow p-4 overflow-y-auto custom-scrollbar relative" onContextMenu={handleBackgroundContextMenu}>
-                    {isLoading ? (
+                {currentMount?.readOnly && !isBrowsingArchive && (
+                    <div className="flex-shrink-0 px-3 py-1.5 text-xs bg-zinc-900 border-b border-zinc-800 text-zinc-300">
+                        This drive is read-only. You can open and copy its files, but not change them.
+                    </div>
+                )}
+                {isBrowsingArchive && (
+                    <div className="flex-shrink-0 flex items-center justify-between px-3 py-1.5 text-xs bg-zinc-900 border-b border-zinc-800 text-zinc-300">
+                        <span>This is a zip file. Its contents are read-only; extract them to make changes.</span>
+                        <button onClick={extractCurrentArchive} disabled={archive.operation !== null} className="px-2 py-0.5 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50">Extract all</button>
+                    </div>
+                )}
+                <div
+                    ref={contentRef}
+                    className={`flex-grow p-4 overflow-y-auto custom-scrollbar relative ${fileDrop.isDraggingOver ? 'bg-blue-500/10 ring-2 ring-inset ring-blue-500' : ''}`}
+                    onContextMenu={handleBackgroundContextMenu}
+                    onMouseDown={handleContentMouseDown}
+                    {...(isReadOnly ? {} : fileDrop.dropHandlers)}
+                >
+                    {search ? (
+                        <FileSearchResults search={search} onOpen={openItem} onContextMenu={handleSearchResultContextMenu} />
+                    ) : isLoading ? (
                       <div className="absolute inset-0 flex items-center justify-center text-zinc-400">Loading...</div>
                     ) : itemsInCurrentPath.length > 0 ? (
-                        <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10 gap-4">
-                            {itemsInCurrentPath.map(item => (
-                                <button 
-                                    key={item.path} 
-                                    onDoubleClick={() => openItem(item)} 
-                                    onContextMenu={(e) => handleItemContextMenu(e, item)}
-                                    className="flex flex-col items-center p-2 rounded hover:bg-white/10 transition-colors text-center aspect-square relative focus:outline-none focus:bg-blue-500/30"
-                                >
-                                    {item.type === 'folder' ? <FolderIcon className="w-12 h-12 text-amber-400" /> : getFileIcon(item.name)}
-                                    {renamingItemPath === item.path ? (
-                                        <input 
-                                            type="text"
-                                            value={renameValue}
-                                            onChange={e => setRenameValue(e.target.value)}
-                                            onBlur={handleRename}
-                                            onKeyDown={e => e.key === 'Enter' && handleRename()}
-                                            className="text-xs text-center text-black bg-white w-full border border-blue-500 mt-1.5"
-                                            autoFocus
-                                            onFocus={e => e.target.select()}
-                                            onClick={e => e.stopPropagation()}
-                                        />
-                                    ) : (
-                                        <span className="text-xs mt-1.5 break-words w-full truncate">{item.name}</span>
+                        <>
+                            {viewMode === 'details' && (
+                                <div className={`sticky -top-4 z-10 -mt-4 mb-1 grid ${DETAILS_COLUMNS} gap-2 px-2 py-1.5 text-xs text-zinc-400 bg-black border-b border-zinc-800`}>
+                                    {([['name', 'Name'], ['mtime', 'Date modified'], ['type', 'Type'], ['size', 'Size']] as [SortKey, string][]).map(([key, label]) => (
+                                        <button
+                                            key={key}
+                                            onClick={() => sortBy(key)}
+                                            onMouseDown={e => e.stopPropagation()}
+                                            className={`hover:text-zinc-100 ${key === 'size' ? 'text-right' : 'text-left'} ${sortOrder.key === key ? 'text-zinc-100' : ''}`}
+                                        >
+                                            {label}{sortOrder.key === key && (sortOrder.direction === 'asc' ? ' \u25B2' : ' \u25BC')}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {groups.map(group => (
+                                <section key={group.label ?? ''} className="mb-3">
+                                    {group.label !== null && (
+                                        <h4 className="text-xs font-semibold text-zinc-400 px-2 pb-1 mb-1 border-b border-zinc-800">{group.label} ({group.items.length})</h4>
                                     )}
-                                </button>
+                                    <div className={viewMode === 'largeIcons' ? 'grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10 gap-4'
+                                        : viewMode === 'list' ? 'grid grid-cols-[repeat(auto-fill,minmax(14rem,1fr))] gap-x-4'
+                                        : 'flex flex-col'}>
+                                        {group.items.map(item => renderItem(item))}
+                                    </div>
+                                </section>
                             ))}
-                        </div>
+                        </>
                     ) : (
                         <div className="text-center text-zinc-400 mt-10">This folder is empty.</div>
                     )}
+                    {selection.rubberBandRect && (
+                        <div className="absolute border border-blue-400 bg-blue-500/20 pointer-events-none" style={selection.rubberBandRect} />
+                    )}
+                    {fileDrop.progress && (
+                        <UploadProgressBar progress={fileDrop.progress} className="sticky bottom-0 ml-auto" />
+                    )}
+                    {archive.operation && (
+                        <ArchiveProgressBar operation={archive.operation} onCancel={archive.cancel} className="sticky bottom-0 ml-auto mt-2" />
+                    )}
                 </div>
             </main>
+
+            {isPreviewVisible && (
+                <aside className="w-72 flex-shrink-0 border-l border-zinc-800 bg-zinc-900/50">
+                    <FilePreviewPane items={search ? [] : selectedItems} isInArchive={isBrowsingArchive} />
+                </aside>
+            )}
             
             {contextMenu && (
                 <ContextMenu
@@ -256,6 +768,21 @@ const FileExplorerApp: React.FC<AppComponentProps> = ({
                     onClose={() => setContextMenu(null)}
                 />
             )}
+
+            {propertiesItem && <FilePropertiesDialog item={propertiesItem} onClose={() => setPropertiesItem(null)} />}
+
+            {versionHistoryItem && (
+                <VersionHistoryDialog
+                    path={versionHistoryItem.path}
+                    name={versionHistoryItem.name}
+                    isReadOnly={isReadOnly}
+                    onClose={() => setVersionHistoryItem(null)}
+                />
+            )}
+
+            {openWithItem && openApp && (
+                <OpenWithDialog item={openWithItem} onOpen={app => openFileWith(openWithItem, app, openApp)} onClose={() => setOpenWithItem(null)} />
+            )}
         </div>
     );
 };
@@ -267,6 +794,9 @@ export const appDefinition: AppDefinition = {
     component: FileExplorerApp,
     defaultSize: { width: 800, height: 600 },
     isPinnedToTaskbar: true,
+    // Zip files are browsed like folders
+    fileTypes: { extensions: ['zip'], mimeTypes: ['application/zip'] },
+    getFileInitialData: file => ({ initialPath: file.path }),
 };
 
 export default FileExplorerApp;
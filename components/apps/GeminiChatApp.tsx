@@ -1,92 +1,625 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { ChatMessage, AppComponentProps, AppDefinition } from '../../types';
-import { generateGeminiResponse } from '../../services/geminiService';
-import { SearchIcon } from '../../constants';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { ChatMessage, ChatAttachment, ChatToolCall, AppComponentProps, AppDefinition, FilesystemItem } from '../../types';
+import {
+  createChatSession, createAgentToolset, ChatSession, FunctionCall, GEMINI_MODELS, DEFAULT_MODEL, messagesToHistory,
+} from '../../services/geminiService';
+import * as ChatStorage from '../../services/chatStorageService';
+import * as FsService from '../../services/filesystemService';
+import { loadAttachment, isAttachableFile } from '../../services/chatAttachmentService';
+import { SearchIcon, SettingsIcon, RefreshIcon, NotebookIcon, FolderIcon, FileGenericIcon } from '../../constants';
+import MarkdownRenderer, { getExtensionForLanguage } from '../MarkdownRenderer';
+import { APP_DEFINITIONS } from '.';
 
-const GeminiChatApp: React.FC<AppComponentProps> = ({ appInstanceId, setTitle }) => {
+const MAX_TITLE_LENGTH = 40;
+
+const ChatSidebar: React.FC<{
+  chats: ChatStorage.SavedChatSummary[];
+  activePath: string | null;
+  onOpen: (path: string) => void;
+  onNew: () => void;
+  onRename: (path: string, newTitle: string) => void;
+  onDelete: (path: string) => void;
+}> = ({ chats, activePath, onOpen, onNew, onRename, onDelete }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [renamingPath, setRenamingPath] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const filteredChats = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return query ? chats.filter(chat => chat.searchText.includes(query)) : chats;
+  }, [chats, searchQuery]);
+
+  const commitRename = () => {
+    if (renamingPath && renameValue.trim()) onRename(renamingPath, renameValue.trim());
+    setRenamingPath(null);
+  };
+
+  return (
+    <aside className="w-52 flex-shrink-0 flex flex-col bg-zinc-900/50 border-r border-zinc-800 p-2">
+      <button
+        onClick={onNew}
+        className="w-full mb-2 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium py-1.5 rounded-md transition-colors"
+      >
+        + New chat
+      </button>
+      <input
+        type="text"
+        value={searchQuery}
+        onChange={e => setSearchQuery(e.target.value)}
+        placeholder="Search chats..."
+        className="w-full mb-2 bg-zinc-900 border border-zinc-700 rounded-md py-1 px-2 text-xs outline-none focus:border-blue-500 placeholder-zinc-500"
+      />
+      <div className="flex-grow overflow-y-auto custom-scrollbar space-y-0.5">
+        {filteredChats.map(chat => (
+          <div
+            key={chat.path}
+            className={`group flex items-center rounded px-2 py-1.5 text-xs cursor-pointer ${chat.path === activePath ? 'bg-blue-600/30 text-white' : 'hover:bg-zinc-700/50 text-zinc-300'}`}
+            onClick={() => renamingPath !== chat.path && onOpen(chat.path)}
+            title={chat.title}
+          >
+            {renamingPath === chat.path ? (
+              <input
+                type="text"
+                value={renameValue}
+                onChange={e => setRenameValue(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => e.key === 'Enter' && commitRename()}
+                className="w-full text-black bg-white border border-blue-500 px-1"
+                autoFocus
+                onFocus={e => e.target.select()}
+                onClick={e => e.stopPropagation()}
+              />
+            ) : (
+              <>
+                <span className="flex-grow truncate">{chat.title}</span>
+                <button
+                  onClick={e => { e.stopPropagation(); setRenamingPath(chat.path); setRenameValue(chat.title); }}
+                  className="hidden group-hover:block ml-1 text-zinc-400 hover:text-white"
+                  title="Rename"
+                >
+                  <NotebookIcon className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={e => { e.stopPropagation(); onDelete(chat.path); }}
+                  className="hidden group-hover:block ml-1 text-zinc-400 hover:text-red-400"
+                  title="Delete"
+                >
+                  &times;
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+        {filteredChats.length === 0 && (
+          <p className="text-xs text-zinc-500 text-center mt-4">{searchQuery ? 'No matching chats.' : 'No saved chats yet.'}</p>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+const PaperclipIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+  </svg>
+);
+
+const AttachmentChip: React.FC<{ attachment: ChatAttachment; onRemove?: () => void }> = ({ attachment, onRemove }) => (
+  <div className="flex items-center max-w-[12rem] bg-zinc-800 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200" title={attachment.path}>
+    {attachment.kind === 'image' ? (
+      <img src={`data:${attachment.mimeType};base64,${attachment.data}`} alt="" className="w-5 h-5 object-cover rounded-sm mr-1.5 flex-shrink-0" />
+    ) : (
+      <FileGenericIcon isSmall className="w-4 h-4 mr-1.5 flex-shrink-0" />
+    )}
+    <span className="truncate">{attachment.name}</span>
+    {onRemove && (
+      <button onClick={onRemove} className="ml-1.5 text-zinc-400 hover:text-white" title="Remove">&times;</button>
+    )}
+  </div>
+);
+
+// Browses the virtual filesystem to pick a file to attach
+const AttachmentPicker: React.FC<{
+  onPick: (path: string) => void;
+  onClose: () => void;
+}> = ({ onPick, onClose }) => {
+  const [currentPath, setCurrentPath] = useState('/');
+  const [items, setItems] = useState<FilesystemItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    FsService.listDirectory(currentPath).then(result => {
+      if (!isCurrent) return;
+      setItems([...result].sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1));
+      setIsLoading(false);
+    });
+    return () => { isCurrent = false; };
+  }, [currentPath]);
+
+  const parentPath = currentPath.substring(0, currentPath.lastIndexOf('/')) || '/';
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-80 max-h-80 flex flex-col bg-zinc-900 border border-zinc-700 rounded-md shadow-xl z-10">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-zinc-800 text-xs">
+        <span className="truncate text-zinc-300" title={currentPath}>{currentPath}</span>
+        <button onClick={onClose} className="ml-2 text-zinc-400 hover:text-white">&times;</button>
+      </div>
+      <div className="flex-grow overflow-y-auto custom-scrollbar p-1 text-xs">
+        {currentPath !== '/' && (
+          <button onClick={() => setCurrentPath(parentPath)} className="w-full text-left px-2 py-1 rounded hover:bg-zinc-700/50 text-zinc-400">..</button>
+        )}
+        {isLoading ? (
+          <p className="text-zinc-500 text-center my-3">Loading...</p>
+        ) : items.map(item => {
+          const isDisabled = item.type === 'file' && !isAttachableFile(item.name);
+          return (
+            <button
+              key={item.path}
+              onClick={() => item.type === 'folder' ? setCurrentPath(item.path) : onPick(item.path)}
+              disabled={isDisabled}
+              className="w-full flex items-center text-left px-2 py-1 rounded hover:bg-zinc-700/50 disabled:opacity-40 disabled:hover:bg-transparent text-zinc-200"
+            >
+              {item.type === 'folder'
+                ? <FolderIcon isSmall className="w-4 h-4 mr-2 text-amber-400 flex-shrink-0" />
+                : <FileGenericIcon isSmall className="w-4 h-4 mr-2 flex-shrink-0" />}
+              <span className="truncate">{item.name}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const TOOL_STATUS_LABELS: Record<ChatToolCall['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting for approval', className: 'text-amber-400' },
+  running: { label: 'Running', className: 'text-blue-400' },
+  done: { label: 'Done', className: 'text-green-400' },
+  denied: { label: 'Denied', className: 'text-zinc-500' },
+  error: { label: 'Failed', className: 'text-red-400' },
+};
+
+const ToolCallTrail: React.FC<{ toolCalls: ChatToolCall[] }> = ({ toolCalls }) => (
+  <div className="mb-2 space-y-0.5 border-l-2 border-zinc-700 pl-2 text-xs">
+    {toolCalls.map(toolCall => {
+      const status = TOOL_STATUS_LABELS[toolCall.status];
+      return (
+        <div key={toolCall.id} className="flex items-baseline" title={toolCall.name}>
+          <span className="font-mono text-zinc-400 truncate">{toolCall.description}</span>
+          <span className={`ml-2 flex-shrink-0 ${status.className}`}>
+            {status.label}{toolCall.result ? `: ${toolCall.result}` : ''}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+interface PendingConfirmation {
+  description: string;
+  call: FunctionCall;
+  resolve: (isAllowed: boolean) => void;
+}
+
+const ToolConfirmationDialog: React.FC<{ confirmation: PendingConfirmation }> = ({ confirmation }) => {
+  const { call, description, resolve } = confirmation;
+  const details = call.name === 'save_file' ? call.args.content : call.name === 'run_terminal_command' ? call.args.command : null;
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60">
+      <div className="w-96 max-w-[90%] bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-4">
+        <h3 className="text-sm font-semibold mb-1">Allow Gemini to do this?</h3>
+        <p className="text-xs text-zinc-300 mb-2 break-words">{description}</p>
+        {typeof details === 'string' && (
+          <pre className="max-h-48 overflow-auto custom-scrollbar bg-black/60 rounded p-2 text-xs text-zinc-300 whitespace-pre-wrap break-words mb-2">{details}</pre>
+        )}
+        <div className="flex justify-end space-x-2 mt-3">
+          <button onClick={() => resolve(false)} className="px-3 py-1 text-xs rounded bg-zinc-700 hover:bg-zinc-600">Deny</button>
+          <button onClick={() => resolve(true)} className="px-3 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 text-white" autoFocus>Allow</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const GeminiChatApp: React.FC<AppComponentProps> = ({ setTitle, setSessionData, initialData, openApp }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [model, setModel] = useState<string>(DEFAULT_MODEL);
+  const [systemInstruction, setSystemInstruction] = useState<string>('');
+  const [isShowingSettings, setIsShowingSettings] = useState<boolean>(false);
+  const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(true);
+  const [savedChats, setSavedChats] = useState<ChatStorage.SavedChatSummary[]>([]);
+  const [chatPath, setChatPath] = useState<string | null>(null);
+  const [chatTitle, setChatTitle] = useState<string>('New chat');
+  const [chatCreatedAt, setChatCreatedAt] = useState<number>(Date.now());
+  const [hasUnsavedReply, setHasUnsavedReply] = useState<boolean>(false);
+  const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
+  const [isPickingAttachment, setIsPickingAttachment] = useState<boolean>(false);
+  const [isAgentMode, setIsAgentMode] = useState<boolean>(false);
+  const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
+  // The bot message that the reply in progress (and its tool calls) is written to
+  const activeBotMessageIdRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const sessionRef = useRef<ChatSession>(createChatSession());
 
   useEffect(() => {
-    setTitle(`Gemini Chat - ${appInstanceId.substring(0,4)}`);
-  }, [appInstanceId, setTitle]);
+    setTitle(`${chatTitle} - Gemini Chat`);
+  }, [chatTitle, setTitle]);
+
+  useEffect(() => {
+    setSessionData?.(chatPath ? { filePath: chatPath } : undefined);
+  }, [chatPath, setSessionData]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  const handleSendMessage = useCallback(async () => {
-    if (!input.trim() || isLoading) return;
+  useEffect(() => {
+    sessionRef.current.setModel(model);
+  }, [model]);
 
-    const userMessage: ChatMessage = { id: Date.now().toString(), sender: 'user', text: input.trim() };
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
-    setIsLoading(true);
+  useEffect(() => {
+    sessionRef.current.setSystemInstruction(systemInstruction);
+  }, [systemInstruction]);
 
-    const loadingBotMessageId = (Date.now() + 1).toString();
-    const loadingBotMessage: ChatMessage = { id: loadingBotMessageId, sender: 'bot', text: 'Thinking...', isLoading: true };
-    setMessages(prev => [...prev, loadingBotMessage]);
+  // Read by the cleanup below, which only sees the state of the first render
+  const pendingConfirmationRef = useRef<PendingConfirmation | null>(null);
+  useEffect(() => {
+    pendingConfirmationRef.current = pendingConfirmation;
+  }, [pendingConfirmation]);
+
+  // Stop any reply in progress when the window closes, declining a tool call that waits for
+  // confirmation so the agent loop doesn't wait forever
+  useEffect(() => () => {
+    sessionRef.current.cancel();
+    pendingConfirmationRef.current?.resolve(false);
+  }, []);
+
+  const agentToolset = useMemo(() => createAgentToolset({
+    apps: APP_DEFINITIONS
+      .filter(app => !app.isExternal && !app.isWebApp)
+      .map(app => ({ id: app.id, name: app.name })),
+    openApp: (appId, data) => openApp?.(appId, data),
+    confirm: (description, call) => new Promise<boolean>(resolve => {
+      setPendingConfirmation({
+        description,
+        call,
+        resolve: (isAllowed) => {
+          setPendingConfirmation(null);
+          resolve(isAllowed);
+        },
+      });
+    }),
+    onToolCall: (toolCall) => {
+      const toolCallCopy = { ...toolCall };
+      setMessages(prev => prev.map(msg => {
+        if (msg.id !== activeBotMessageIdRef.current) return msg;
+        const toolCalls = msg.toolCalls || [];
+        return {
+          ...msg,
+          toolCalls: toolCalls.some(t => t.id === toolCallCopy.id)
+            ? toolCalls.map(t => t.id === toolCallCopy.id ? toolCallCopy : t)
+            : [...toolCalls, toolCallCopy],
+        };
+      }));
+    },
+  }), [openApp]);
+
+  const refreshSavedChats = useCallback(async () => {
+    setSavedChats(await ChatStorage.listChats());
+  }, []);
+
+  useEffect(() => {
+    refreshSavedChats();
+  }, [refreshSavedChats]);
+
+  const startNewChat = useCallback(() => {
+    sessionRef.current.cancel();
+    sessionRef.current = createChatSession({ model, systemInstruction });
+    setMessages([]);
+    setChatPath(null);
+    setChatTitle('New chat');
+    setChatCreatedAt(Date.now());
+    setHasUnsavedReply(false);
+  }, [model, systemInstruction]);
+
+  const openChat = useCallback(async (path: string) => {
+    const chat = await ChatStorage.loadChat(path);
+    if (!chat) {
+      alert(`Could not open chat ${path}.`);
+      return;
+    }
+    sessionRef.current.cancel();
+    const chatModel = chat.model || DEFAULT_MODEL;
+    sessionRef.current = createChatSession({
+      model: chatModel,
+      systemInstruction: chat.systemInstruction,
+      history: messagesToHistory(chat.messages),
+    });
+    setMessages(chat.messages);
+    setModel(chatModel);
+    setSystemInstruction(chat.systemInstruction);
+    setChatPath(path);
+    setChatTitle(chat.title);
+    setChatCreatedAt(chat.createdAt);
+    setHasUnsavedReply(false);
+  }, []);
+
+  // Chats opened from File Explorer/Desktop (or restored sessions) arrive with a file path
+  useEffect(() => {
+    if (initialData?.filePath) openChat(initialData.filePath);
+  }, [initialData?.filePath, openChat]);
+
+  const attachFile = useCallback(async (path: string) => {
+    setIsPickingAttachment(false);
+    const { attachment, error } = await loadAttachment(path);
+    if (!attachment) {
+      alert(error);
+      return;
+    }
+    setPendingAttachments(prev => [...prev.filter(a => a.path !== attachment.path), attachment]);
+  }, []);
+
+  // "Ask Gemini about this file" opens a new chat with the file ready to send
+  useEffect(() => {
+    if (initialData?.attachFilePath) attachFile(initialData.attachFilePath);
+  }, [initialData?.attachFilePath, attachFile]);
+
+  // Save once a reply has finished streaming
+  useEffect(() => {
+    if (!hasUnsavedReply || isLoading || messages.length === 0) return;
+    setHasUnsavedReply(false);
+    const saveCurrentChat = async () => {
+      const firstUserMessage = messages.find(msg => msg.sender === 'user');
+      const title = chatPath ? chatTitle : (firstUserMessage?.text.substring(0, MAX_TITLE_LENGTH) || chatTitle);
+      const chat = ChatStorage.createChatDocument({
+        title,
+        model,
+        systemInstruction,
+        createdAt: chatCreatedAt,
+        messages,
+      });
+      const savedPath = await ChatStorage.saveChat(chat, chatPath || undefined);
+      if (savedPath) {
+        setChatPath(savedPath);
+        setChatTitle(title);
+        refreshSavedChats();
+      }
+    };
+    saveCurrentChat();
+  }, [hasUnsavedReply, isLoading, messages, chatPath, chatTitle, chatCreatedAt, model, systemInstruction, refreshSavedChats]);
+
+  const handleRenameChat = useCallback(async (path: string, newTitle: string) => {
+    const newPath = await ChatStorage.renameChat(path, newTitle);
+    if (newPath && path === chatPath) {
+      setChatPath(newPath);
+      setChatTitle(newTitle);
+    }
+    refreshSavedChats();
+  }, [chatPath, refreshSavedChats]);
+
+  const handleDeleteChat = useCallback(async (path: string) => {
+    const chat = savedChats.find(c => c.path === path);
+    if (!window.confirm(`Delete the chat "${chat?.title || path}"?`)) return;
+    await ChatStorage.deleteChat(path);
+    if (path === chatPath) startNewChat();
+    refreshSavedChats();
+  }, [savedChats, chatPath, startNewChat, refreshSavedChats]);
+
+  /**
+   * Streams a reply into a new bot message. `request` is the session call that produces it.
+   */
+  const streamIntoNewMessage = useCallback(async (request: (onChunk: (text: string) => void) => Promise<string>) => {
+    const botMessageId = `bot-${Date.now()}`;
+    activeBotMessageIdRef.current = botMessageId;
+    sessionRef.current.setTools(isAgentMode ? agentToolset : null);
+    setMessages(prev => [...prev, { id: botMessageId, sender: 'bot', text: '', isLoading: true }]);
+    setIsLoading(true);
 
     try {
-      const responseText = await generateGeminiResponse(userMessage.text);
-      const botMessage: ChatMessage = { id: Date.now().toString(), sender: 'bot', text: responseText };
-      setMessages(prev => prev.map(msg => msg.id === loadingBotMessageId ? botMessage : msg ));
+      const fullText = await request((chunk) => {
+        setMessages(prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: msg.text + chunk } : msg));
+      });
+      setMessages(prev => prev.map(msg => msg.id === botMessageId
+        ? { ...msg, text: fullText || msg.text || '(No response)', isLoading: false, isError: !fullText }
+        : msg));
     } catch (error) {
       console.error("Error sending message to Gemini:", error);
-      const errorMessage: ChatMessage = { id: Date.now().toString(), sender: 'bot', text: "Sorry, I couldn't get a response." };
-      setMessages(prev => prev.map(msg => msg.id === loadingBotMessageId ? errorMessage : msg ));
+      const errorText = error instanceof Error ? error.message : "Sorry, I couldn't get a response.";
+      setMessages(prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: errorText, isLoading: false, isError: true } : msg));
     } finally {
       setIsLoading(false);
+      setHasUnsavedReply(true);
+      activeBotMessageIdRef.current = null;
     }
-  }, [input, isLoading]);
+  }, [isAgentMode, agentToolset]);
+
+  const handleSendMessage = useCallback(async () => {
+    if (!input.trim() || isLoading) return;
+
+    const text = input.trim();
+    const attachments = pendingAttachments;
+    const userMessage: ChatMessage = {
+      id: `user-${Date.now()}`,
+      sender: 'user',
+      text,
+      ...(attachments.length > 0 && { attachments }),
+    };
+    // Drop the failed turn and its error reply; the session replaces that turn as well
+    const history = sessionRef.current.getHistory();
+    const lastTurnFailed = history.length > 0 && history[history.length - 1].role === 'user';
+    setMessages(prev => [...(lastTurnFailed ? prev.slice(0, -2) : prev), userMessage]);
+    setInput('');
+    setPendingAttachments([]);
+    await streamIntoNewMessage(onChunk => sessionRef.current.sendMessageStream(text, onChunk, attachments));
+  }, [input, isLoading, pendingAttachments, streamIntoNewMessage]);
+
+  const handleRegenerate = useCallback(async () => {
+    if (isLoading) return;
+    setMessages(prev => prev[prev.length - 1]?.sender === 'bot' ? prev.slice(0, -1) : prev);
+    await streamIntoNewMessage(onChunk => sessionRef.current.regenerate(onChunk));
+  }, [isLoading, streamIntoNewMessage]);
+
+  const handleStop = () => {
+    sessionRef.current.cancel();
+    pendingConfirmation?.resolve(false);
+  };
+
+  const handleOpenInNotebook = useCallback((code: string, language: string) => {
+    openApp?.('notebook', { content: code, fileName: `snippet.${getExtensionForLanguage(language)}`, isUnsaved: true });
+  }, [openApp]);
+
+  const lastMessage = messages[messages.length - 1];
 
   return (
-    <div className="flex flex-col h-full p-4 bg-black text-sm">
-      <div className="flex-grow overflow-y-auto mb-4 custom-scrollbar pr-2 space-y-3">
-        {messages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div
-              className={`max-w-[75%] p-2.5 rounded-lg shadow ${
-                msg.sender === 'user'
-                  ? 'bg-blue-600 text-white rounded-br-none'
-                  : 'bg-zinc-900 text-zinc-200 rounded-bl-none'
-              } ${msg.isLoading ? 'italic animate-pulse' : ''}`}
+    <div className="flex h-full bg-black text-sm">
+      {isSidebarOpen && (
+        <ChatSidebar
+          chats={savedChats}
+          activePath={chatPath}
+          onOpen={openChat}
+          onNew={startNewChat}
+          onRename={handleRenameChat}
+          onDelete={handleDeleteChat}
+        />
+      )}
+      <div className="relative flex-grow flex flex-col p-4 min-w-0">
+        {pendingConfirmation && <ToolConfirmationDialog confirmation={pendingConfirmation} />}
+        <div className="flex-shrink-0 flex items-center justify-between pb-3 mb-3 border-b border-zinc-800">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setIsSidebarOpen(prev => !prev)}
+              className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400"
+              title={isSidebarOpen ? 'Hide chats' : 'Show chats'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
+            </button>
+            <select
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              disabled={isLoading}
+              className="bg-zinc-900 border border-zinc-700 rounded-md py-1 px-2 text-xs outline-none focus:border-blue-500"
+              title="Model"
+            >
+              {GEMINI_MODELS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setIsAgentMode(prev => !prev)}
+              className={`px-2 py-1 rounded text-xs border ${isAgentMode ? 'border-blue-500 bg-blue-600/30 text-blue-300' : 'border-zinc-700 text-zinc-400 hover:bg-zinc-800'}`}
+              title="Agent mode lets Gemini browse and edit files, open apps and run commands. Changes need your approval."
+            >
+              Agent
+            </button>
+            <button
+              onClick={() => setIsShowingSettings(prev => !prev)}
+              className={`p-1.5 rounded hover:bg-zinc-800 ${isShowingSettings || systemInstruction ? 'text-blue-400' : 'text-zinc-400'}`}
+              title="System prompt"
             >
-              {/* Basic Markdown-like newlines */}
-              {msg.text.split('\n').map((line, index) => (
-                <span key={index}>{line}<br/></span>
-              ))}
+              <SettingsIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {isShowingSettings && (
+          <div className="flex-shrink-0 mb-3">
+            <label className="block text-xs text-zinc-400 mb-1">System prompt</label>
+            <textarea
+              value={systemInstruction}
+              onChange={(e) => setSystemInstruction(e.target.value)}
+              placeholder="e.g. You are a concise assistant that answers in bullet points."
+              rows={3}
+              className="w-full bg-zinc-900 border border-zinc-700 rounded-md p-2 text-xs outline-none focus:border-blue-500 placeholder-zinc-500 resize-none custom-scrollbar"
+            />
+          </div>
+        )}
+        <div className="flex-grow overflow-y-auto mb-4 custom-scrollbar pr-2 space-y-3">
+          {messages.map((msg) => (
+            <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[75%] p-2.5 rounded-lg shadow ${
+                  msg.sender === 'user'
+                    ? 'bg-blue-600 text-white rounded-br-none'
+                    : `bg-zinc-900 rounded-bl-none ${msg.isError ? 'text-red-400' : 'text-zinc-200'}`
+                } ${msg.isLoading && !msg.text ? 'italic animate-pulse' : ''}`}
+              >
+                {msg.attachments && msg.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-1.5">
+                    {msg.attachments.map(attachment => <AttachmentChip key={attachment.path} attachment={attachment} />)}
+                  </div>
+                )}
+                {msg.toolCalls && msg.toolCalls.length > 0 && <ToolCallTrail toolCalls={msg.toolCalls} />}
+                {msg.isLoading && !msg.text ? 'Thinking...' : msg.sender === 'bot' && !msg.isError ? (
+                  <MarkdownRenderer content={msg.text} onOpenInNotebook={handleOpenInNotebook} />
+                ) : (
+                  <span className="whitespace-pre-wrap break-words">{msg.text}</span>
+                )}
+              </div>
+            </div>
+          ))}
+          {lastMessage?.sender === 'bot' && !isLoading && (
+            <div className="flex justify-start">
+              <button
+                onClick={handleRegenerate}
+                className="flex items-center text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded hover:bg-zinc-800"
+              >
+                <RefreshIcon className="w-3.5 h-3.5 mr-1" /> Regenerate
+              </button>
             </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+        {pendingAttachments.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {pendingAttachments.map(attachment => (
+              <AttachmentChip
+                key={attachment.path}
+                attachment={attachment}
+                onRemove={() => setPendingAttachments(prev => prev.filter(a => a.path !== attachment.path))}
+              />
+            ))}
           </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
-      <div className="flex items-center border-t border-zinc-800 pt-3">
-        <input
-          type="text"
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyPress={(e) => e.key === 'Enter' && !isLoading && handleSendMessage()}
-          placeholder="Ask Gemini anything..."
-          className="flex-grow bg-zinc-900 border border-zinc-700 rounded-l-md py-2 px-3 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none placeholder-zinc-400"
-          disabled={isLoading}
-        />
-        <button
-          onClick={handleSendMessage}
-          disabled={isLoading || !input.trim()}
-          className="bg-blue-600 hover:bg-blue-700 disabled:bg-zinc-600 text-white px-4 py-2 rounded-r-md flex items-center justify-center transition-colors"
-        >
+        )}
+        <div className="relative flex items-center border-t border-zinc-800 pt-3">
+          {isPickingAttachment && <AttachmentPicker onPick={attachFile} onClose={() => setIsPickingAttachment(false)} />}
+          <button
+            onClick={() => setIsPickingAttachment(prev => !prev)}
+            disabled={isLoading}
+            className={`p-2 mr-1 rounded hover:bg-zinc-800 disabled:opacity-50 ${isPickingAttachment ? 'text-blue-400' : 'text-zinc-400'}`}
+            title="Attach a file"
+          >
+            <PaperclipIcon />
+          </button>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && !isLoading && handleSendMessage()}
+            placeholder="Ask Gemini anything..."
+            className="flex-grow bg-zinc-900 border border-zinc-700 rounded-l-md py-2 px-3 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none placeholder-zinc-400"
+            disabled={isLoading}
+          />
           {isLoading ? (
-            <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
+            <button
+              onClick={handleStop}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-r-md flex items-center justify-center transition-colors"
+              title="Stop generating"
+            >
+              <span className="block w-3.5 h-3.5 my-[3px] bg-white rounded-sm" />
+            </button>
           ) : (
-            <SearchIcon className="w-5 h-5" />
+            <button
+              onClick={handleSendMessage}
+              disabled={!input.trim()}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-zinc-600 text-white px-4 py-2 rounded-r-md flex items-center justify-center transition-colors"
+            >
+              <SearchIcon className="w-5 h-5" />
+            </button>
           )}
-        </button>
+        </div>
       </div>
     </div>
   );
@@ -97,8 +630,11 @@ export const appDefinition: AppDefinition = {
   name: 'Gemini Chat',
   icon: SearchIcon,
   component: GeminiChatApp,
-  defaultSize: { width: 500, height: 700 },
+  defaultSize: { width: 720, height: 700 },
   isPinnedToTaskbar: true,
+  fileTypes: { extensions: ['chat.json'] },
+  // Saved chats open as themselves; any other file is attached to a new message
+  getFileInitialData: file => ChatStorage.isChatFile(file.name) ? { filePath: file.path } : { attachFilePath: file.path },
 };
 
 export default GeminiChatApp;
@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { AppDefinition, AppComponentProps, FilesystemItem } from '../../types';
+import * as FsService from '../../services/filesystemService';
+import { MediaPlayerIcon } from '../../constants';
+
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'oga', 'm4a', 'aac', 'flac', 'opus'];
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'webm', 'ogv', 'mov', 'mkv'];
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt'];
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SEEK_STEP_SECONDS = 5;
+
+type RepeatMode = 'off' | 'all' | 'one';
+
+interface SubtitleTrack {
+    label: string;
+    language?: string;
+    url: string; // blob: URL of the track as WebVTT
+}
+
+const getExtension = (name: string) => name.substring(name.lastIndexOf('.') + 1).toLowerCase();
+const getBaseName = (name: string) => name.lastIndexOf('.') > 0 ? name.substring(0, name.lastIndexOf('.')) : name;
+const getParentPath = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+const getName = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+const isMediaFile = (name: string) => [...AUDIO_EXTENSIONS, ...VIDEO_EXTENSIONS].includes(getExtension(name));
+const isAudioFile = (name: string) => AUDIO_EXTENSIONS.includes(getExtension(name));
+
+const sortByName = (items: FilesystemItem[]) =>
+    [...items].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
+const formatTime = (seconds: number) => {
+    if (!Number.isFinite(seconds)) return '0:00';
+    const total = Math.floor(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// SubRip differs from WebVTT mainly in its header and the comma before the milliseconds
+const srtToVtt = (srt: string) =>
+    'WEBVTT\n\n' + srt.replace(/^\uFEFF/, '').replace(/\r/g, '').replace(/(\d\d:\d\d:\d\d),(\d\d\d)/g, '$1.$2');
+
+/**
+ * Subtitle files next to a media file that share its name: for 'movie.mp4' that is 'movie.vtt',
+ * 'movie.srt' and language variants like 'movie.en.srt'.
+ */
+const findSubtitleFiles = (folderItems: FilesystemItem[], mediaName: string) => {
+    const baseName = getBaseName(mediaName).toLowerCase();
+    return sortByName(folderItems.filter(item => {
+        const name = item.name.toLowerCase();
+        return item.type === 'file' && SUBTITLE_EXTENSIONS.includes(getExtension(name)) && (getBaseName(name) === baseName || name.startsWith(baseName + '.'));
+    }));
+};
+
+// Loads subtitle files as WebVTT blobs, since <track> only understands WebVTT
+const loadSubtitleTracks = async (files: FilesystemItem[], mediaName: string): Promise<SubtitleTrack[]> => {
+    const baseName = getBaseName(mediaName);
+    const tracks: SubtitleTrack[] = [];
+    for (const file of files) {
+        const data = await FsService.readFile(file.path);
+        if (!data) continue;
+        const vtt = getExtension(file.name) === 'srt' ? srtToVtt(data.content) : data.content;
+        // 'movie.en.srt' is labelled 'en'; 'movie.srt' just 'Subtitles'
+        const language = getBaseName(file.name).substring(baseName.length + 1) || undefined;
+        tracks.push({ label: language || 'Subtitles', language, url: URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' })) });
+    }
+    return tracks;
+};
+
+const ControlButton: React.FC<{ title: string; onClick: () => void; disabled?: boolean; isActive?: boolean; children: React.ReactNode }> = ({ title, onClick, disabled, isActive, children }) => (
+    <button onClick={onClick} disabled={disabled} title={title} className={`px-2 py-1 rounded text-sm disabled:opacity-40 disabled:cursor-not-allowed ${isActive ? 'text-blue-400' : 'hover:bg-zinc-700'}`}>
+        {children}
+    </button>
+);
+
+/**
+ * Plays audio and video files from the project, streamed with range requests so playback starts
+ * right away and seeking doesn't download the whole file. The other media files of the folder
+ * form the playlist.
+ */
+const MediaPlayerApp: React.FC<AppComponentProps> = ({ setTitle, setSessionData, initialData }) => {
+    const initialPath: string | undefined = initialData?.file?.path;
+    const [currentPath, setCurrentPath] = useState<string | undefined>(initialPath);
+    const [folderItems, setFolderItems] = useState<FilesystemItem[]>([]);
+    const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrack[]>([]);
+    const [activeTrackIndex, setActiveTrackIndex] = useState(-1); // -1: subtitles off
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [volume, setVolume] = useState(1);
+    const [isMuted, setIsMuted] = useState(false);
+    const [playbackRate, setPlaybackRate] = useState(1);
+    const [repeatMode, setRepeatMode] = useState<RepeatMode>('off');
+    const [isPlaylistVisible, setIsPlaylistVisible] = useState(true);
+    const [playbackError, setPlaybackError] = useState(false);
+    const mediaRef = useRef<HTMLVideoElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const folderPath = currentPath ? getParentPath(currentPath) : null;
+    const playlist = sortByName(folderItems.filter(item => item.type === 'file' && isMediaFile(item.name)));
+    const currentIndex = playlist.findIndex(item => item.path === currentPath);
+    const isAudio = currentPath ? isAudioFile(currentPath) : false;
+
+    useEffect(() => {
+        setCurrentPath(initialPath);
+    }, [initialPath]);
+
+    useEffect(() => {
+        setTitle(currentPath ? `${getName(currentPath)} - Media Player` : 'Media Player');
+        setSessionData?.(currentPath ? { file: { path: currentPath, name: getName(currentPath) } } : undefined);
+    }, [currentPath, setTitle, setSessionData]);
+
+    const fetchFolder = useCallback(async () => {
+        if (folderPath) setFolderItems(await FsService.listDirectory(folderPath));
+    }, [folderPath]);
+
+    useEffect(() => {
+        fetchFolder();
+    }, [fetchFolder]);
+
+    useEffect(() => {
+        if (!folderPath) return;
+        return FsService.subscribeToChanges(
+            folderPath,
+            changes => setFolderItems(prev => FsService.applyChanges(prev, changes, folderPath)),
+            fetchFolder,
+        );
+    }, [folderPath, fetchFolder]);
+
+    // Subtitles are reloaded when the file changes or a subtitle file appears next to it, not on
+    // every other change in the folder; the effect reads the listing through a ref for that reason
+    const subtitleFilesKey = currentPath ? findSubtitleFiles(folderItems, getName(currentPath)).map(file => `${file.path}@${file.mtime}`).join('|') : '';
+    const folderItemsRef = useRef(folderItems);
+    folderItemsRef.current = folderItems;
+    useEffect(() => {
+        if (!currentPath) return;
+        let isCancelled = false;
+        let loadedTracks: SubtitleTrack[] = [];
+        loadSubtitleTracks(findSubtitleFiles(folderItemsRef.current, getName(currentPath)), getName(currentPath)).then(tracks => {
+            loadedTracks = tracks;
+            if (isCancelled) {
+                tracks.forEach(track => URL.revokeObjectURL(track.url));
+                return;
+            }
+            setSubtitleTracks(tracks);
+            setActiveTrackIndex(prev => (prev >= tracks.length ? -1 : prev));
+        });
+        return () => {
+            isCancelled = true;
+            loadedTracks.forEach(track => URL.revokeObjectURL(track.url));
+        };
+    }, [currentPath, subtitleFilesKey]);
+
+    // <track default> only applies on load; switching tracks means setting their modes
+    useEffect(() => {
+        const textTracks = mediaRef.current?.textTracks;
+        if (!textTracks) return;
+        for (let i = 0; i < textTracks.length; i++) textTracks[i].mode = i === activeTrackIndex ? 'showing' : 'disabled';
+    }, [activeTrackIndex, subtitleTracks]);
+
+    useEffect(() => {
+        setPlaybackError(false);
+        setCurrentTime(0);
+        setDuration(0);
+    }, [currentPath]);
+
+    useEffect(() => {
+        const media = mediaRef.current;
+        if (!media) return;
+        media.volume = volume;
+        media.muted = isMuted;
+        media.playbackRate = playbackRate;
+    }, [volume, isMuted, playbackRate, currentPath]);
+
+    const playAt = useCallback((index: number) => {
+        if (playlist.length === 0) return;
+        setCurrentPath(playlist[(index + playlist.length) % playlist.length].path);
+    }, [playlist]);
+
+    const togglePlay = () => {
+        const media = mediaRef.current;
+        if (!media) return;
+        if (media.paused) media.play().catch(() => setPlaybackError(true));
+        else media.pause();
+    };
+
+    const seekTo = (time: number) => {
+        const media = mediaRef.current;
+        if (media) media.currentTime = Math.max(0, Math.min(time, media.duration || 0));
+    };
+
+    const handleEnded = () => {
+        if (repeatMode === 'one') {
+            seekTo(0);
+            mediaRef.current?.play();
+        } else if (currentIndex < playlist.length - 1 || repeatMode === 'all') {
+            playAt(currentIndex + 1);
+        }
+    };
+
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) document.exitFullscreen();
+        else containerRef.current?.requestFullscreen();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if ((e.target as HTMLElement).tagName === 'INPUT' || (e.target as HTMLElement).tagName === 'SELECT') return;
+        const key = e.key.toLowerCase();
+        if (key === ' ' || key === 'k') togglePlay();
+        else if (key === 'arrowright') seekTo(currentTime + SEEK_STEP_SECONDS);
+        else if (key === 'arrowleft') seekTo(currentTime - SEEK_STEP_SECONDS);
+        else if (key === 'arrowup') setVolume(prev => Math.min(1, prev + 0.1));
+        else if (key === 'arrowdown') setVolume(prev => Math.max(0, prev - 0.1));
+        else if (key === 'm') setIsMuted(prev => !prev);
+        else if (key === 'n') playAt(currentIndex + 1);
+        else if (key === 'p') playAt(currentIndex - 1);
+        else if (key === 'f') toggleFullscreen();
+        else return;
+        e.preventDefault();
+    };
+
+    if (!currentPath) {
+        return <div className="flex h-full items-center justify-center bg-black text-sm text-zinc-400">Open an audio or video file from File Explorer or the Desktop to play it here.</div>;
+    }
+
+    return (
+        <div ref={containerRef} className="flex h-full bg-black text-zinc-200 select-none outline-none" onKeyDown={handleKeyDown} tabIndex={-1}>
+            <div className="flex-grow flex flex-col min-w-0">
+                <div className="relative flex-grow flex items-center justify-center min-h-0" onClick={togglePlay} onDoubleClick={toggleFullscreen}>
+                    <video
+                        ref={mediaRef}
+                        key={currentPath}
+                        src={FsService.getFileStreamUrl(currentPath)}
+                        autoPlay
+                        className={`max-w-full max-h-full ${isAudio ? 'hidden' : ''}`}
+                        onPlay={() => setIsPlaying(true)}
+                        onPause={() => setIsPlaying(false)}
+                        onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+                        onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+                        onDurationChange={e => setDuration(e.currentTarget.duration)}
+                        onEnded={handleEnded}
+                        onError={() => setPlaybackError(true)}
+                    >
+                        {subtitleTracks.map((track, index) => (
+                            <track key={track.url} kind="subtitles" src={track.url} label={track.label} srcLang={track.language} default={index === activeTrackIndex} />
+                        ))}
+                    </video>
+                    {isAudio && !playbackError && (
+                        <div className="flex flex-col items-center text-zinc-400 pointer-events-none">
+                            <MediaPlayerIcon className="w-24 h-24 mb-3" />
+                            <span className="text-sm truncate max-w-xs">{getName(currentPath)}</span>
+                        </div>
+                    )}
+                    {playbackError && (
+                        <div className="text-sm text-zinc-400">Couldn't play {getName(currentPath)}. Its format may not be supported.</div>
+                    )}
+                </div>
+
+                <div className="flex-shrink-0 px-3 pt-2 pb-2 border-t border-zinc-800 bg-zinc-900/80">
+                    <div className="flex items-center space-x-2 text-xs text-zinc-400">
+                        <span className="w-14 text-right">{formatTime(currentTime)}</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={duration || 0}
+                            step={0.1}
+                            value={Math.min(currentTime, duration || 0)}
+                            onChange={e => seekTo(Number(e.target.value))}
+                            className="flex-grow accent-blue-500"
+                            aria-label="Seek"
+                        />
+                        <span className="w-14">{formatTime(duration)}</span>
+                    </div>
+                    <div className="flex items-center space-x-1 mt-1">
+                        <ControlButton title="Previous (P)" onClick={() => playAt(currentIndex - 1)} disabled={playlist.length < 2}>&#9198;</ControlButton>
+                        <ControlButton title={isPlaying ? 'Pause (Space)' : 'Play (Space)'} onClick={togglePlay}>{isPlaying ? '\u23F8' : '\u25B6'}</ControlButton>
+                        <ControlButton title="Next (N)" onClick={() => playAt(currentIndex + 1)} disabled={playlist.length < 2}>&#9197;</ControlButton>
+                        <ControlButton
+                            title={`Repeat: ${repeatMode}`}
+                            onClick={() => setRepeatMode(prev => (prev === 'off' ? 'all' : prev === 'all' ? 'one' : 'off'))}
+                            isActive={repeatMode !== 'off'}
+                        >
+                            {repeatMode === 'one' ? '\uD83D\uDD02' : '\uD83D\uDD01'}
+                        </ControlButton>
+                        <ControlButton title={isMuted ? 'Unmute (M)' : 'Mute (M)'} onClick={() => setIsMuted(prev => !prev)}>{isMuted || volume === 0 ? '\uD83D\uDD07' : '\uD83D\uDD0A'}</ControlButton>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={isMuted ? 0 : volume}
+                            onChange={e => {
+                                setVolume(Number(e.target.value));
+                                setIsMuted(false);
+                            }}
+                            className="w-24 accent-blue-500"
+                            aria-label="Volume"
+                        />
+                        <div className="flex-grow" />
+                        {subtitleTracks.length > 0 && (
+                            <select value={activeTrackIndex} onChange={e => setActiveTrackIndex(Number(e.target.value))} className="bg-zinc-800 rounded px-1 py-1 text-xs outline-none" title="Subtitles">
+                                <option value={-1}>Subtitles off</option>
+                                {subtitleTracks.map((track, index) => <option key={track.url} value={index}>{track.label}</option>)}
+                            </select>
+                        )}
+                        <select value={playbackRate} onChange={e => setPlaybackRate(Number(e.target.value))} className="bg-zinc-800 rounded px-1 py-1 text-xs outline-none" title="Playback speed">
+                            {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}x</option>)}
+                        </select>
+                        <ControlButton title="Playlist" onClick={() => setIsPlaylistVisible(prev => !prev)} isActive={isPlaylistVisible}>&#9776;</ControlButton>
+                        {!isAudio && <ControlButton title="Full screen (F)" onClick={toggleFullscreen}>&#x26F6;</ControlButton>}
+                    </div>
+                </div>
+            </div>
+
+            {isPlaylistVisible && (
+                <aside className="w-56 flex-shrink-0 flex flex-col border-l border-zinc-800 bg-zinc-900/50">
+                    <h3 className="px-3 py-2 text-xs font-semibold text-zinc-400 truncate">Playlist: {folderPath === '/' ? 'Project Root' : getName(folderPath || '')}</h3>
+                    <div className="flex-grow overflow-y-auto custom-scrollbar text-sm">
+                        {playlist.map((item, index) => (
+                            <button
+                                key={item.path}
+                                onClick={() => playAt(index)}
+                                title={item.name}
+                                className={`w-full text-left px-3 py-1.5 truncate ${item.path === currentPath ? 'bg-blue-600/30 text-white' : 'hover:bg-zinc-700/50'}`}
+                            >
+                                {item.name}
+                            </button>
+                        ))}
+                    </div>
+                </aside>
+            )}
+        </div>
+    );
+};
+
+export const appDefinition: AppDefinition = {
+    id: 'mediaPlayer',
+    name: 'Media Player',
+    icon: MediaPlayerIcon,
+    component: MediaPlayerApp,
+    defaultSize: { width: 900, height: 600 },
+    fileTypes: { extensions: [...AUDIO_EXTENSIONS, ...VIDEO_EXTENSIONS], mimeTypes: ['audio/*', 'video/*'] },
+};
+
+export default MediaPlayerApp;
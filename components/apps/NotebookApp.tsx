@@ -1,13 +1,38 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { AppDefinition, AppComponentProps } from '../../types';
-import { readFile, saveFile } from '../../services/filesystemService';
+import { readFile, getFileSize, readFileRange, writeFileBinary } from '../../services/filesystemService';
 import { NotebookIcon } from '../../constants';
+import VersionHistoryDialog from '../VersionHistoryDialog';
 
 interface FileIdentifier {
     path: string;
     name: string;
 }
 
+// Files larger than this are opened read-only and shown one page at a time
+const LARGE_FILE_BYTES = 5 * 1024 * 1024;
+const PAGE_BYTES = 1024 * 1024;
+// Unsaved edits up to this length are kept in the desktop session; longer ones are lost on reload
+const MAX_SESSION_CONTENT_LENGTH = 256 * 1024;
+
+interface LargeFileView {
+    size: number;
+    page: number;
+}
+
+// Decodes one page of a UTF-8 file. The range is read with 3 extra bytes so a character that
+// straddles the end of the page is completed here; the next page skips its continuation bytes.
+const decodePage = (bytes: Uint8Array, pageLength: number, isFirstPage: boolean) => {
+    const isContinuationByte = (byte: number) => (byte & 0xC0) === 0x80;
+    let from = 0;
+    if (!isFirstPage) {
+        while (from < bytes.length && isContinuationByte(bytes[from])) from++;
+    }
+    let to = Math.min(pageLength, bytes.length);
+    while (to < bytes.length && isContinuationByte(bytes[to])) to++;
+    return new TextDecoder('utf-8').decode(bytes.subarray(from, to));
+};
+
 interface StatusBarInfo {
     line: number;
     column: number;
@@ -59,8 +84,7 @@ const MenuItem: React.FC<{ onClick: () => void; children: React.ReactNode, disab
 };
 
 
-const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) => {
-    const triggerRefresh = initialData?.triggerRefresh;
+const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, setSessionData, initialData }) => {
     const onSaveCallback = initialData?.onSave as ((content: string) => void) | undefined;
     
     const [fileName, setFileName] = useState('Untitled.txt');
@@ -68,8 +92,10 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
     const [content, setContent] = useState('');
     const [isLoading, setIsLoading] = useState(true);
     const [isDirty, setIsDirty] = useState(false);
-    const [wordWrap, setWordWrap] = useState(true);
-    const [zoomLevel, setZoomLevel] = useState(100);
+    const [largeFile, setLargeFile] = useState<LargeFileView | null>(null);
+    const [wordWrap, setWordWrap] = useState<boolean>(initialData?.wordWrap ?? true);
+    const [zoomLevel, setZoomLevel] = useState<number>(initialData?.zoomLevel ?? 100);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
     const [statusBarInfo, setStatusBarInfo] = useState<StatusBarInfo>({ line: 1, column: 1, charCount: 0, selectedCount: 0 });
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -79,6 +105,20 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
         setTitle(`${isDirty ? '*' : ''}${fileName} - Notebook`);
     }, [setTitle, fileName, isDirty]);
 
+    // Unsaved edits are stored with the document so a reload brings them back. A remote (SFTP) file
+    // can't be saved back without its connection, so it comes back as an unsaved buffer.
+    useEffect(() => {
+        if (isLoading) return;
+        const view = { wordWrap, zoomLevel };
+        if (isDirty && !largeFile && content.length <= MAX_SESSION_CONTENT_LENGTH) {
+            setSessionData?.({ ...view, content, fileName, filePath: onSaveCallback ? undefined : filePath, isUnsaved: true });
+        } else if (filePath && !onSaveCallback) {
+            setSessionData?.({ ...view, file: { path: filePath, name: fileName } });
+        } else {
+            setSessionData?.(view);
+        }
+    }, [isLoading, isDirty, largeFile, content, filePath, fileName, onSaveCallback, wordWrap, zoomLevel, setSessionData]);
+
     // Handles loading file from path, OR from direct content injection
     useEffect(() => {
         const fileIdentifier = initialData?.file as FileIdentifier | undefined;
@@ -87,15 +127,25 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
         const remoteFilePath = initialData?.filePath as string | undefined;
         
         setIsLoading(true);
+        setLargeFile(null);
 
-        if (typeof initialContent === 'string') { // Handles SFTP/remote files
+        if (typeof initialContent === 'string') { // Handles SFTP/remote files and new unsaved buffers
             setContent(initialContent);
             setFileName(initialName || 'Untitled Remote File');
             setFilePath(remoteFilePath); // Store the remote path for context
-            setIsDirty(false);
+            setIsDirty(!!initialData?.isUnsaved);
             setIsLoading(false);
         } else if (fileIdentifier?.path) { // Handles local virtual files
             const loadContent = async () => {
+                const size = await getFileSize(fileIdentifier.path);
+                if (size !== null && size > LARGE_FILE_BYTES) {
+                    // The page itself is loaded by the effect below
+                    setFilePath(fileIdentifier.path);
+                    setFileName(fileIdentifier.name);
+                    setLargeFile({ size, page: 0 });
+                    setIsDirty(false);
+                    return;
+                }
                 const fileData = await readFile(fileIdentifier.path);
                 if (fileData) {
                     setContent(fileData.content);
@@ -115,6 +165,28 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
         }
     }, [initialData?.file?.path, initialData?.content, initialData?.fileName, initialData?.filePath]);
 
+    useEffect(() => {
+        if (!largeFile || !filePath) return;
+        let isCancelled = false;
+        const loadPage = async () => {
+            setIsLoading(true);
+            const start = largeFile.page * PAGE_BYTES;
+            const range = await readFileRange(filePath, start, start + PAGE_BYTES + 3);
+            if (isCancelled) return;
+            setContent(range
+                ? decodePage(new Uint8Array(range.data), PAGE_BYTES, largeFile.page === 0)
+                : `Error: Could not load page ${largeFile.page + 1} of ${filePath}`);
+            setIsLoading(false);
+        };
+        loadPage();
+        return () => { isCancelled = true; };
+    }, [largeFile, filePath]);
+
+    const pageCount = largeFile ? Math.max(1, Math.ceil(largeFile.size / PAGE_BYTES)) : 1;
+    const goToPage = (page: number) => {
+        if (largeFile && page >= 0 && page < pageCount) setLargeFile({ ...largeFile, page });
+    };
+
     const updateStatusBar = useCallback(() => {
         const textarea = textareaRef.current;
         if (!textarea) return;
@@ -141,6 +213,7 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
 
     // --- Menu Actions ---
     const handleNew = () => {
+        setLargeFile(null);
         setContent('');
         setFileName('Untitled.txt');
         setFilePath(undefined);
@@ -156,6 +229,7 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
             const reader = new FileReader();
             reader.onloadstart = () => setIsLoading(true);
             reader.onload = (event) => {
+                setLargeFile(null);
                 setContent(event.target?.result as string);
                 setFileName(file.name);
                 setFilePath(undefined); // This is a new, unsaved buffer from a local file
@@ -176,14 +250,36 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
             onSaveCallback(content);
             setIsDirty(false);
         } else if (filePath) { // File exists in virtual FS
-            await saveFile(filePath, content);
-            setIsDirty(false);
-            triggerRefresh?.();
+            if (await writeFileBinary(filePath, new Blob([content], { type: 'text/plain;charset=utf-8' }))) {
+                setIsDirty(false);
+            } else {
+                alert(`Could not save ${fileName}.`);
+            }
         } else { // New file or file opened from user's disk, fallback to Save As
             handleSaveAs();
         }
     };
 
+    // After restoring an earlier version, shows it unless that would throw away unsaved edits
+    const handleVersionRestored = async () => {
+        if (!filePath) return;
+        if (isDirty && !window.confirm('The version was restored. Discard your unsaved changes and show it?')) return;
+        const size = await getFileSize(filePath);
+        if (size !== null && size > LARGE_FILE_BYTES) {
+            setLargeFile({ size, page: 0 });
+            setIsDirty(false);
+            return;
+        }
+        const fileData = await readFile(filePath);
+        if (!fileData) {
+            alert(`Could not reload ${fileName}.`);
+            return;
+        }
+        setLargeFile(null);
+        setContent(fileData.content);
+        setIsDirty(false);
+    };
+
     const handleSaveAs = () => {
         const blob = new Blob([content.replace(/\n/g, '\r\n')], { type: 'text/plain;charset=utf-8' });
         const url = URL.createObjectURL(blob);
@@ -217,13 +313,15 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
     }, [zoomIn, zoomOut]);
     
     return (
-        <div className="flex flex-col h-full bg-[#1e1e1e] text-zinc-200">
+        <div className="relative flex flex-col h-full bg-[#1e1e1e] text-zinc-200">
             <div className="flex-shrink-0 flex items-center space-x-1 px-1 py-0.5 bg-[#2d2d2d] border-b border-zinc-800">
                 <MenuDropdown title="File">
                     <MenuItem onClick={handleNew}>New</MenuItem>
                     <MenuItem onClick={handleOpen}>Open...</MenuItem>
                     <MenuItem onClick={handleSave} disabled={!isDirty}>Save</MenuItem>
                     <MenuItem onClick={handleSaveAs}>Save As...</MenuItem>
+                    <div className="my-1 border-t border-zinc-600"></div>
+                    <MenuItem onClick={() => setIsHistoryOpen(true)} disabled={!filePath || !!onSaveCallback}>Version history...</MenuItem>
                 </MenuDropdown>
                 <MenuDropdown title="View">
                     <div className="w-full text-left px-3 py-1 text-sm hover:bg-blue-600 flex justify-between items-center cursor-pointer rounded-sm" onClick={toggleWordWrap}>
@@ -242,6 +340,7 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
                 ref={textareaRef}
                 value={isLoading ? 'Loading...' : content}
                 onChange={(e) => handleContentChange(e.target.value)}
+                readOnly={!!largeFile}
                 onKeyUp={updateStatusBar}
                 onMouseUp={updateStatusBar}
                 onClick={updateStatusBar}
@@ -255,7 +354,14 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
             />
 
             <div className="flex-shrink-0 grid grid-cols-[1fr,auto] items-center px-3 py-0.5 text-xs bg-[#2d2d2d] border-t border-zinc-800 text-zinc-400">
-                <div />
+                {largeFile ? (
+                    <div className="flex items-center space-x-2">
+                        <span>Large file, read-only</span>
+                        <button onClick={() => goToPage(largeFile.page - 1)} disabled={largeFile.page === 0 || isLoading} className="px-1.5 rounded hover:bg-zinc-700 disabled:opacity-50">&lt;</button>
+                        <span>Page {largeFile.page + 1} of {pageCount}</span>
+                        <button onClick={() => goToPage(largeFile.page + 1)} disabled={largeFile.page >= pageCount - 1 || isLoading} className="px-1.5 rounded hover:bg-zinc-700 disabled:opacity-50">&gt;</button>
+                    </div>
+                ) : <div />}
                 <div className="flex items-center space-x-4 pl-4">
                     <span>Ln {statusBarInfo.line}, Col {statusBarInfo.column}</span>
                     <span className="border-l border-zinc-600 h-4"></span>
@@ -274,6 +380,10 @@ const NotebookApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) =>
                     <span>UTF-8</span>
                 </div>
             </div>
+
+            {isHistoryOpen && filePath && (
+                <VersionHistoryDialog path={filePath} name={fileName} onRestored={handleVersionRestored} onClose={() => setIsHistoryOpen(false)} />
+            )}
         </div>
     );
 };
@@ -284,6 +394,10 @@ export const appDefinition: AppDefinition = {
   icon: NotebookIcon,
   component: NotebookApp,
   defaultSize: { width: 600, height: 500 },
+  fileTypes: {
+    extensions: ['txt', 'md', 'log', 'csv', 'json', 'xml', 'yml', 'yaml', 'ini', 'env', 'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'html', 'css', 'py', 'sh'],
+    mimeTypes: ['text/*', 'application/json', 'application/javascript', 'application/xml'],
+  },
 };
 
 export default NotebookApp;
\ No newline at end of file
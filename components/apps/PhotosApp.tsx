@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { AppDefinition, AppComponentProps, FilesystemItem } from '../../types';
+import * as FsService from '../../services/filesystemService';
+import { PhotosIcon } from '../../constants';
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'svg', 'ico', 'avif'];
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 10;
+const ZOOM_STEP = 1.25;
+const SLIDESHOW_INTERVAL_MS = 3000;
+
+interface ImageView {
+    zoom: number; // 1 fits the image in the window
+    rotation: number; // degrees, a multiple of 90
+    offset: { x: number; y: number }; // pan, in screen pixels
+}
+
+const DEFAULT_VIEW: ImageView = { zoom: 1, rotation: 0, offset: { x: 0, y: 0 } };
+
+const isImageFile = (name: string) => IMAGE_EXTENSIONS.includes(name.substring(name.lastIndexOf('.') + 1).toLowerCase());
+const getParentPath = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+const getName = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+const sortImages = (items: FilesystemItem[]) => items
+    .filter(item => item.type === 'file' && isImageFile(item.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
+const ToolbarButton: React.FC<{ title: string; onClick: () => void; disabled?: boolean; isActive?: boolean; children: React.ReactNode }> = ({ title, onClick, disabled, isActive, children }) => (
+    <button onClick={onClick} disabled={disabled} title={title} className={`px-2 py-1 rounded text-xs disabled:opacity-40 disabled:cursor-not-allowed ${isActive ? 'bg-blue-600 text-white' : 'hover:bg-zinc-700'}`}>
+        {children}
+    </button>
+);
+
+/**
+ * Shows the images of one folder, starting with the file it was opened with (`initialData.file`).
+ * Images are streamed from the server, so large photos never pass through JSON.
+ */
+const PhotosApp: React.FC<AppComponentProps> = ({ setTitle, setSessionData, initialData, onWallpaperChange }) => {
+    const initialPath: string | undefined = initialData?.file?.path;
+    const [currentPath, setCurrentPath] = useState<string | undefined>(initialPath);
+    const [images, setImages] = useState<FilesystemItem[]>([]);
+    const [view, setView] = useState<ImageView>(DEFAULT_VIEW);
+    const [isSlideshow, setIsSlideshow] = useState(false);
+    const [loadError, setLoadError] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const filmstripRef = useRef<HTMLDivElement>(null);
+    const panStartRef = useRef<{ pointerX: number; pointerY: number; offset: { x: number; y: number } } | null>(null);
+
+    const folderPath = currentPath ? getParentPath(currentPath) : null;
+    const currentIndex = images.findIndex(image => image.path === currentPath);
+
+    useEffect(() => {
+        setCurrentPath(initialPath);
+    }, [initialPath]);
+
+    useEffect(() => {
+        setTitle(currentPath ? `${getName(currentPath)} - Photos` : 'Photos');
+        setSessionData?.(currentPath ? { file: { path: currentPath, name: getName(currentPath) } } : undefined);
+    }, [currentPath, setTitle, setSessionData]);
+
+    const fetchImages = useCallback(async () => {
+        if (!folderPath) return;
+        setImages(sortImages(await FsService.listDirectory(folderPath)));
+    }, [folderPath]);
+
+    useEffect(() => {
+        fetchImages();
+    }, [fetchImages]);
+
+    // Images added to or removed from the folder show up in the filmstrip right away
+    useEffect(() => {
+        if (!folderPath) return;
+        return FsService.subscribeToChanges(
+            folderPath,
+            changes => setImages(prev => sortImages(FsService.applyChanges(prev, changes, folderPath))),
+            fetchImages,
+        );
+    }, [folderPath, fetchImages]);
+
+    // Every image starts fitted to the window
+    useEffect(() => {
+        setView(DEFAULT_VIEW);
+        setLoadError(false);
+        requestAnimationFrame(() => {
+            filmstripRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+        });
+    }, [currentPath]);
+
+    const showImageAt = useCallback((index: number) => {
+        if (images.length === 0) return;
+        setCurrentPath(images[(index + images.length) % images.length].path);
+    }, [images]);
+
+    const showNext = useCallback(() => showImageAt(currentIndex + 1), [showImageAt, currentIndex]);
+    const showPrevious = useCallback(() => showImageAt(currentIndex - 1), [showImageAt, currentIndex]);
+
+    useEffect(() => {
+        if (!isSlideshow || images.length < 2) return;
+        const timer = setTimeout(showNext, SLIDESHOW_INTERVAL_MS);
+        return () => clearTimeout(timer);
+    }, [isSlideshow, images.length, showNext]);
+
+    useEffect(() => {
+        if (!notice) return;
+        const timer = setTimeout(() => setNotice(null), 2500);
+        return () => clearTimeout(timer);
+    }, [notice]);
+
+    // Zooms keeping the point under (`anchorX`, `anchorY`), relative to the viewport's centre, in place
+    const zoomBy = useCallback((factor: number, anchorX = 0, anchorY = 0) => {
+        setView(prev => {
+            const zoom = clampZoom(prev.zoom * factor);
+            if (zoom <= 1) return { ...prev, zoom, offset: { x: 0, y: 0 } };
+            const ratio = zoom / prev.zoom;
+            return { ...prev, zoom, offset: { x: anchorX - (anchorX - prev.offset.x) * ratio, y: anchorY - (anchorY - prev.offset.y) * ratio } };
+        });
+    }, []);
+
+    const rotateBy = (degrees: number) => setView(prev => ({ ...prev, rotation: (prev.rotation + degrees + 360) % 360 }));
+
+    const handleWheel = (e: React.WheelEvent) => {
+        const rect = viewportRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left - rect.width / 2, e.clientY - rect.top - rect.height / 2);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (view.zoom <= 1 || e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        panStartRef.current = { pointerX: e.clientX, pointerY: e.clientY, offset: view.offset };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const panStart = panStartRef.current;
+        if (!panStart) return;
+        setView(prev => ({ ...prev, offset: { x: panStart.offset.x + e.clientX - panStart.pointerX, y: panStart.offset.y + e.clientY - panStart.pointerY } }));
+    };
+
+    const handlePointerUp = () => {
+        panStartRef.current = null;
+    };
+
+    const setAsBackground = () => {
+        if (!currentPath || !onWallpaperChange) return;
+        onWallpaperChange(currentPath);
+        setNotice('Set as desktop background');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowRight') showNext();
+        else if (e.key === 'ArrowLeft') showPrevious();
+        else if (e.key === '+' || e.key === '=') zoomBy(ZOOM_STEP);
+        else if (e.key === '-') zoomBy(1 / ZOOM_STEP);
+        else if (e.key === '0') setView(prev => ({ ...DEFAULT_VIEW, rotation: prev.rotation }));
+        else if (e.key.toLowerCase() === 'r') rotateBy(e.shiftKey ? -90 : 90);
+        else if (e.key === ' ') setIsSlideshow(prev => !prev);
+        else if (e.key === 'Escape' && isSlideshow) setIsSlideshow(false);
+        else return;
+        e.preventDefault();
+    };
+
+    if (!currentPath) {
+        return <div className="flex h-full items-center justify-center bg-black text-sm text-zinc-400">Open an image from File Explorer or the Desktop to view it here.</div>;
+    }
+
+    return (
+        <div className="flex flex-col h-full bg-black text-zinc-200 select-none outline-none" onKeyDown={handleKeyDown} tabIndex={-1}>
+            <div className="flex-shrink-0 flex items-center space-x-1 px-2 py-1.5 border-b border-zinc-800 bg-zinc-900/80">
+                <ToolbarButton title="Previous (Left arrow)" onClick={showPrevious} disabled={images.length < 2}>&#9664;</ToolbarButton>
+                <ToolbarButton title="Next (Right arrow)" onClick={showNext} disabled={images.length < 2}>&#9654;</ToolbarButton>
+                <span className="px-2 text-xs text-zinc-400">{currentIndex >= 0 ? `${currentIndex + 1} of ${images.length}` : ''}</span>
+                <div className="flex-grow" />
+                <ToolbarButton title="Zoom out (-)" onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM}>&minus;</ToolbarButton>
+                <span className="w-12 text-center text-xs text-zinc-400">{Math.round(view.zoom * 100)}%</span>
+                <ToolbarButton title="Zoom in (+)" onClick={() => zoomBy(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM}>+</ToolbarButton>
+                <ToolbarButton title="Fit to window (0)" onClick={() => setView(prev => ({ ...DEFAULT_VIEW, rotation: prev.rotation }))}>Fit</ToolbarButton>
+                <ToolbarButton title="Rotate left (Shift+R)" onClick={() => rotateBy(-90)}>&#8634;</ToolbarButton>
+                <ToolbarButton title="Rotate right (R)" onClick={() => rotateBy(90)}>&#8635;</ToolbarButton>
+                <div className="w-px h-4 bg-zinc-700 mx-1" />
+                <ToolbarButton title="Slideshow (Space)" onClick={() => setIsSlideshow(prev => !prev)} disabled={images.length < 2} isActive={isSlideshow}>
+                    {isSlideshow ? 'Stop slideshow' : 'Slideshow'}
+                </ToolbarButton>
+                <ToolbarButton title="Use this image as the desktop wallpaper" onClick={setAsBackground} disabled={!onWallpaperChange || loadError}>Set as background</ToolbarButton>
+            </div>
+
+            <div
+                ref={viewportRef}
+                className={`relative flex-grow overflow-hidden flex items-center justify-center ${view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                onWheel={handleWheel}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onDoubleClick={() => setView(prev => prev.zoom === 1 ? { ...prev, zoom: 2 } : { ...DEFAULT_VIEW, rotation: prev.rotation })}
+            >
+                {loadError ? (
+                    <div className="text-sm text-zinc-400">Couldn't display {getName(currentPath)}. The file may be damaged or in a format this browser can't show.</div>
+                ) : (
+                    <img
+                        key={currentPath}
+                        src={FsService.getFileStreamUrl(currentPath)}
+                        alt={getName(currentPath)}
+                        draggable={false}
+                        onError={() => setLoadError(true)}
+                        className="max-w-full max-h-full object-contain"
+                        style={{ transform: `translate(${view.offset.x}px, ${view.offset.y}px) scale(${view.zoom}) rotate(${view.rotation}deg)` }}
+                    />
+                )}
+                {notice && (
+                    <div className="absolute bottom-3 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded bg-zinc-900/90 border border-zinc-700 text-xs">{notice}</div>
+                )}
+            </div>
+
+            {images.length > 1 && (
+                <div ref={filmstripRef} className="flex-shrink-0 flex space-x-1.5 p-1.5 overflow-x-auto custom-scrollbar border-t border-zinc-800 bg-zinc-900/80">
+                    {images.map((image, index) => (
+                        <button
+                            key={image.path}
+                            data-active={image.path === currentPath}
+                            onClick={() => showImageAt(index)}
+                            title={image.name}
+                            className={`flex-shrink-0 w-16 h-16 rounded overflow-hidden border-2 ${image.path === currentPath ? 'border-blue-500' : 'border-transparent hover:border-zinc-500'}`}
+                        >
+                            <img src={FsService.getFileStreamUrl(image.path)} alt={image.name} loading="lazy" draggable={false} className="w-full h-full object-cover" />
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const appDefinition: AppDefinition = {
+    id: 'photos',
+    name: 'Photos',
+    icon: PhotosIcon,
+    component: PhotosApp,
+    defaultSize: { width: 900, height: 650 },
+    fileTypes: { extensions: IMAGE_EXTENSIONS, mimeTypes: ['image/*'] },
+};
+
+export default PhotosApp;
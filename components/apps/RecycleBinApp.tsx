@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { AppDefinition, AppComponentProps, RecycleBinEntry } from '../../types';
+import * as FsService from '../../services/filesystemService';
+import { RecycleBinIcon, FolderIcon, FileGenericIcon } from '../../constants';
+import ContextMenu, { ContextMenuItem } from '../ContextMenu';
+import { useItemSelection, SELECTABLE_ID_ATTRIBUTE } from '../useItemSelection';
+import { formatSize } from '../fileFormatters';
+
+const getParentFolder = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+
+const RecycleBinApp: React.FC<AppComponentProps> = ({ setTitle }) => {
+    const [entries, setEntries] = useState<RecycleBinEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [contextMenu, setContextMenu] = useState<{ x: number; y: number; targets: RecycleBinEntry[] } | null>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+    const entryIds = useMemo(() => entries.map(entry => entry.id), [entries]);
+    const selection = useItemSelection(entryIds, listRef);
+    const { selectedIds } = selection;
+    const selectedEntries = useMemo(() => entries.filter(entry => selectedIds.has(entry.id)), [entries, selectedIds]);
+    const totalSize = useMemo(() => entries.reduce((sum, entry) => sum + entry.size, 0), [entries]);
+
+    useEffect(() => {
+        setTitle('Recycle Bin');
+    }, [setTitle]);
+
+    const fetchEntries = useCallback(async () => {
+        setEntries(await FsService.listRecycleBin());
+        setIsLoading(false);
+    }, []);
+
+    // Deletes from anywhere (Desktop, File Explorer, other clients) show up here as they happen
+    useEffect(() => {
+        fetchEntries();
+        return FsService.subscribeToRecycleBin(fetchEntries);
+    }, [fetchEntries]);
+
+    const restore = useCallback(async (targets: RecycleBinEntry[]) => {
+        if (targets.length === 0) return;
+        const results = await FsService.restoreItems(targets);
+        const failureMessage = FsService.describeBatchFailures(results, 'restore');
+        if (failureMessage) alert(failureMessage);
+    }, []);
+
+    const deletePermanently = useCallback(async (targets: RecycleBinEntry[]) => {
+        if (targets.length === 0) return;
+        const subject = targets.length > 1 ? `these ${targets.length} items` : `"${targets[0].name}"`;
+        if (!window.confirm(`Permanently delete ${subject}? This cannot be undone.`)) return;
+        const results = await FsService.deleteItemsPermanently(targets);
+        const failureMessage = FsService.describeBatchFailures(results, 'delete');
+        if (failureMessage) alert(failureMessage);
+    }, []);
+
+    const emptyBin = async () => {
+        if (entries.length === 0) return;
+        if (!window.confirm(`Permanently delete all ${entries.length} items in the Recycle Bin?`)) return;
+        if (!await FsService.emptyRecycleBin()) alert('Could not empty the Recycle Bin.');
+    };
+
+    const handleEntryContextMenu = (e: React.MouseEvent, entry: RecycleBinEntry) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const isInSelection = selectedIds.has(entry.id);
+        if (!isInSelection) selection.selectOnly(entry.id);
+        setContextMenu({ x: e.clientX, y: e.clientY, targets: isInSelection ? selectedEntries : [entry] });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const isCtrl = e.ctrlKey || e.metaKey;
+        if (isCtrl && e.key.toLowerCase() === 'a') {
+            selection.selectAll();
+        } else if (e.key === 'Delete') {
+            deletePermanently(selectedEntries);
+        } else if (e.key === 'Enter') {
+            restore(selectedEntries);
+        } else {
+            return;
+        }
+        e.preventDefault();
+    };
+
+    const handleListMouseDown = (e: React.MouseEvent) => {
+        if ((e.target as HTMLElement).closest(`[${SELECTABLE_ID_ATTRIBUTE}]`)) return;
+        selection.startRubberBand(e);
+    };
+
+    const contextMenuItems = useMemo<ContextMenuItem[]>(() => {
+        if (!contextMenu) return [];
+        const { targets } = contextMenu;
+        const suffix = targets.length > 1 ? ` ${targets.length} items` : '';
+        return [
+            { type: 'item', label: `Restore${suffix}`, onClick: () => restore(targets) },
+            { type: 'separator' },
+            { type: 'item', label: `Delete permanently${suffix}`, onClick: () => deletePermanently(targets) },
+        ];
+    }, [contextMenu, restore, deletePermanently]);
+
+    return (
+        <div className="flex flex-col h-full bg-black text-zinc-200 select-none outline-none" onClick={() => setContextMenu(null)} onKeyDown={handleKeyDown} tabIndex={-1}>
+            <div className="flex-shrink-0 flex items-center space-x-2 p-2 border-b border-zinc-800 bg-black/50 text-sm">
+                <button onClick={emptyBin} disabled={entries.length === 0} className="px-3 py-1.5 rounded hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Empty Recycle Bin
+                </button>
+                <button onClick={() => restore(selectedEntries)} disabled={selectedEntries.length === 0} className="px-3 py-1.5 rounded hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Restore selected
+                </button>
+                <button onClick={() => restore(entries)} disabled={entries.length === 0} className="px-3 py-1.5 rounded hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Restore all
+                </button>
+                <button onClick={() => deletePermanently(selectedEntries)} disabled={selectedEntries.length === 0} className="px-3 py-1.5 rounded hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Delete permanently
+                </button>
+            </div>
+
+            <div className="flex-shrink-0 grid grid-cols-[2fr_2fr_1.5fr_1fr] gap-2 px-4 py-1.5 text-xs text-zinc-400 border-b border-zinc-800">
+                <span>Name</span>
+                <span>Original location</span>
+                <span>Date deleted</span>
+                <span className="text-right">Size</span>
+            </div>
+
+            <div ref={listRef} className="flex-grow overflow-y-auto custom-scrollbar relative px-2 py-1" onMouseDown={handleListMouseDown}>
+                {isLoading ? (
+                    <div className="absolute inset-0 flex items-center justify-center text-zinc-400">Loading...</div>
+                ) : entries.length > 0 ? (
+                    entries.map(entry => (
+                        <div
+                            key={entry.id}
+                            {...{ [SELECTABLE_ID_ATTRIBUTE]: entry.id }}
+                            onClick={(e) => selection.selectWithModifiers(entry.id, e)}
+                            onDoubleClick={() => restore([entry])}
+                            onContextMenu={(e) => handleEntryContextMenu(e, entry)}
+                            className={`grid grid-cols-[2fr_2fr_1.5fr_1fr] gap-2 items-center px-2 py-1.5 rounded text-sm cursor-default ${selectedIds.has(entry.id) ? 'bg-blue-500/30' : 'hover:bg-white/10'}`}
+                        >
+                            <span className="flex items-center space-x-2 truncate">
+                                {entry.type === 'folder'
+                                    ? <FolderIcon className="w-5 h-5 flex-shrink-0 text-amber-400" />
+                                    : <FileGenericIcon className="w-5 h-5 flex-shrink-0 text-zinc-400" />}
+                                <span className="truncate">{entry.name}</span>
+                            </span>
+                            <span className="truncate text-zinc-400" title={entry.originalPath}>{getParentFolder(entry.originalPath)}</span>
+                            <span className="text-zinc-400">{new Date(entry.deletedAt).toLocaleString()}</span>
+                            <span className="text-right text-zinc-400">{formatSize(entry.size)}</span>
+                        </div>
+                    ))
+                ) : (
+                    <div className="text-center text-zinc-400 mt-10">The Recycle Bin is empty.</div>
+                )}
+                {selection.rubberBandRect && (
+                    <div className="absolute border border-blue-400 bg-blue-500/20 pointer-events-none" style={selection.rubberBandRect} />
+                )}
+            </div>
+
+            <div className="flex-shrink-0 px-4 py-1 text-xs text-zinc-400 border-t border-zinc-800">
+                {entries.length} item(s), {formatSize(totalSize)}
+                {selectedEntries.length > 0 && ` — ${selectedEntries.length} selected`}
+            </div>
+
+            {contextMenu && (
+                <ContextMenu
+                    x={contextMenu.x}
+                    y={contextMenu.y}
+                    items={contextMenuItems}
+                    onClose={() => setContextMenu(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export const appDefinition: AppDefinition = {
+    id: 'recycleBin',
+    name: 'Recycle Bin',
+    icon: RecycleBinIcon,
+    component: RecycleBinApp,
+    defaultSize: { width: 760, height: 480 },
+};
+
+export default RecycleBinApp;
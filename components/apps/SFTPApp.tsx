@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { AppComponentProps, AppDefinition, FilesystemItem as BaseFilesystemItem } from '../../types';
 import { FolderIcon, FileGenericIcon, SftpIcon } from '../../constants';
 import ContextMenu, { ContextMenuItem } from '../ContextMenu';
+import { authFetch, withAuthToken } from '../../services/authService';
 
 const pathHelper = {
     join: (...args: string[]) => args.join('/').replace(/\/+/g, '/'),
@@ -32,11 +33,11 @@ const SidebarItem: React.FC<{ icon: React.ReactNode; label: string; onClick: ()
     </button>
 );
 
-const SFTPApp: React.FC<AppComponentProps> = ({ setTitle, openApp }) => {
+const SFTPApp: React.FC<AppComponentProps> = ({ setTitle, openApp, setSessionData, initialData }) => {
     const [status, setStatus] = useState<ConnectionStatus>('disconnected');
-    const [host, setHost] = useState('127.0.0.1');
-    const [port, setPort] = useState('22');
-    const [username, setUsername] = useState('');
+    const [host, setHost] = useState<string>(initialData?.host ?? '127.0.0.1');
+    const [port, setPort] = useState<string>(initialData?.port ?? '22');
+    const [username, setUsername] = useState<string>(initialData?.username ?? '');
     const [password, setPassword] = useState('');
     const [errorMsg, setErrorMsg] = useState('');
     const [statusMessage, setStatusMessage] = useState('Not connected.');
@@ -52,14 +53,22 @@ const SFTPApp: React.FC<AppComponentProps> = ({ setTitle, openApp }) => {
     const [renameValue, setRenameValue] = useState('');
 
     const ws = useRef<WebSocket | null>(null);
+    // The folder open when the session was saved; the first connection opens it instead of the home directory
+    const restoredPath = useRef<string | undefined>(initialData?.path);
 
     useEffect(() => { setTitle(`SFTP - ${status === 'connected' ? pathHelper.basename(currentPath) : status}`); }, [setTitle, status, currentPath]);
     
     useEffect(() => () => { ws.current?.close(); }, []);
 
-    // Fetch OS user on mount
+    // The password is never stored; a restored window shows the connection form filled in
     useEffect(() => {
-        fetch('http://localhost:3001/api/os-user')
+        setSessionData?.({ host, port, username, path: currentPath });
+    }, [host, port, username, currentPath, setSessionData]);
+
+    // Fetch OS user on mount, unless the session restored one
+    useEffect(() => {
+        if (initialData?.username) return;
+        authFetch('http://localhost:3001/api/os-user')
             .then(res => res.ok ? res.json() : Promise.resolve({ username: 'user' }))
             .then(data => setUsername(data.username || 'user'));
     }, []);
@@ -139,7 +148,7 @@ const SFTPApp: React.FC<AppComponentProps> = ({ setTitle, openApp }) => {
         setStatus('connecting'); setErrorMsg(''); setStatusMessage(`Connecting to ${host}...`);
         setItems([]);
 
-        ws.current = new WebSocket('ws://localhost:3003');
+        ws.current = new WebSocket(withAuthToken('ws://localhost:3003'));
         
         ws.current.onopen = () => {
              ws.current?.send(JSON.stringify({ type: 'connect', payload: { host, port, username, password } }));
@@ -154,9 +163,11 @@ const SFTPApp: React.FC<AppComponentProps> = ({ setTitle, openApp }) => {
             switch (msg.type) {
                 case 'status':
                     if (msg.payload === 'connected') {
-                        setStatus('connected'); setPassword(''); setStatusMessage('Connected. Listing home directory...');
-                        setCurrentPath('.');
-                        setHistory(['.']);
+                        const startPath = restoredPath.current || '.';
+                        restoredPath.current = undefined;
+                        setStatus('connected'); setPassword(''); setStatusMessage(startPath === '.' ? 'Connected. Listing home directory...' : `Connected. Listing ${startPath}...`);
+                        setCurrentPath(startPath);
+                        setHistory([startPath]);
                         setHistoryIndex(0);
                     } else {
                         setStatus('disconnected'); setStatusMessage('Disconnected.');
@@ -1,20 +1,38 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { AppDefinition, AppComponentProps } from '../../types';
 import { SettingsIcon } from '../../constants';
 import { useTheme, themes } from '../theme';
+import { useFileAssociations } from '../fileAssociations';
+import * as FileAssociations from '../../services/fileAssociationService';
+import { APP_DEFINITIONS } from '.';
 
-const SettingsApp: React.FC<AppComponentProps> = ({ setTitle, onWallpaperChange }) => {
+// The sections of the Settings app, so other parts of the UI (Start Menu search) can link to them
+export const SETTINGS_PAGES: { id: string; name: string; keywords: string[] }[] = [
+  { id: 'themes', name: 'Themes', keywords: ['appearance', 'wallpaper', 'background', 'dark', 'light', 'colors', 'personalize'] },
+  { id: 'defaultApps', name: 'Default apps', keywords: ['open with', 'file types', 'associations', 'extensions'] },
+  { id: 'about', name: 'About', keywords: ['version', 'info', 'system'] },
+];
+
+const SettingsApp: React.FC<AppComponentProps> = ({ setTitle, onWallpaperChange, initialData }) => {
   const { theme, setTheme } = useTheme();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { defaultApps } = useFileAssociations();
 
   useEffect(() => {
     setTitle(`Settings`);
   }, [setTitle]);
 
+  // Opened with `{ page }` (e.g. from search), jump to that section
+  useEffect(() => {
+    if (!initialData?.page) return;
+    containerRef.current?.querySelector(`[data-settings-page="${initialData.page}"]`)?.scrollIntoView({ block: 'start' });
+  }, [initialData?.page]);
+
   return (
-    <div className={`p-6 h-full overflow-y-auto custom-scrollbar ${theme.appWindow.textColor}`}>
+    <div ref={containerRef} className={`p-6 h-full overflow-y-auto custom-scrollbar ${theme.appWindow.textColor}`}>
       <h1 className="text-2xl font-semibold mb-6">Settings</h1>
       
-      <div className={`mb-8 p-4 rounded-lg`} style={{backgroundColor: theme.appWindow.background.startsWith('bg-white') ? 'rgba(0,0,0,0.05)' : 'rgba(255,255,255,0.05)' }}>
+      <div data-settings-page="themes" className={`mb-8 p-4 rounded-lg`} style={{backgroundColor: theme.appWindow.background.startsWith('bg-white') ? 'rgba(0,0,0,0.05)' : 'rgba(255,255,255,0.05)' }}>
         <h2 className="text-lg font-medium mb-3">Themes</h2>
         <p className="text-sm opacity-80 mb-3">
             Select a theme to change the appearance of your desktop, taskbar, and windows.
@@ -38,7 +56,33 @@ const SettingsApp: React.FC<AppComponentProps> = ({ setTitle, onWallpaperChange
         </div>
       </div>
 
-      <div className={`mb-8 p-4 rounded-lg`} style={{backgroundColor: theme.appWindow.background.startsWith('bg-white') ? 'rgba(0,0,0,0.05)' : 'rgba(255,255,255,0.05)' }}>
+      <div data-settings-page="defaultApps" className={`mb-8 p-4 rounded-lg`} style={{backgroundColor: theme.appWindow.background.startsWith('bg-white') ? 'rgba(0,0,0,0.05)' : 'rgba(255,255,255,0.05)' }}>
+        <h2 className="text-lg font-medium mb-3">Default apps</h2>
+        <p className="text-sm opacity-80 mb-3">
+            File types you chose an app for with "Open with". Other files open in the first app that handles them.
+        </p>
+        {Object.keys(defaultApps).length === 0 ? (
+          <p className="text-sm opacity-60">No default apps chosen yet.</p>
+        ) : (
+          <ul className="text-sm space-y-1">
+            {Object.entries(defaultApps).sort(([a], [b]) => a.localeCompare(b)).map(([fileType, appId]) => (
+              <li key={fileType} className="flex items-center justify-between">
+                <span>.{fileType} &rarr; {APP_DEFINITIONS.find(app => app.id === appId)?.name || `${appId} (not installed)`}</span>
+                <button
+                  onClick={async () => {
+                    if (!await FileAssociations.resetDefaultApp(fileType)) alert(`Could not reset the default app for .${fileType} files.`);
+                  }}
+                  className="px-2 py-0.5 text-xs rounded border border-current opacity-70 hover:opacity-100"
+                >
+                  Reset
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div data-settings-page="about" className={`mb-8 p-4 rounded-lg`} style={{backgroundColor: theme.appWindow.background.startsWith('bg-white') ? 'rgba(0,0,0,0.05)' : 'rgba(255,255,255,0.05)' }}>
         <h2 className="text-lg font-medium mb-3">About</h2>
         <p className="text-sm opacity-80">
           Win11 React Gemini Clone v0.2.0 (Electron)
@@ -3,11 +3,12 @@ import { AppComponentProps, AppDefinition } from '../../types';
 import { HyperIcon as TerminusIcon } from '../../constants';
 import { Terminal } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
+import { authFetch, withAuthToken } from '../../services/authService';
 
 
 type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
-const TerminusApp: React.FC<AppComponentProps> = ({ setTitle }) => {
+const TerminusApp: React.FC<AppComponentProps> = ({ setTitle, initialData }) => {
     const [status, setStatus] = useState<ConnectionStatus>('disconnected');
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
@@ -17,6 +18,8 @@ const TerminusApp: React.FC<AppComponentProps> = ({ setTitle }) => {
     const terminalRef = useRef<HTMLDivElement>(null);
     const term = useRef<Terminal | null>(null);
     const fitAddon = useRef(new FitAddon());
+    // A command to run once the shell is ready, e.g. when launched by the Gemini agent
+    const pendingCommand = useRef<string | null>(initialData?.command || null);
     const host = '127.0.0.1'; // Hardcoded for local connection
 
     useEffect(() => {
@@ -25,7 +28,7 @@ const TerminusApp: React.FC<AppComponentProps> = ({ setTitle }) => {
 
     // Fetch current OS user to pre-fill the form
     useEffect(() => {
-        fetch('http://localhost:3001/api/os-user')
+        authFetch('http://localhost:3001/api/os-user')
             .then(res => res.ok ? res.json() : Promise.reject('Failed to fetch user'))
             .then(data => {
                 setUsername(data.username || '');
@@ -105,7 +108,7 @@ const TerminusApp: React.FC<AppComponentProps> = ({ setTitle }) => {
         setErrorMsg('');
         term.current?.reset();
 
-        ws.current = new WebSocket('ws://localhost:3002');
+        ws.current = new WebSocket(withAuthToken('ws://localhost:3002'));
 
         ws.current.onopen = () => {
             term.current?.write(`Connecting to ${username}@${host}...\r\n`);
@@ -129,6 +132,11 @@ const TerminusApp: React.FC<AppComponentProps> = ({ setTitle }) => {
                     break;
                 case 'data':
                     term.current?.write(message.payload);
+                    // The first output is the shell prompt, so the shell now accepts input
+                    if (pendingCommand.current) {
+                        ws.current?.send(JSON.stringify({ type: 'data', payload: `${pendingCommand.current}\r` }));
+                        pendingCommand.current = null;
+                    }
                     break;
                 case 'error':
                     term.current?.write(`\r\n\x1b[31mError: ${message.payload}\x1b[0m\r\n`);
@@ -170,6 +178,11 @@ const TerminusApp: React.FC<AppComponentProps> = ({ setTitle }) => {
                         <p className="text-sm text-zinc-400 mb-4">
                             Connect to <span className="font-semibold text-cyan-400">{username}@{host}</span>
                         </p>
+                        {initialData?.command && (
+                            <p className="text-xs text-zinc-400 mb-4 text-left">
+                                Runs after connecting: <code className="block mt-1 p-2 bg-zinc-900 rounded text-amber-300 break-all">{initialData.command}</code>
+                            </p>
+                        )}
                         <div className="space-y-4 text-left">
                             <div>
                                 <label className="block text-xs text-zinc-400 mb-1">Password for {username}</label>
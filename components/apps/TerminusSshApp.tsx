@@ -3,6 +3,7 @@ import { AppComponentProps, AppDefinition } from '../../types';
 import { HyperIcon as TerminusIcon } from '../../constants';
 import { Terminal } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
+import { authFetch, withAuthToken } from '../../services/authService';
 
 type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
@@ -24,7 +25,7 @@ const TerminusSshApp: React.FC<AppComponentProps> = ({ setTitle }) => {
 
     // Fetch current OS user to pre-fill the form
     useEffect(() => {
-        fetch('http://localhost:3001/api/os-user')
+        authFetch('http://localhost:3001/api/os-user')
             .then(res => res.ok ? res.json() : Promise.reject('Failed to fetch user'))
             .then(data => {
                 setUsername(data.username || '');
@@ -105,7 +106,7 @@ const TerminusSshApp: React.FC<AppComponentProps> = ({ setTitle }) => {
         setErrorMsg('');
         term.current?.reset();
 
-        ws.current = new WebSocket('ws://localhost:3002');
+        ws.current = new WebSocket(withAuthToken('ws://localhost:3002'));
 
         ws.current.onopen = () => {
             term.current?.write(`Connecting to ${username}@${host}...\r\n`);
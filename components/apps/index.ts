@@ -4,6 +4,7 @@ import type { AppDefinition } from '../../types';
 
 import { appDefinition as aboutAppDefinition } from './AboutApp';
 import { appDefinition as fileExplorerAppDefinition } from './FileExplorerApp';
+import { appDefinition as recycleBinAppDefinition } from './RecycleBinApp';
 import { appDefinition as geminiChatAppDefinition } from './GeminiChatApp';
 import { appDefinition as hyperAppDefinition } from './HyperApp';
 import { appDefinition as notebookAppDefinition } from './NotebookApp';
@@ -18,6 +19,8 @@ import { appDefinition as terminusSshAppDefinition } from './TerminusSshApp';
 import { appDefinition as sftpAppDefinition } from './SFTPApp';
 import { appDefinition as appStoreAppDefinition } from './AppStoreApp';
 import { appDefinition as themeAppDefinition } from './ThemeApp';
+import { appDefinition as photosAppDefinition } from './PhotosApp';
+import { appDefinition as mediaPlayerAppDefinition } from './MediaPlayerApp';
 
 /**
  * The master list of all applications available in the OS.
@@ -38,9 +41,12 @@ export const APP_DEFINITIONS: AppDefinition[] = [
   chrome3AppDefinition, // Restored Chrome 3
   chrome4AppDefinition,
   fileExplorerAppDefinition,
+  recycleBinAppDefinition,
   geminiChatAppDefinition,
   hyperAppDefinition,
   settingsAppDefinition,
   notebookAppDefinition,
+  photosAppDefinition,
+  mediaPlayerAppDefinition,
   aboutAppDefinition,
 ];
\ No newline at end of file
@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { AppDefinition, FilesystemItem } from '../types';
+import { APP_DEFINITIONS } from './apps';
+import { FolderIcon, FileCodeIcon, FileJsonIcon, FileGenericIcon, NotebookIcon } from '../constants';
+import * as FileAssociations from '../services/fileAssociationService';
+import { ContextMenuItem } from './ContextMenu';
+
+type OpenApp = (appId: string, initialData?: any) => void;
+
+// Opens files that no app declares; it shows them as text
+const FALLBACK_APP_ID = 'notebook';
+
+// Types with an icon of their own; other files show their default app's icon
+const FILE_TYPE_ICONS: Record<string, (className: string) => React.ReactNode> = {
+  ts: className => <FileCodeIcon className={`${className} text-cyan-400`} />,
+  tsx: className => <FileCodeIcon className={`${className} text-cyan-400`} />,
+  js: className => <FileCodeIcon className={`${className} text-cyan-400`} />,
+  jsx: className => <FileCodeIcon className={`${className} text-cyan-400`} />,
+  html: className => <FileCodeIcon className={`${className} text-orange-500`} />,
+  json: className => <FileJsonIcon className={`${className} text-yellow-400`} />,
+  txt: className => <NotebookIcon isSmall className={`${className} text-zinc-300`} />,
+  md: className => <NotebookIcon isSmall className={`${className} text-zinc-300`} />,
+};
+
+/** The app an `.app` shortcut launches, if the item is one. */
+export const getShortcutAppId = (item: FilesystemItem): string | undefined => {
+  if (!item.name.endsWith('.app') || !item.content) return undefined;
+  try {
+    return JSON.parse(item.content).appId;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/** The extensions a file name could be typed by, most specific first: 'a.chat.json' gives ['chat.json', 'json']. */
+export const getExtensions = (name: string): string[] => {
+  const parts = name.toLowerCase().split('.').slice(1);
+  // A leading dot (".gitignore") starts the name rather than an extension
+  if (name.startsWith('.')) parts.shift();
+  return parts.map((_, index) => parts.slice(index).join('.'));
+};
+
+const matchesMimeType = (pattern: string, mimeType: string) =>
+  pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType;
+
+const declaresExtension = (app: AppDefinition, extension: string) => app.fileTypes?.extensions?.includes(extension) ?? false;
+
+/**
+ * The type a file's default app is stored under: its most specific extension that some app
+ * declares or the user chose an app for, otherwise its last extension. '' for files without one.
+ */
+export const getFileType = (item: FilesystemItem, defaultApps = FileAssociations.getDefaultApps()): string => {
+  const extensions = getExtensions(item.name);
+  return extensions.find(extension => extension in defaultApps || APP_DEFINITIONS.some(app => declaresExtension(app, extension)))
+    ?? extensions[extensions.length - 1] ?? '';
+};
+
+/** Apps that declare they can open a file: those matching its most specific extension first, then by MIME type. */
+export const getAppsForFile = (item: FilesystemItem): AppDefinition[] => {
+  const apps = new Set<AppDefinition>();
+  getExtensions(item.name).forEach(extension => {
+    APP_DEFINITIONS.filter(app => declaresExtension(app, extension)).forEach(app => apps.add(app));
+  });
+  if (item.mimeType) {
+    const { mimeType } = item;
+    APP_DEFINITIONS.filter(app => app.fileTypes?.mimeTypes?.some(pattern => matchesMimeType(pattern, mimeType))).forEach(app => apps.add(app));
+  }
+  return [...apps];
+};
+
+/** The app that opens a file on double-click: the user's choice for its type, else the first app that handles it. */
+export const getDefaultApp = (item: FilesystemItem, defaultApps = FileAssociations.getDefaultApps()): AppDefinition => {
+  const chosenApp = APP_DEFINITIONS.find(app => app.id === defaultApps[getFileType(item, defaultApps)]);
+  return chosenApp || getAppsForFile(item)[0] || APP_DEFINITIONS.find(app => app.id === FALLBACK_APP_ID)!;
+};
+
+export const openFileWith = (item: FilesystemItem, app: AppDefinition, openApp: OpenApp) => {
+  openApp(app.id, app.getFileInitialData ? app.getFileInitialData(item) : { file: { path: item.path, name: item.name } });
+};
+
+/**
+ * The icon for a file or folder. `className` sets its size and spacing, e.g. 'w-12 h-12'.
+ * Shortcuts show the app they launch; files show their type's own icon, or their default app's.
+ */
+export const getItemIcon = (item: FilesystemItem, className: string, defaultApps = FileAssociations.getDefaultApps()): React.ReactNode => {
+  if (item.type === 'folder') return <FolderIcon className={`${className} text-amber-400`} />;
+  const shortcutApp = APP_DEFINITIONS.find(app => app.id === getShortcutAppId(item));
+  if (shortcutApp) return <shortcutApp.icon className={className} />;
+  const renderDefaultAppIcon = () => {
+    const DefaultAppIcon = getDefaultApp(item, defaultApps).icon;
+    return <DefaultAppIcon className={className} />;
+  };
+  // The most specific extension decides, so 'a.chat.json' gets the chat icon rather than the JSON one
+  for (const extension of getExtensions(item.name)) {
+    if (FILE_TYPE_ICONS[extension]) return FILE_TYPE_ICONS[extension](className);
+    if (extension in defaultApps || APP_DEFINITIONS.some(app => declaresExtension(app, extension))) return renderDefaultAppIcon();
+  }
+  if (getAppsForFile(item).length > 0) return renderDefaultAppIcon();
+  return <FileGenericIcon className={`${className} text-zinc-400`} />;
+};
+
+/**
+ * The user's default apps, loaded from the server and kept current. Components that show file
+ * icons or open files use this so they re-render when a default changes. `openWithMenu` builds
+ * the "Open with" submenu for a file; `onChooseOther` is called for its "Choose another app..." entry.
+ */
+export const useFileAssociations = (openApp?: OpenApp) => {
+  const defaultApps = useSyncExternalStore(FileAssociations.subscribe, FileAssociations.getDefaultApps);
+
+  useEffect(() => {
+    FileAssociations.loadDefaultApps();
+  }, []);
+
+  const openFile = useCallback((item: FilesystemItem) => {
+    if (openApp) openFileWith(item, getDefaultApp(item, defaultApps), openApp);
+  }, [openApp, defaultApps]);
+
+  const openWithMenu = useCallback((item: FilesystemItem, onChooseOther: () => void): ContextMenuItem => {
+    const defaultApp = getDefaultApp(item, defaultApps);
+    const apps = [defaultApp, ...getAppsForFile(item).filter(app => app !== defaultApp)];
+    return {
+      type: 'submenu',
+      label: 'Open with',
+      disabled: !openApp,
+      items: [
+        ...apps.map<ContextMenuItem>(app => ({
+          type: 'item',
+          label: app === defaultApp ? `${app.name} (default)` : app.name,
+          onClick: () => openApp && openFileWith(item, app, openApp),
+        })),
+        { type: 'separator' },
+        { type: 'item', label: 'Choose another app...', onClick: onChooseOther },
+      ],
+    };
+  }, [openApp, defaultApps]);
+
+  const getIcon = useCallback((item: FilesystemItem, className: string) => getItemIcon(item, className, defaultApps), [defaultApps]);
+
+  return { defaultApps, openFile, openWithMenu, getIcon };
+};
@@ -0,0 +1,34 @@
+// Display helpers for file metadata, shared by File Explorer, the Recycle Bin and dialogs
+
+export const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let size = bytes / 1024;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  return `${size.toFixed(size < 10 ? 1 : 0)} ${units[unitIndex]}`;
+};
+
+export const formatDate = (isoDate: string | undefined): string =>
+  isoDate ? new Date(isoDate).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }) : '';
+
+// 0o755 -> 'rwxr-xr-x'
+export const formatMode = (mode: number): string => {
+  const symbols = ['r', 'w', 'x'];
+  let result = '';
+  for (let bit = 8; bit >= 0; bit--) {
+    result += mode & (1 << bit) ? symbols[(8 - bit) % 3] : '-';
+  }
+  return result;
+};
+
+/** A short description of what kind of file an item is, e.g. 'Folder', 'PNG file'. */
+export const describeItemType = (item: { name: string; type: 'file' | 'folder' }): string => {
+  if (item.type === 'folder') return 'Folder';
+  if (item.name.endsWith('.app')) return 'App shortcut';
+  const dotIndex = item.name.lastIndexOf('.');
+  return dotIndex > 0 ? `${item.name.substring(dotIndex + 1).toUpperCase()} file` : 'File';
+};
@@ -0,0 +1,64 @@
+// Line-by-line comparison of two texts, used by Version history
+
+export interface DiffLine {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+  oldLine?: number; // 1-based line number in the old text, for 'same' and 'removed' lines
+  newLine?: number; // 1-based line number in the new text, for 'same' and 'added' lines
+}
+
+// The table below has one cell per pair of changed lines. Past this size it would take too much
+// memory, and the changed block is shown as removed and added as a whole instead.
+const MAX_TABLE_CELLS = 4_000_000;
+
+/** The lines of `newText` compared to `oldText`, as a longest common subsequence of lines. */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split(/\r?\n/);
+  const newLines = newText.split(/\r?\n/);
+  const result: DiffLine[] = [];
+  const same = (oldIndex: number, newIndex: number) => result.push({ type: 'same', text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  const removed = (oldIndex: number) => result.push({ type: 'removed', text: oldLines[oldIndex], oldLine: oldIndex + 1 });
+  const added = (newIndex: number) => result.push({ type: 'added', text: newLines[newIndex], newLine: newIndex + 1 });
+
+  // Versions usually differ in a few places; the unchanged start and end need no table
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  for (let i = 0; i < start; i++) same(i, i);
+  const rows = oldEnd - start;
+  const columns = newEnd - start;
+  if (rows * columns > MAX_TABLE_CELLS) {
+    for (let i = start; i < oldEnd; i++) removed(i);
+    for (let j = start; j < newEnd; j++) added(j);
+  } else {
+    // lengths[i * width + j]: how many lines the changed parts have in common from old line i and new line j on
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldLines[start + i] === newLines[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && oldLines[start + i] === newLines[start + j]) {
+        same(start + i++, start + j++);
+      } else if (i < rows && (j === columns || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        removed(start + i++);
+      } else {
+        added(start + j++);
+      }
+    }
+  }
+  for (let i = oldEnd, j = newEnd; i < oldLines.length; i++, j++) same(i, j);
+  return result;
+};
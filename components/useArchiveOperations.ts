@@ -0,0 +1,85 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { FilesystemItem } from '../types';
+import * as FsService from '../services/filesystemService';
+import { ContextMenuItem } from './ContextMenu';
+
+export interface ArchiveOperationState {
+  label: string; // 'Compressing' or 'Extracting'
+  progress: FsService.ArchiveProgress;
+}
+
+const getParentPath = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+
+// The zip file itself, for paths that may point inside one
+const getArchiveFilePath = (path: string) => FsService.getArchiveLocation(path)?.archivePath || path;
+
+const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+/**
+ * Runs zip compress and extract operations one at a time, reporting failures to the user.
+ * `operation` is set while one runs; `cancel` stops it. `menuItems` returns the matching
+ * "Compress to ZIP" / "Extract here" / "Extract to..." entries for a context menu.
+ */
+export const useArchiveOperations = () => {
+  const [operation, setOperation] = useState<ArchiveOperationState | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Closing the window stops whatever is still running
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const run = useCallback(async <T>(
+    label: string,
+    task: (onProgress: (progress: FsService.ArchiveProgress) => void, signal: AbortSignal) => Promise<T>,
+  ): Promise<T | null> => {
+    if (abortControllerRef.current) {
+      alert('Another archive operation is still running. Wait for it to finish or cancel it first.');
+      return null;
+    }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setOperation({ label, progress: { currentFile: '', fileIndex: 0, fileCount: 0, processedBytes: 0, totalBytes: 0 } });
+    try {
+      return await task(progress => setOperation({ label, progress }), abortController.signal);
+    } catch (e) {
+      if (!isAbortError(e)) alert(`${label} failed: ${(e as Error).message}`);
+      return null;
+    } finally {
+      abortControllerRef.current = null;
+      setOperation(null);
+    }
+  }, []);
+
+  const compress = useCallback((items: FilesystemItem[], destinationPath?: string) =>
+    run('Compressing', (onProgress, signal) => FsService.compressItems(items, destinationPath, onProgress, signal)), [run]);
+
+  const extract = useCallback((path: string, options?: FsService.ExtractOptions) =>
+    run('Extracting', (onProgress, signal) => FsService.extractArchive(path, options, onProgress, signal)), [run]);
+
+  // Asks where to extract to; there is no folder picker, so the destination is typed in
+  const extractTo = useCallback((path: string, options: FsService.ExtractOptions = {}) => {
+    const destinationPath = window.prompt('Extract to folder:', options.destinationPath || getParentPath(getArchiveFilePath(path)));
+    if (!destinationPath) return Promise.resolve(null);
+    return extract(path, { ...options, destinationPath: '/' + destinationPath.split('/').filter(Boolean).join('/') });
+  }, [extract]);
+
+  const cancel = useCallback(() => abortControllerRef.current?.abort(), []);
+
+  // Empty when nothing applies; otherwise ends with a separator
+  const menuItems = useCallback((targets: FilesystemItem[]): ContextMenuItem[] => {
+    if (targets.length === 0) return [];
+    const isBusy = operation !== null;
+    const items: ContextMenuItem[] = [];
+    if (targets.length === 1 && targets[0].type === 'file' && FsService.isArchiveFile(targets[0].name)) {
+      const { path } = targets[0];
+      items.push(
+        { type: 'item', label: 'Extract here', onClick: () => extract(path), disabled: isBusy },
+        { type: 'item', label: 'Extract to...', onClick: () => extractTo(path), disabled: isBusy },
+      );
+    }
+    items.push({ type: 'item', label: 'Compress to ZIP', onClick: () => compress(targets), disabled: isBusy });
+    items.push({ type: 'separator' });
+    return items;
+  }, [compress, extract, extractTo, operation]);
+
+  return { operation, compress, extract, extractTo, cancel, menuItems };
+};
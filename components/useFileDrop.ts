@@ -0,0 +1,67 @@
+import React, { useState, useRef, useCallback } from 'react';
+import * as FsService from '../services/filesystemService';
+
+const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+/**
+ * Accepts files dragged in from the user's machine and uploads them into `destinationPath`.
+ * Spread `dropHandlers` on the drop target; `isDraggingOver` is true while files hover over it
+ * and `progress` is set while an upload runs.
+ */
+export const useFileDrop = (destinationPath: string) => {
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [progress, setProgress] = useState<FsService.UploadProgress | null>(null);
+  // dragenter/dragleave also fire for every child element, so count them to know when the drag really left
+  const dragDepthRef = useRef(0);
+
+  const onDragEnter = useCallback((e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingOver(true);
+  }, []);
+
+  const onDragOver = useCallback((e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  }, []);
+
+  const onDragLeave = useCallback((e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingOver(false);
+  }, []);
+
+  const onDrop = useCallback(async (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingOver(false);
+
+    // Dropped folders show up as empty files; only plain files are uploaded
+    const files: File[] = [];
+    let skippedFolders = 0;
+    Array.from(e.dataTransfer.items).forEach(item => {
+      if (item.kind !== 'file') return;
+      if (item.webkitGetAsEntry()?.isDirectory) {
+        skippedFolders++;
+        return;
+      }
+      const file = item.getAsFile();
+      if (file) files.push(file);
+    });
+    if (skippedFolders > 0) alert(`Folders can't be uploaded; ${skippedFolders} folder(s) were skipped.`);
+    if (files.length === 0) return;
+
+    const results = await FsService.uploadFiles(files, destinationPath, setProgress);
+    setProgress(null);
+    const failureMessage = FsService.describeBatchFailures(
+      results.map(result => ({ path: result.fileName, success: result.success, error: result.error })),
+      'upload',
+    );
+    if (failureMessage) alert(failureMessage);
+  }, [destinationPath]);
+
+  return { isDraggingOver, progress, dropHandlers: { onDragEnter, onDragOver, onDragLeave, onDrop } };
+};
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface SelectionRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Attribute that marks the elements a rubber band can select; its value is the item id
+export const SELECTABLE_ID_ATTRIBUTE = 'data-selectable-id';
+
+// Mouse movement (in px) before a press on the background becomes a rubber band
+const RUBBER_BAND_THRESHOLD = 4;
+
+const rectsIntersect = (a: DOMRect, b: { left: number; top: number; right: number; bottom: number }) =>
+  a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
+
+/**
+ * Explorer-style selection for a list of items: click selects one item, Ctrl/Cmd-click
+ * toggles, Shift-click selects a range, and dragging on the background of `containerRef`
+ * draws a rubber band. `orderedIds` is the display order, used for Shift ranges.
+ */
+export const useItemSelection = (orderedIds: string[], containerRef: React.RefObject<HTMLElement>) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [rubberBandRect, setRubberBandRect] = useState<SelectionRect | null>(null);
+  const anchorIdRef = useRef<string | null>(null);
+  const orderedIdsRef = useRef(orderedIds);
+  orderedIdsRef.current = orderedIds;
+
+  // Drop items that disappeared (deleted, renamed, moved away) from the selection
+  const orderedIdsKey = orderedIds.join('\n');
+  useEffect(() => {
+    const existingIds = new Set(orderedIdsRef.current);
+    setSelectedIds(prev => {
+      const next = new Set([...prev].filter(id => existingIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [orderedIdsKey]);
+
+  const isSelected = useCallback((id: string) => selectedIds.has(id), [selectedIds]);
+
+  const selectOnly = useCallback((id: string) => {
+    anchorIdRef.current = id;
+    setSelectedIds(new Set([id]));
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    anchorIdRef.current = null;
+    setSelectedIds(prev => prev.size === 0 ? prev : new Set());
+  }, []);
+
+  const selectAll = useCallback(() => setSelectedIds(new Set(orderedIdsRef.current)), []);
+
+  /** Updates the selection for a click on an item, honouring Ctrl/Cmd and Shift. */
+  const selectWithModifiers = useCallback((id: string, e: { ctrlKey: boolean; metaKey: boolean; shiftKey: boolean }) => {
+    const isToggle = e.ctrlKey || e.metaKey;
+    const ids = orderedIdsRef.current;
+    if (e.shiftKey && anchorIdRef.current && ids.includes(anchorIdRef.current)) {
+      const anchorIndex = ids.indexOf(anchorIdRef.current);
+      const index = ids.indexOf(id);
+      const range = ids.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      setSelectedIds(prev => new Set(isToggle ? [...prev, ...range] : range));
+      return;
+    }
+    anchorIdRef.current = id;
+    if (isToggle) {
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+      });
+    } else {
+      setSelectedIds(new Set([id]));
+    }
+  }, []);
+
+  /**
+   * Starts a rubber band from a mouse press on the container background. Without Ctrl/Cmd
+   * the current selection is replaced; with it, the band adds to the selection.
+   */
+  const startRubberBand = useCallback((e: React.MouseEvent) => {
+    const container = containerRef.current;
+    if (e.button !== 0 || !container) return;
+    const isAdditive = e.ctrlKey || e.metaKey;
+    const baseSelection = isAdditive ? new Set(selectedIds) : new Set<string>();
+    if (!isAdditive) clearSelection();
+    const origin = { x: e.clientX, y: e.clientY };
+    let isDragging = false;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const dx = moveEvent.clientX - origin.x;
+      const dy = moveEvent.clientY - origin.y;
+      if (!isDragging && Math.hypot(dx, dy) < RUBBER_BAND_THRESHOLD) return;
+      isDragging = true;
+
+      const band = {
+        left: Math.min(origin.x, moveEvent.clientX),
+        top: Math.min(origin.y, moveEvent.clientY),
+        right: Math.max(origin.x, moveEvent.clientX),
+        bottom: Math.max(origin.y, moveEvent.clientY),
+      };
+      const containerBounds = container.getBoundingClientRect();
+      setRubberBandRect({
+        left: band.left - containerBounds.left + container.scrollLeft,
+        top: band.top - containerBounds.top + container.scrollTop,
+        width: band.right - band.left,
+        height: band.bottom - band.top,
+      });
+
+      const hits = new Set(baseSelection);
+      container.querySelectorAll<HTMLElement>(`[${SELECTABLE_ID_ATTRIBUTE}]`).forEach(element => {
+        if (rectsIntersect(element.getBoundingClientRect(), band)) {
+          hits.add(element.getAttribute(SELECTABLE_ID_ATTRIBUTE)!);
+        }
+      });
+      setSelectedIds(hits);
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      setRubberBandRect(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  }, [containerRef, selectedIds, clearSelection]);
+
+  return {
+    selectedIds,
+    isSelected,
+    selectOnly,
+    selectWithModifiers,
+    selectAll,
+    clearSelection,
+    startRubberBand,
+    rubberBandRect,
+  };
+};
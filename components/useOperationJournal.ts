@@ -0,0 +1,32 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import * as Journal from '../services/operationJournal';
+import { ContextMenuItem } from './ContextMenu';
+
+/**
+ * The undo/redo state of the shared operation journal, with `undo`/`redo` actions that report
+ * failures to the user and the matching "Undo rename of ..." entries for a context menu.
+ */
+export const useOperationJournal = () => {
+  const { undoLabel, redoLabel } = useSyncExternalStore(Journal.subscribe, Journal.getState);
+
+  const undo = useCallback(async () => {
+    const error = await Journal.undo();
+    if (error) alert(error);
+  }, []);
+
+  const redo = useCallback(async () => {
+    const error = await Journal.redo();
+    if (error) alert(error);
+  }, []);
+
+  // Empty when there is nothing to undo or redo; otherwise ends with a separator
+  const menuItems = useMemo<ContextMenuItem[]>(() => {
+    const items: ContextMenuItem[] = [];
+    if (undoLabel) items.push({ type: 'item', label: undoLabel, onClick: undo });
+    if (redoLabel) items.push({ type: 'item', label: redoLabel, onClick: redo });
+    if (items.length > 0) items.push({ type: 'separator' });
+    return items;
+  }, [undoLabel, redoLabel, undo, redo]);
+
+  return { undoLabel, redoLabel, undo, redo, menuItems };
+};
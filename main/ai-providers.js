@@ -0,0 +1,141 @@
+const { GoogleGenAI } = require('@google/genai');
+
+/**
+ * @typedef {Object} GenerateRequest
+ * @property {string} model - Model name, e.g. 'gemini-2.5-flash'.
+ * @property {string | Object[]} contents - A prompt string or a list of `{ role, parts }` turns.
+ * @property {Object} [config] - Generation config (systemInstruction, temperature, ...).
+ */
+
+/**
+ * A tool call requested by the model when `config.tools` declares functions.
+ * @typedef {Object} FunctionCall
+ * @property {string} [id]
+ * @property {string} name
+ * @property {Object} args
+ * @property {string} [thoughtSignature] - Must be sent back with the call in the next request.
+ */
+
+/**
+ * @typedef {Object} GenerateResult
+ * @property {string} text
+ * @property {FunctionCall[]} [functionCalls]
+ */
+
+/**
+ * A backend able to serve generation requests. The Gemini provider is used in
+ * production; the HTTP provider lets tests point the API at a local mock model server.
+ * @typedef {Object} AiProvider
+ * @property {string} name
+ * @property {(request: GenerateRequest) => Promise<GenerateResult>} generate
+ * @property {(request: GenerateRequest, signal?: AbortSignal) => AsyncIterable<GenerateResult>} generateStream
+ */
+
+// Reads function calls from the response parts rather than `response.functionCalls`,
+// which drops the thought signatures the model expects to get back.
+const getFunctionCalls = (response) => {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    const calls = parts
+        .filter(part => part.functionCall)
+        .map(part => ({ ...part.functionCall, ...(part.thoughtSignature && { thoughtSignature: part.thoughtSignature }) }));
+    return calls.length > 0 ? calls : undefined;
+};
+
+const toResult = (text, functionCalls) => (functionCalls ? { text, functionCalls } : { text });
+
+/**
+ * @param {string} apiKey
+ * @returns {AiProvider}
+ */
+function createGeminiProvider(apiKey) {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        name: 'gemini',
+        async generate({ model, contents, config }) {
+            const response = await ai.models.generateContent({ model, contents, config });
+            return toResult(response.text || '', getFunctionCalls(response));
+        },
+        async *generateStream({ model, contents, config }, signal) {
+            const stream = await ai.models.generateContentStream({ model, contents, config: { ...config, abortSignal: signal } });
+            for await (const chunk of stream) {
+                yield toResult(chunk.text || '', getFunctionCalls(chunk));
+            }
+        },
+    };
+}
+
+/**
+ * Forwards requests to a server speaking the same protocol as `/api/ai`:
+ * `POST {baseUrl}/generate` returns `{ text, functionCalls? }`, and `POST {baseUrl}/generate-stream`
+ * returns newline-delimited JSON `{ text, functionCalls? }` chunks. Either may answer `{ error }` instead.
+ * @param {string} baseUrl
+ * @returns {AiProvider}
+ */
+function createHttpProvider(baseUrl) {
+    const post = async (endpoint, body, signal) => {
+        const response = await fetch(`${baseUrl}${endpoint}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw new Error(`Model server responded with ${response.status} ${response.statusText}`);
+        }
+        return response;
+    };
+
+    return {
+        name: 'http',
+        async generate(request) {
+            const response = await post('/generate', request);
+            const result = await response.json();
+            if (result.error) throw new Error(`Model server error: ${result.error}`);
+            return toResult(result.text || '', result.functionCalls);
+        },
+        async *generateStream(request, signal) {
+            const response = await post('/generate-stream', request, signal);
+            // An `{ error }` line means the model failed mid-reply; it is thrown like a Gemini error
+            const parseLine = (line) => {
+                const data = JSON.parse(line);
+                if (data.error) throw new Error(`Model server error: ${data.error}`);
+                return data.text || data.functionCalls ? toResult(data.text || '', data.functionCalls) : null;
+            };
+            const decoder = new TextDecoder();
+            let buffer = '';
+            for await (const chunk of response.body) {
+                buffer += decoder.decode(chunk, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop();
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+                    const result = parseLine(line);
+                    if (result) yield result;
+                }
+            }
+            const result = buffer.trim() ? parseLine(buffer) : null;
+            if (result) yield result;
+        },
+    };
+}
+
+/**
+ * Picks the provider from the environment:
+ * - `AI_PROVIDER=http` with `AI_PROVIDER_URL` (defaults to http://localhost:3010) for a mock/local model server.
+ * - Otherwise Gemini, using `API_KEY`. Returns null if no key is configured.
+ * @returns {AiProvider | null}
+ */
+function createAiProvider() {
+    if (process.env.AI_PROVIDER === 'http') {
+        const baseUrl = process.env.AI_PROVIDER_URL || 'http://localhost:3010';
+        console.log(`[AI] Using HTTP model provider at ${baseUrl}`);
+        return createHttpProvider(baseUrl);
+    }
+    if (!process.env.API_KEY) {
+        console.warn('[AI] API_KEY is not set. AI features will be disabled.');
+        return null;
+    }
+    return createGeminiProvider(process.env.API_KEY);
+}
+
+module.exports = { createAiProvider, createGeminiProvider, createHttpProvider };
@@ -0,0 +1,63 @@
+const express = require('express');
+const { createAiProvider } = require('./ai-providers');
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const router = express.Router();
+let provider;
+
+// The provider is created on first use so that dotenv has loaded API_KEY by then
+const getProvider = () => {
+    if (provider === undefined) provider = createAiProvider();
+    return provider;
+};
+
+const NOT_CONFIGURED_ERROR = 'Gemini API is not configured. Please ensure the API_KEY environment variable is set on the server.';
+
+const parseRequest = (body) => {
+    const { model, contents, config } = body || {};
+    if (!contents || (typeof contents !== 'string' && !Array.isArray(contents))) return null;
+    return { model: model || DEFAULT_MODEL, contents, config };
+};
+
+router.post('/generate', async (req, res) => {
+    const ai = getProvider();
+    if (!ai) return res.status(503).json({ error: NOT_CONFIGURED_ERROR });
+    const request = parseRequest(req.body);
+    if (!request) return res.status(400).json({ error: 'Missing contents in request body' });
+    try {
+        const result = await ai.generate(request);
+        res.json(result);
+    } catch (error) {
+        console.error('API Error generating AI response:', error);
+        res.status(502).json({ error: `Error from Gemini: ${error.message}` });
+    }
+});
+
+// Streams newline-delimited JSON: `{ text, functionCalls? }` per chunk, then `{ done: true }` or `{ error }`
+router.post('/generate-stream', async (req, res) => {
+    const ai = getProvider();
+    if (!ai) return res.status(503).json({ error: NOT_CONFIGURED_ERROR });
+    const request = parseRequest(req.body);
+    if (!request) return res.status(400).json({ error: 'Missing contents in request body' });
+
+    // Stop generating as soon as the client goes away (e.g. the user pressed Stop)
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    try {
+        for await (const chunk of ai.generateStream(request, abortController.signal)) {
+            if (abortController.signal.aborted) break;
+            res.write(JSON.stringify(chunk) + '\n');
+        }
+        if (!abortController.signal.aborted) res.end(JSON.stringify({ done: true }) + '\n');
+    } catch (error) {
+        if (abortController.signal.aborted) return;
+        console.error('API Error streaming AI response:', error);
+        res.end(JSON.stringify({ error: `Error from Gemini: ${error.message}` }) + '\n');
+    }
+});
+
+module.exports = router;
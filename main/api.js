@@ -2,6 +2,14 @@ const express = require('express');
 const cors = require('cors');
 const os = require('os');
 const fsRouter = require('./filesystem');
+const sessionRouter = require('./session');
+const fileAssociationsRouter = require('./file-associations');
+const aiRouter = require('./ai');
+const { router: recycleBinRouter } = require('./recycle-bin');
+const { router: fileHistoryRouter } = require('./file-history');
+const { router: searchIndexRouter } = require('./search-index');
+const { router: archiveRouter } = require('./archive');
+const { router: authRouter, requireAuth } = require('./auth');
 const { launchExternalAppByPath } = require('./launcher');
 const { API_PORT } = require('./constants');
 
@@ -10,10 +18,11 @@ function startApiServer() {
     apiApp.use(cors());
     apiApp.use(express.json({ limit: '50mb' }));
 
-    // API endpoint to provide the API key
-    apiApp.get('/api/get-key', (req, res) => {
-        res.json({ apiKey: process.env.API_KEY });
-    });
+    // Login/logout are the only routes reachable without a token
+    apiApp.use('/api/auth', authRouter);
+
+    // Every other API route requires an authenticated user
+    apiApp.use('/api', requireAuth);
 
     apiApp.get('/api/os-user', (req, res) => {
         try {
@@ -43,9 +52,30 @@ function startApiServer() {
     // All filesystem APIs are prefixed with /api/fs
     apiApp.use('/api/fs', fsRouter);
 
+    // Deleted items, kept until restored, purged or expired
+    apiApp.use('/api/recycle-bin', recycleBinRouter);
+
+    // Earlier versions of saved files, for Version history in Notebook and File Explorer
+    apiApp.use('/api/file-history', fileHistoryRouter);
+
+    // Zip compression, extraction and browsing
+    apiApp.use('/api/archive', archiveRouter);
+
+    // Instant search over the background index (Start Menu)
+    apiApp.use('/api/search', searchIndexRouter);
+
+    // AI generation is proxied so the API key never leaves the server
+    apiApp.use('/api/ai', aiRouter);
+
+    // Desktop session (open windows, layout) persistence, stored per user
+    apiApp.use('/api/session', sessionRouter);
+
+    // Default app per file type, stored per user
+    apiApp.use('/api/file-associations', fileAssociationsRouter);
+
     apiApp.listen(API_PORT, () => {
         console.log(`✅ API server listening on http://localhost:${API_PORT}`);
     });
 }
 
-module.exports = { startApiServer };
\ No newline at end of file
+module.exports = { startApiServer };
@@ -0,0 +1,364 @@
+const express = require('express');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { Transform } = require('stream');
+const { pipeline } = require('stream/promises');
+const mime = require('mime-types');
+const yazl = require('yazl');
+const yauzl = require('yauzl');
+const { UPLOADS_DIR } = require('./constants');
+const { findMount, resolvePath, toRelativePath, movePath, toFilesystemItem, findUniqueName } = require('./utils');
+const { isHiddenPath, isWriteProtectedPath } = require('./path-policy');
+
+const router = express.Router();
+
+// Progress is reported at most this often, plus once per file
+const PROGRESS_INTERVAL_MS = 200;
+// Largest entry that `/read` returns as text
+const MAX_READ_ENTRY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * @typedef {Object} ArchiveProgress
+ * @property {number} processedBytes - Uncompressed bytes handled so far.
+ * @property {number} totalBytes
+ * @property {string} currentFile - Name of the file being compressed or extracted.
+ * @property {number} fileIndex - 0-based index of that file.
+ * @property {number} fileCount
+ */
+
+/**
+ * Splits a path that points into a zip file, e.g. '/Downloads/photos.zip/2024/a.jpg', into the
+ * archive's path and the path inside it ('2024/a.jpg', '' for the archive's root). Returns null
+ * when no segment of the path is an existing .zip file.
+ */
+function resolveArchivePath(relativePath) {
+    const segments = relativePath.split('/').filter(Boolean);
+    for (let i = 0; i < segments.length; i++) {
+        if (!segments[i].toLowerCase().endsWith('.zip')) continue;
+        const archivePath = '/' + segments.slice(0, i + 1).join('/');
+        try {
+            if (fs.statSync(resolvePath(archivePath)).isFile()) {
+                return { archivePath, innerPath: segments.slice(i + 1).join('/') };
+            }
+        } catch (error) { /* not there; keep looking */ }
+    }
+    return null;
+}
+
+const isDirectoryEntry = (entry) => entry.fileName.endsWith('/');
+
+// Reads the central directory of a zip. Entry names are validated by yauzl (no absolute paths or '..').
+const readEntries = async (archivePath) => {
+    const zipfile = await yauzl.openPromise(resolvePath(archivePath), { autoClose: false });
+    const entries = [];
+    try {
+        for await (const entry of zipfile.eachEntry()) entries.push(entry);
+    } catch (error) {
+        zipfile.close();
+        throw error;
+    }
+    return { zipfile, entries };
+};
+
+/**
+ * Lists the items directly inside `innerPath` of an archive, shaped like `/api/fs/list` items.
+ * Folders that only exist implicitly (as the prefix of a file's name) are listed too.
+ */
+const listArchiveFolder = (archivePath, innerPath, entries) => {
+    const prefix = innerPath ? innerPath.replace(/\/$/, '') + '/' : '';
+    const items = new Map();
+    entries.forEach(entry => {
+        if (!entry.fileName.startsWith(prefix) || entry.fileName === prefix) return;
+        const rest = entry.fileName.substring(prefix.length);
+        const [name, ...below] = rest.split('/');
+        const isFolder = below.length > 0;
+        const itemPath = `${archivePath}/${prefix}${name}`;
+        if (isFolder) {
+            if (!items.has(name)) items.set(name, { name, path: itemPath, type: 'folder' });
+            // The folder's own entry carries its date
+            if (below.length === 1 && below[0] === '') items.get(name).mtime = entry.getLastModDate().toISOString();
+            return;
+        }
+        items.set(name, {
+            name,
+            path: itemPath,
+            type: 'file',
+            size: entry.uncompressedSize,
+            mtime: entry.getLastModDate().toISOString(),
+            mimeType: mime.lookup(name) || 'application/octet-stream',
+        });
+    });
+    return [...items.values()];
+};
+
+/**
+ * Starts a newline-delimited JSON response for a long-running operation. Returns a reporter that
+ * throttles `{ progress }` lines, and an AbortSignal that fires when the client disconnects.
+ */
+const startProgressStream = (res) => {
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    let lastReportAt = 0;
+    let lastFileIndex = -1;
+    const report = (progress) => {
+        const now = Date.now();
+        if (progress.fileIndex === lastFileIndex && now - lastReportAt < PROGRESS_INTERVAL_MS) return;
+        lastReportAt = now;
+        lastFileIndex = progress.fileIndex;
+        res.write(JSON.stringify({ progress }) + '\n');
+    };
+    return { report, signal: abortController.signal };
+};
+
+// Passes data through unchanged, counting the bytes
+const createByteCounter = (onBytes) => new Transform({
+    transform(chunk, encoding, callback) {
+        onBytes(chunk.length);
+        callback(null, chunk);
+    },
+});
+
+// Collects the files and folders to put in a zip, with their names inside it. Every item goes through
+// the path policy like a path sent by a client, so hidden items and links leading out of the allowed
+// folders are left out.
+const collectSources = async (virtualPath, zipPath, sources) => {
+    const absolutePath = resolvePath(virtualPath);
+    const linkStats = await fs.promises.lstat(absolutePath);
+    const stats = linkStats.isSymbolicLink() ? await fs.promises.stat(absolutePath) : linkStats;
+    if (stats.isDirectory()) {
+        sources.push({ absolutePath, zipPath, stats, isFolder: true });
+        // A linked folder is added empty: following it could lead back into a folder being zipped
+        if (linkStats.isSymbolicLink()) return;
+        for (const name of (await fs.promises.readdir(absolutePath)).sort()) {
+            await collectSources(path.posix.join(virtualPath, name), `${zipPath}/${name}`, sources).catch(() => {
+                // Refused, broken and unreadable items are left out
+            });
+        }
+    } else {
+        sources.push({ absolutePath, zipPath, stats, isFolder: false });
+    }
+};
+
+// The name an item gets in a zip. The root folder has none, so it is named after its drive ('Project').
+const getItemName = (itemPath) => path.posix.basename(itemPath) || findMount('/').label;
+
+/**
+ * Zips files and folders into a new archive. The zip is written to a temporary file and only
+ * moved into place when complete. Body: `{ paths, destinationPath?, name? }`; `destinationPath`
+ * defaults to the folder of the first item and `name` to '<item>.zip' or 'Archive.zip'.
+ * Streams `{ progress }` lines, then `{ done: true, item }` or `{ error }`.
+ */
+router.post('/compress', async (req, res) => {
+    const { paths, name } = req.body || {};
+    if (!Array.isArray(paths) || paths.length === 0) return res.status(400).json({ error: 'Missing paths in request body' });
+    const destinationPath = req.body.destinationPath || path.posix.dirname(paths[0]);
+
+    const sources = [];
+    let destDir;
+    try {
+        destDir = resolvePath(destinationPath, 'write');
+        for (const itemPath of paths) await collectSources(itemPath, getItemName(itemPath), sources);
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        const status = error.code === 'ENOENT' ? 404 : 500;
+        if (status === 500) console.error('API Error preparing zip:', error);
+        return res.status(status).json({ error: status === 404 ? 'An item to compress no longer exists' : 'Failed to read the items to compress' });
+    }
+
+    const { report, signal } = startProgressStream(res);
+    const files = sources.filter(source => !source.isFolder);
+    const progress = { processedBytes: 0, totalBytes: files.reduce((sum, file) => sum + file.stats.size, 0), currentFile: '', fileIndex: 0, fileCount: files.length };
+    const tempPath = path.join(UPLOADS_DIR, `compress-${crypto.randomUUID()}.zip`);
+    try {
+        await fs.promises.mkdir(UPLOADS_DIR, { recursive: true });
+        const zipfile = new yazl.ZipFile();
+        // A file that can't be read fails the whole archive
+        zipfile.on('error', error => zipfile.outputStream.destroy(error));
+        let fileIndex = 0;
+        sources.forEach(source => {
+            const options = { mtime: source.stats.mtime, mode: source.stats.mode };
+            if (source.isFolder) return zipfile.addEmptyDirectory(source.zipPath, options);
+            const index = fileIndex++;
+            zipfile.addReadStreamLazy(source.zipPath, options, (callback) => {
+                Object.assign(progress, { currentFile: path.basename(source.zipPath), fileIndex: index });
+                report({ ...progress });
+                const counter = createByteCounter(bytes => {
+                    progress.processedBytes += bytes;
+                    report({ ...progress });
+                });
+                callback(null, fs.createReadStream(source.absolutePath).on('error', error => counter.destroy(error)).pipe(counter));
+            });
+        });
+        zipfile.end();
+        await pipeline(zipfile.outputStream, fs.createWriteStream(tempPath), { signal });
+
+        const archiveName = name || (paths.length === 1 ? getItemName(paths[0]) : 'Archive');
+        const baseName = archiveName.replace(/\.zip$/i, '');
+        const finalPath = path.join(destDir, findUniqueName(destDir, baseName, '.zip'));
+        await movePath(tempPath, finalPath);
+        const item = await toFilesystemItem(toRelativePath(finalPath), await fs.promises.stat(finalPath));
+        res.end(JSON.stringify({ done: true, item }) + '\n');
+    } catch (error) {
+        await fs.promises.rm(tempPath, { force: true });
+        if (signal.aborted) return;
+        console.error('API Error creating zip:', error);
+        res.end(JSON.stringify({ error: 'Failed to create the zip file' }) + '\n');
+    }
+});
+
+/**
+ * Extracts an archive, or some of its entries, into a folder. Body:
+ * `{ path, destinationPath?, entries?, createFolder? }`. `entries` are paths inside the archive
+ * (files or folders) and default to everything. With `createFolder` (the default when extracting
+ * everything) the items go into a new folder named after the archive. Items are unpacked into a
+ * temporary folder first and moved into place at the end; names already taken get " (1)" etc.
+ * Entries the path policy refuses at their destination, like a `.env` file, are skipped.
+ * Streams `{ progress }` lines, then `{ done: true, paths, skipped }` (the top-level items created
+ * and the number of entries skipped) or `{ error }`.
+ */
+router.post('/extract', async (req, res) => {
+    const { path: archivePath, entries: selectedEntries } = req.body || {};
+    if (!archivePath) return res.status(400).json({ error: 'Missing path in request body' });
+    const createFolder = req.body.createFolder ?? !selectedEntries;
+    const destinationPath = req.body.destinationPath || path.posix.dirname(archivePath);
+
+    let zipfile;
+    let entries;
+    let destDir;
+    try {
+        destDir = resolvePath(destinationPath, 'write');
+        ({ zipfile, entries } = await readEntries(archivePath));
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        if (error.code === 'ENOENT') return res.status(404).json({ error: 'Archive not found' });
+        return res.status(400).json({ error: `Not a readable zip file: ${error.message}` });
+    }
+
+    // Selecting a folder selects everything inside it; the selected item keeps its name, so the
+    // part of the entry name above it is dropped
+    const selections = (selectedEntries || ['']).map(entry => entry.replace(/\/$/, ''));
+    const findSelection = (fileName) => selections.find(selection => !selection || fileName === selection || fileName.startsWith(selection + '/'));
+    const toTargetName = (fileName, selection) => {
+        const parent = selection.includes('/') ? selection.substring(0, selection.lastIndexOf('/') + 1) : '';
+        return fileName.substring(parent.length);
+    };
+    const selectedItems = entries
+        .map(entry => ({ entry, selection: findSelection(entry.fileName.replace(/\/$/, '')) }))
+        .filter(({ selection }) => selection !== undefined)
+        .map(({ entry, selection }) => ({ entry, targetName: toTargetName(entry.fileName, selection) }))
+        .filter(({ targetName }) => targetName);
+    if (selectedItems.length === 0) {
+        zipfile.close();
+        return res.status(404).json({ error: 'Nothing to extract' });
+    }
+    // Checked by the path each entry will have once extracted
+    const destVirtualPath = toRelativePath(destDir);
+    const archiveFolderName = path.posix.basename(archivePath).replace(/\.zip$/i, '');
+    const isRefused = (targetName) => {
+        const targetPath = path.posix.join(destVirtualPath, createFolder ? archiveFolderName : '', targetName.replace(/\/$/, ''));
+        return isHiddenPath(targetPath) || isWriteProtectedPath(targetPath);
+    };
+    const toExtract = selectedItems.filter(({ targetName }) => !isRefused(targetName));
+    if (toExtract.length === 0) {
+        zipfile.close();
+        return res.status(403).json({ error: 'The selected items are hidden or write-protected at the destination' });
+    }
+
+    const { report, signal } = startProgressStream(res);
+    const files = toExtract.filter(({ entry }) => !isDirectoryEntry(entry));
+    const progress = { processedBytes: 0, totalBytes: files.reduce((sum, { entry }) => sum + entry.uncompressedSize, 0), currentFile: '', fileIndex: 0, fileCount: files.length };
+    const tempDir = path.join(UPLOADS_DIR, `extract-${crypto.randomUUID()}`);
+    try {
+        let fileIndex = 0;
+        for (const { entry, targetName } of toExtract) {
+            if (signal.aborted) throw Object.assign(new Error('Cancelled'), { name: 'AbortError' });
+            const targetPath = path.join(tempDir, targetName);
+            // yauzl rejects unsafe names, but never write outside the temporary folder regardless
+            if (!targetPath.startsWith(tempDir + path.sep)) continue;
+            if (isDirectoryEntry(entry)) {
+                await fs.promises.mkdir(targetPath, { recursive: true });
+                continue;
+            }
+            Object.assign(progress, { currentFile: path.basename(targetName), fileIndex: fileIndex++ });
+            report({ ...progress });
+            await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+            const counter = createByteCounter(bytes => {
+                progress.processedBytes += bytes;
+                report({ ...progress });
+            });
+            await pipeline(await zipfile.openReadStreamPromise(entry), counter, fs.createWriteStream(targetPath), { signal });
+            await fs.promises.utimes(targetPath, new Date(), entry.getLastModDate());
+        }
+        await fs.promises.mkdir(tempDir, { recursive: true });
+
+        // Move the results into place
+        const createdPaths = [];
+        if (createFolder) {
+            const folderName = findUniqueName(destDir, archiveFolderName);
+            resolvePath(path.posix.join(destVirtualPath, folderName), 'write');
+            await movePath(tempDir, path.join(destDir, folderName));
+            createdPaths.push(toRelativePath(path.join(destDir, folderName)));
+        } else {
+            for (const name of await fs.promises.readdir(tempDir)) {
+                const isFolder = (await fs.promises.stat(path.join(tempDir, name))).isDirectory();
+                const extension = isFolder ? '' : path.extname(name);
+                const uniqueName = findUniqueName(destDir, name.substring(0, name.length - extension.length), extension);
+                resolvePath(path.posix.join(destVirtualPath, uniqueName), 'write');
+                await movePath(path.join(tempDir, name), path.join(destDir, uniqueName));
+                createdPaths.push(toRelativePath(path.join(destDir, uniqueName)));
+            }
+        }
+        res.end(JSON.stringify({ done: true, paths: createdPaths, skipped: selectedItems.length - toExtract.length }) + '\n');
+    } catch (error) {
+        if (!signal.aborted) {
+            console.error(`API Error extracting ${archivePath}:`, error);
+            res.end(JSON.stringify({ error: `Failed to extract the archive: ${error.message}` }) + '\n');
+        }
+    } finally {
+        zipfile.close();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+});
+
+// Lists a folder inside an archive: `?path=/Downloads/photos.zip/2024`
+router.get('/list', async (req, res) => {
+    const location = resolveArchivePath(req.query.path || '');
+    if (!location) return res.status(404).json({ error: 'Not inside a zip file' });
+    try {
+        const { zipfile, entries } = await readEntries(location.archivePath);
+        zipfile.close();
+        res.json(listArchiveFolder(location.archivePath, location.innerPath, entries));
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error(`API Error listing archive ${req.query.path}:`, error);
+        res.status(400).json({ error: `Not a readable zip file: ${error.message}` });
+    }
+});
+
+// Returns a file inside an archive as `{ name, path, content }`, like `/api/fs/read`
+router.get('/read', async (req, res) => {
+    const location = resolveArchivePath(req.query.path || '');
+    if (!location || !location.innerPath) return res.status(404).json({ error: 'Not a file inside a zip file' });
+    let zipfile;
+    try {
+        let entries;
+        ({ zipfile, entries } = await readEntries(location.archivePath));
+        const entry = entries.find(e => e.fileName === location.innerPath);
+        if (!entry || isDirectoryEntry(entry)) return res.status(404).json({ error: 'File not found in the archive' });
+        if (entry.uncompressedSize > MAX_READ_ENTRY_BYTES) return res.status(413).json({ error: 'The file is too large to open from the archive; extract it first' });
+        const chunks = [];
+        for await (const chunk of await zipfile.openReadStreamPromise(entry)) chunks.push(chunk);
+        res.json({ name: path.posix.basename(entry.fileName), path: req.query.path, content: Buffer.concat(chunks).toString('utf-8') });
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error(`API Error reading ${req.query.path} from archive:`, error);
+        res.status(500).json({ error: 'Failed to read the file from the archive' });
+    } finally {
+        zipfile?.close();
+    }
+});
+
+module.exports = { router, resolveArchivePath };
@@ -0,0 +1,132 @@
+const express = require('express');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const { USERS_FILE, INITIAL_PASSWORD_FILE } = require('./constants');
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours, refreshed on every authenticated request
+
+// token -> { username, expiresAt }
+const activeTokens = new Map();
+let users = [];
+
+const hashPassword = (password, salt) => crypto.scryptSync(password, salt, 64).toString('hex');
+
+const createUserRecord = (username, password) => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    return { username, salt, passwordHash: hashPassword(password, salt) };
+};
+
+/**
+ * Loads the configured users from USERS_FILE, creating it on first run.
+ * Admins may add entries as `{ "username": "...", "password": "..." }`; plaintext
+ * passwords are hashed and written back the next time the server starts.
+ * A generated first password goes to INITIAL_PASSWORD_FILE rather than the log, which may be kept.
+ */
+function initializeUsers() {
+    if (!fs.existsSync(USERS_FILE)) {
+        const username = process.env.DESKTOP_USERNAME || os.userInfo().username;
+        let password = process.env.DESKTOP_PASSWORD;
+        if (!password) {
+            password = crypto.randomBytes(9).toString('base64url');
+            fs.rmSync(INITIAL_PASSWORD_FILE, { force: true });
+            fs.writeFileSync(INITIAL_PASSWORD_FILE, `${username}\n${password}\n`, { mode: 0o600 });
+            console.log(`[Auth] No users configured. Created user '${username}'; the password is in ${INITIAL_PASSWORD_FILE}`);
+            console.log(`[Auth] Edit ${USERS_FILE} or set DESKTOP_USERNAME/DESKTOP_PASSWORD to configure users.`);
+        }
+        fs.writeFileSync(USERS_FILE, JSON.stringify({ users: [createUserRecord(username, password)] }, null, 2));
+    }
+
+    const config = JSON.parse(fs.readFileSync(USERS_FILE, 'utf-8'));
+    let needsRewrite = false;
+    users = (config.users || []).map(user => {
+        if (user.password) {
+            needsRewrite = true;
+            return createUserRecord(user.username, user.password);
+        }
+        return user;
+    });
+    if (needsRewrite) {
+        fs.writeFileSync(USERS_FILE, JSON.stringify({ users }, null, 2));
+    }
+    console.log(`[Auth] Loaded ${users.length} user(s) from ${USERS_FILE}`);
+}
+
+const verifyCredentials = (username, password) => {
+    const user = users.find(u => u.username === username);
+    if (!user || typeof password !== 'string') return false;
+    const expected = Buffer.from(user.passwordHash, 'hex');
+    const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Returns the username for a valid token, or null. Valid tokens have their expiry extended.
+ * @param {string | undefined} token
+ * @returns {string | null}
+ */
+function getUserForToken(token) {
+    if (!token) return null;
+    const entry = activeTokens.get(token);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+        activeTokens.delete(token);
+        return null;
+    }
+    entry.expiresAt = Date.now() + TOKEN_TTL_MS;
+    return entry.username;
+}
+
+// Tokens are accepted from the Authorization header, or from the query string for
+// requests the browser makes on its own (WebSockets, <img>/<video> sources, downloads).
+const getTokenFromRequest = (req) => {
+    const header = req.headers.authorization;
+    if (header && header.startsWith('Bearer ')) return header.substring(7);
+    const url = new URL(req.url, 'http://localhost');
+    return url.searchParams.get('token') || undefined;
+};
+
+function requireAuth(req, res, next) {
+    const username = getUserForToken(getTokenFromRequest(req));
+    if (!username) {
+        return res.status(401).json({ error: 'Authentication required' });
+    }
+    req.user = { username };
+    next();
+}
+
+/**
+ * `verifyClient` callback for WebSocketServer instances.
+ * Rejects upgrade requests that don't carry a valid token.
+ */
+function verifyWebSocketClient(info) {
+    const username = getUserForToken(getTokenFromRequest(info.req));
+    if (!username) return false;
+    info.req.user = { username };
+    return true;
+}
+
+const router = express.Router();
+
+router.post('/login', (req, res) => {
+    const { username, password } = req.body || {};
+    if (!verifyCredentials(username, password)) {
+        console.warn(`[Auth] Failed login attempt for '${username}'`);
+        return res.status(401).json({ error: 'Incorrect username or password' });
+    }
+    const token = crypto.randomBytes(32).toString('hex');
+    activeTokens.set(token, { username, expiresAt: Date.now() + TOKEN_TTL_MS });
+    res.json({ token, username });
+});
+
+router.post('/logout', (req, res) => {
+    const token = getTokenFromRequest(req);
+    if (token) activeTokens.delete(token);
+    res.json({ success: true });
+});
+
+router.get('/me', requireAuth, (req, res) => {
+    res.json({ username: req.user.username });
+});
+
+module.exports = { router, initializeUsers, requireAuth, verifyWebSocketClient, getUserForToken };
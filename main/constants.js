@@ -5,16 +5,95 @@ const isDev = !app.isPackaged;
 const API_PORT = 3001;
 const WS_PORT = 3002;
 const SFTP_WS_PORT = 3003;
+const FS_EVENTS_WS_PORT = 3004;
 
 // The project root is one level up from the 'main' directory
 const FS_ROOT = path.join(__dirname, '..');
 const SFTP_TEMP_DIR = path.join(FS_ROOT, 'sftp_temp');
 
+/**
+ * Parses FS_MOUNTS: comma-separated "<mount point>=<folder>[:ro|:rw]" entries, e.g.
+ * "/home=/home/alice,/data=/srv/data:ro". Mount points are top-level names; mounts are
+ * read-write unless marked ":ro".
+ */
+const parseMounts = (value = '') => value.split(',').map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const match = entry.match(/^(\/[^/=]+)=(.+?)(?::(ro|rw))?$/);
+    if (!match) {
+        console.warn(`[Mounts] Ignoring invalid FS_MOUNTS entry "${entry}"`);
+        return [];
+    }
+    const [, mountPoint, folder, mode] = match;
+    return [{ mountPoint, root: path.resolve(folder), label: mountPoint.substring(1), readOnly: mode === 'ro' }];
+});
+
+// The folders File Explorer can see, by the path they appear at. The project is always mounted at '/';
+// a mount point hides a project folder of the same name.
+const MOUNTS = [
+    { mountPoint: '/', root: FS_ROOT, label: 'Project', readOnly: false },
+    ...parseMounts(process.env.FS_MOUNTS),
+];
+
+// Path policy (main/path-policy.js). Patterns are globs; those without a '/' match a name in any
+// folder, and a pattern matching a folder covers everything inside it. FS_HIDDEN_PATHS and
+// FS_WRITE_PROTECTED_PATHS add comma-separated patterns to these.
+const splitPatterns = (value = '') => value.split(',').map(pattern => pattern.trim()).filter(Boolean);
+// Never listed or served: secrets and server state
+const HIDDEN_PATHS = ['.env', '.env.*', '/.appdata', '/.git', ...splitPatterns(process.env.FS_HIDDEN_PATHS)];
+// Can be read but not changed: the server's own code and its dependencies
+const WRITE_PROTECTED_PATHS = [
+    '/main', '/main.js', '/server.js', '/preload.js', '/package.json', '/package-lock.json', '/node_modules',
+    ...splitPatterns(process.env.FS_WRITE_PROTECTED_PATHS),
+];
+
+// Server-side state (users, desktop sessions, etc.) lives in a dot-folder under the root
+const APP_DATA_DIR = path.join(FS_ROOT, '.appdata');
+const USERS_FILE = path.join(APP_DATA_DIR, 'users.json');
+// The generated password of the first user, readable only by the server's OS user
+const INITIAL_PASSWORD_FILE = path.join(APP_DATA_DIR, 'initial-password.txt');
+const SESSIONS_DIR = path.join(APP_DATA_DIR, 'sessions');
+const RECYCLE_BIN_DIR = path.join(APP_DATA_DIR, 'recycle-bin');
+// Partially uploaded files, moved into place once the last chunk has arrived
+const UPLOADS_DIR = path.join(APP_DATA_DIR, 'uploads');
+// Names and words of every file, kept by the background indexer for Start Menu search
+const SEARCH_INDEX_FILE = path.join(APP_DATA_DIR, 'search-index.json');
+// Each user's choice of default app per file type
+const FILE_ASSOCIATIONS_DIR = path.join(APP_DATA_DIR, 'file-associations');
+// Earlier contents of files, for "Version history"
+const FILE_HISTORY_DIR = path.join(APP_DATA_DIR, 'file-history');
+
+// Deleted items are purged after this many days, or sooner (oldest first) once the bin grows past the size limit
+const RECYCLE_BIN_RETENTION_DAYS = 30;
+const RECYCLE_BIN_MAX_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Each file keeps its latest versions up to this count; the oldest versions of all files are dropped once the
+// history grows past the size limit. Files larger than FILE_HISTORY_MAX_FILE_BYTES get no history.
+const FILE_HISTORY_MAX_VERSIONS = 20;
+const FILE_HISTORY_MAX_BYTES = 1024 * 1024 * 1024;
+const FILE_HISTORY_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
 module.exports = {
     isDev,
     API_PORT,
     WS_PORT,
     SFTP_WS_PORT,
+    FS_EVENTS_WS_PORT,
     FS_ROOT,
+    MOUNTS,
+    HIDDEN_PATHS,
+    WRITE_PROTECTED_PATHS,
     SFTP_TEMP_DIR,
+    APP_DATA_DIR,
+    USERS_FILE,
+    INITIAL_PASSWORD_FILE,
+    SESSIONS_DIR,
+    RECYCLE_BIN_DIR,
+    UPLOADS_DIR,
+    SEARCH_INDEX_FILE,
+    FILE_ASSOCIATIONS_DIR,
+    FILE_HISTORY_DIR,
+    RECYCLE_BIN_RETENTION_DAYS,
+    RECYCLE_BIN_MAX_BYTES,
+    FILE_HISTORY_MAX_VERSIONS,
+    FILE_HISTORY_MAX_BYTES,
+    FILE_HISTORY_MAX_FILE_BYTES,
 };
@@ -0,0 +1,77 @@
+const express = require('express');
+const fs = require('fs');
+const path = require('path');
+const { FILE_ASSOCIATIONS_DIR } = require('./constants');
+
+const router = express.Router();
+
+// File types are extensions without the dot, e.g. 'md' or 'chat.json'
+const FILE_TYPE_PATTERN = /^[a-z0-9][a-z0-9_+-]*(\.[a-z0-9_+-]+)*$/;
+const MAX_FILE_TYPE_LENGTH = 40;
+const APP_ID_PATTERN = /^[a-zA-Z0-9_-]{1,100}$/;
+
+// Each user gets their own file; usernames are sanitized so they can't escape FILE_ASSOCIATIONS_DIR
+const getAssociationsFile = (username) => path.join(FILE_ASSOCIATIONS_DIR, `${username.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`);
+
+const readAssociations = async (username) => {
+    try {
+        return JSON.parse(await fs.promises.readFile(getAssociationsFile(username), 'utf-8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return {};
+        throw error;
+    }
+};
+
+const writeAssociations = async (username, associations) => {
+    await fs.promises.mkdir(FILE_ASSOCIATIONS_DIR, { recursive: true });
+    const associationsFile = getAssociationsFile(username);
+    const tempFile = `${associationsFile}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(associations, null, 2), 'utf-8');
+    await fs.promises.rename(tempFile, associationsFile);
+};
+
+const isValidFileType = (fileType) => fileType.length <= MAX_FILE_TYPE_LENGTH && FILE_TYPE_PATTERN.test(fileType);
+
+// Responds with the user's defaults as `{ [fileType]: appId }`; types without an entry use the first app that handles them
+router.get('/', async (req, res) => {
+    try {
+        res.json(await readAssociations(req.user.username));
+    } catch (error) {
+        console.error('API Error reading file associations:', error);
+        res.status(500).json({ error: 'Failed to read default apps' });
+    }
+});
+
+// Body: `{ appId }`. Makes that app the default for a file type
+router.put('/:fileType', async (req, res) => {
+    const { fileType } = req.params;
+    const { appId } = req.body || {};
+    if (!isValidFileType(fileType)) return res.status(400).json({ error: `Invalid file type: ${fileType}` });
+    if (typeof appId !== 'string' || !APP_ID_PATTERN.test(appId)) return res.status(400).json({ error: 'Missing or invalid appId' });
+    try {
+        const associations = await readAssociations(req.user.username);
+        associations[fileType] = appId;
+        await writeAssociations(req.user.username, associations);
+        res.json(associations);
+    } catch (error) {
+        console.error(`API Error setting the default app for .${fileType}:`, error);
+        res.status(500).json({ error: 'Failed to save the default app' });
+    }
+});
+
+// Goes back to the built-in default for a file type
+router.delete('/:fileType', async (req, res) => {
+    const { fileType } = req.params;
+    if (!isValidFileType(fileType)) return res.status(400).json({ error: `Invalid file type: ${fileType}` });
+    try {
+        const associations = await readAssociations(req.user.username);
+        delete associations[fileType];
+        await writeAssociations(req.user.username, associations);
+        res.json(associations);
+    } catch (error) {
+        console.error(`API Error resetting the default app for .${fileType}:`, error);
+        res.status(500).json({ error: 'Failed to reset the default app' });
+    }
+});
+
+module.exports = router;
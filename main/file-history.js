@@ -0,0 +1,209 @@
+const express = require('express');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { pipeline } = require('stream/promises');
+const { FILE_HISTORY_DIR, FILE_HISTORY_MAX_VERSIONS, FILE_HISTORY_MAX_BYTES, FILE_HISTORY_MAX_FILE_BYTES, UPLOADS_DIR } = require('./constants');
+const { resolvePath, toRelativePath, movePath } = require('./utils');
+
+const router = express.Router();
+
+// Versions are stored as VERSIONS_DIR/<id>; the index lists them oldest first with the file they belong to
+const VERSIONS_DIR = path.join(FILE_HISTORY_DIR, 'versions');
+const INDEX_FILE = path.join(FILE_HISTORY_DIR, 'index.json');
+
+/**
+ * @typedef {Object} FileVersion
+ * @property {string} id
+ * @property {string} path - The file the version belongs to, e.g. '/Documents/notes.txt'.
+ * @property {string} originalPath - Where the file was when the version was kept; differs from `path`
+ *   once the file has been renamed or moved.
+ * @property {number} size - Size in bytes.
+ * @property {string} hash - SHA-256 of the contents, so saving unchanged contents adds no version.
+ * @property {string} modifiedAt - ISO timestamp of when these contents were written.
+ * @property {string} savedAt - ISO timestamp of when they were replaced and kept as a version.
+ * @property {'save' | 'rename' | 'delete' | 'restore'} reason - What replaced them, or for 'rename'
+ *   what happened to the file while they were its contents.
+ */
+
+// Every read-modify-write of the index runs through this queue so concurrent saves don't lose versions
+let queue = Promise.resolve();
+const serialize = (task) => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+};
+
+const readIndex = async () => {
+    try {
+        return JSON.parse(await fs.promises.readFile(INDEX_FILE, 'utf-8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+};
+
+const writeIndex = async (entries) => {
+    await fs.promises.mkdir(FILE_HISTORY_DIR, { recursive: true });
+    const tempFile = `${INDEX_FILE}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(entries, null, 2), 'utf-8');
+    await fs.promises.rename(tempFile, INDEX_FILE);
+};
+
+const getStoredPath = (id) => path.join(VERSIONS_DIR, id);
+
+const hashFile = async (filePath) => {
+    const hash = crypto.createHash('sha256');
+    await pipeline(fs.createReadStream(filePath), hash);
+    return hash.digest('hex');
+};
+
+/**
+ * Drops each file's versions beyond FILE_HISTORY_MAX_VERSIONS, then the oldest versions of any
+ * file until the history fits within FILE_HISTORY_MAX_BYTES. Returns the entries that are kept.
+ */
+const applyLimits = async (entries) => {
+    const purgedIds = new Set();
+    const versionCounts = new Map();
+    // Newest first, so the versions over a file's limit are its oldest
+    for (const entry of [...entries].reverse()) {
+        const count = (versionCounts.get(entry.path) || 0) + 1;
+        versionCounts.set(entry.path, count);
+        if (count > FILE_HISTORY_MAX_VERSIONS) purgedIds.add(entry.id);
+    }
+    let totalSize = entries.reduce((sum, entry) => purgedIds.has(entry.id) ? sum : sum + entry.size, 0);
+    for (const entry of entries) {
+        if (totalSize <= FILE_HISTORY_MAX_BYTES) break;
+        if (purgedIds.has(entry.id)) continue;
+        purgedIds.add(entry.id);
+        totalSize -= entry.size;
+    }
+    for (const id of purgedIds) {
+        await fs.promises.rm(getStoredPath(id), { force: true });
+    }
+    return entries.filter(entry => !purgedIds.has(entry.id));
+};
+
+/**
+ * Keeps the current contents of a file as a version, before they are overwritten, renamed or deleted.
+ * Folders, missing files and files over FILE_HISTORY_MAX_FILE_BYTES are skipped. Never throws:
+ * failing to keep a version is logged and must not stop the save, rename or delete that triggered it.
+ * @param {string} relativePath - The file's path relative to the project root.
+ * @param {FileVersion['reason']} reason
+ */
+async function recordVersion(relativePath, reason) {
+    try {
+        const filePath = resolvePath(relativePath);
+        const stats = await fs.promises.stat(filePath).catch(() => null);
+        if (!stats?.isFile() || stats.size > FILE_HISTORY_MAX_FILE_BYTES) return;
+        const virtualPath = toRelativePath(filePath);
+        await serialize(async () => {
+            const entries = await readIndex();
+            const hash = await hashFile(filePath);
+            // A rename is always recorded, so the history shows the name the file had before it
+            if (reason !== 'rename' && entries.findLast(entry => entry.path === virtualPath)?.hash === hash) return;
+            const version = {
+                id: crypto.randomUUID(),
+                path: virtualPath,
+                originalPath: virtualPath,
+                size: stats.size,
+                hash,
+                modifiedAt: stats.mtime.toISOString(),
+                savedAt: new Date().toISOString(),
+                reason,
+            };
+            await fs.promises.mkdir(VERSIONS_DIR, { recursive: true });
+            await fs.promises.copyFile(filePath, getStoredPath(version.id));
+            await writeIndex(await applyLimits([...entries, version]));
+        });
+    } catch (error) {
+        console.error(`[File History] Could not keep a version of ${relativePath}:`, error);
+    }
+}
+
+/**
+ * Lets the history of a renamed or moved item follow it; for a folder, that of every file inside.
+ * Never throws, like `recordVersion`.
+ * @param {string} oldPath - The item's previous path as used by the API.
+ * @param {string} newPath - Its new path.
+ * @param {string} [savedUntil] - ISO timestamp; only versions kept until then move. A restored
+ *   item's versions stay apart from those of a file created at its old path in the meantime.
+ */
+async function moveHistory(oldPath, newPath, savedUntil) {
+    try {
+        await serialize(async () => {
+            const entries = await readIndex();
+            let isChanged = false;
+            for (const entry of entries) {
+                if (entry.path !== oldPath && !entry.path.startsWith(oldPath + '/')) continue;
+                if (savedUntil && entry.savedAt > savedUntil) continue;
+                entry.path = newPath + entry.path.substring(oldPath.length);
+                isChanged = true;
+            }
+            if (isChanged) await writeIndex(entries);
+        });
+    } catch (error) {
+        console.error(`[File History] Could not move the history of ${oldPath} to ${newPath}:`, error);
+    }
+}
+
+const findVersion = async (virtualPath, id) => (await serialize(readIndex)).find(entry => entry.id === id && entry.path === virtualPath);
+
+// A file's versions, newest first. Deleted files keep theirs, so a path that no longer exists can have a history.
+router.get('/', async (req, res) => {
+    if (!req.query.path) return res.status(400).json({ error: 'Missing path' });
+    try {
+        const virtualPath = toRelativePath(resolvePath(req.query.path));
+        const entries = await serialize(readIndex);
+        res.json(entries.filter(entry => entry.path === virtualPath).reverse());
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error(`API Error listing versions of ${req.query.path}:`, error);
+        res.status(500).json({ error: 'Failed to list versions' });
+    }
+});
+
+// The raw contents of one version
+router.get('/content', async (req, res) => {
+    try {
+        const version = await findVersion(toRelativePath(resolvePath(req.query.path)), req.query.id);
+        if (!version) return res.status(404).json({ error: 'Version not found' });
+        res.sendFile(getStoredPath(version.id), { dotfiles: 'allow', cacheControl: false }, (err) => {
+            if (!err || res.headersSent) return;
+            console.error(`API Error reading version ${version.id} of ${version.path}:`, err);
+            res.status(err.status === 404 ? 404 : 500).json({ error: err.status === 404 ? 'Version not found' : 'Failed to read version' });
+        });
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error(`API Error reading version of ${req.query.path}:`, error);
+        res.status(500).json({ error: 'Failed to read version' });
+    }
+});
+
+// Replaces the file with one of its versions, recreating it if it was deleted. The contents being
+// replaced are kept as a version themselves, so a restore can be undone.
+router.post('/restore', async (req, res) => {
+    const { path: relativePath, id } = req.body || {};
+    if (!relativePath || !id) return res.status(400).json({ error: 'Missing path or id in request body' });
+    let tempPath = null;
+    try {
+        const filePath = resolvePath(relativePath, 'write');
+        const version = await findVersion(toRelativePath(filePath), id);
+        if (!version) return res.status(404).json({ error: 'Version not found' });
+        // Copied out first: keeping the current contents may push this version past the limits
+        await fs.promises.mkdir(UPLOADS_DIR, { recursive: true });
+        tempPath = path.join(UPLOADS_DIR, crypto.randomUUID());
+        await fs.promises.copyFile(getStoredPath(version.id), tempPath);
+        await recordVersion(relativePath, 'restore');
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await movePath(tempPath, filePath, { overwrite: true });
+        res.json({ success: true });
+    } catch (error) {
+        if (tempPath) await fs.promises.rm(tempPath, { force: true }).catch(() => {});
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error(`API Error restoring a version of ${relativePath}:`, error);
+        res.status(500).json({ error: 'Failed to restore the version' });
+    }
+});
+
+module.exports = { router, recordVersion, moveHistory };
@@ -1,10 +1,25 @@
 const express = require('express');
+const crypto = require('crypto');
 const fs = require('fs');
 const path = require('path');
-const { resolvePath } = require('./utils');
+const { once } = require('events');
+const { pipeline } = require('stream/promises');
+const { resolvePath, toRelativePath, movePath, toFilesystemItem, measurePath, findUniqueName } = require('./utils');
+const { moveToRecycleBin } = require('./recycle-bin');
+const { recordVersion, moveHistory } = require('./file-history');
+const { parseSearchQuery, searchFiles } = require('./search');
+const { UPLOADS_DIR, MOUNTS } = require('./constants');
 
 const router = express.Router();
 
+// Paths the path policy refuses (see main/path-policy.js) are answered with 403 and the reason,
+// which File Explorer and the other apps show to the user.
+
+// The drives File Explorer shows: every mount, without where it lives on the server's disk
+router.get('/mounts', (req, res) => {
+    res.json(MOUNTS.map(({ mountPoint, label, readOnly }) => ({ path: mountPoint, label, readOnly })));
+});
+
 router.get('/list', async (req, res) => {
     try {
         const relativePath = req.query.path || '/';
@@ -13,28 +28,89 @@ router.get('/list', async (req, res) => {
         const files = await fs.promises.readdir(dirPath);
         const items = await Promise.all(
             files.map(async (file) => {
-                const itemPath = path.join(dirPath, file);
-                const stats = await fs.promises.stat(itemPath);
-                const item = {
-                    name: file,
-                    path: path.join(relativePath, file).replace(/\\/g, '/'),
-                    type: stats.isDirectory() ? 'folder' : 'file',
-                };
-                if (file.endsWith('.app')) {
-                    try {
-                        item.content = await fs.promises.readFile(itemPath, 'utf-8');
-                    } catch (e) { /* ignore */ }
+                const filePath = path.join(dirPath, file);
+                // A broken symlink can't be stat'ed; list the link itself
+                const stats = await fs.promises.stat(filePath).catch(() => fs.promises.lstat(filePath));
+                try {
+                    return await toFilesystemItem(path.join(relativePath, file).replace(/\\/g, '/'), stats);
+                } catch (error) {
+                    // Hidden items and links leading out of the mount are left out
+                    if (error.status === 403) return null;
+                    throw error;
                 }
-                return item;
             })
         );
-        res.json(items);
+        res.json(items.filter(Boolean));
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error listing directory ${req.query.path}:`, error);
         res.status(500).json({ error: 'Failed to list directory' });
     }
 });
 
+// Metadata of a single item. For folders, `size` is the total of everything inside and
+// `fileCount`/`folderCount` count their contents.
+router.get('/stat', async (req, res) => {
+    try {
+        const relativePath = req.query.path;
+        const itemPath = resolvePath(relativePath);
+        const stats = await fs.promises.stat(itemPath).catch(() => fs.promises.lstat(itemPath));
+        const item = await toFilesystemItem(toRelativePath(itemPath), stats);
+        if (item.type === 'folder') Object.assign(item, await measurePath(itemPath));
+        res.json(item);
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        if (error.code === 'ENOENT') return res.status(404).json({ error: 'Item not found' });
+        console.error(`API Error reading metadata of ${req.query.path}:`, error);
+        res.status(500).json({ error: 'Failed to read item metadata' });
+    }
+});
+
+const MAX_SEARCH_RESULTS = 1000;
+
+/**
+ * Searches a folder and its subfolders by name (`name`, `nameMode=glob|regex`) and/or content
+ * (`content`, `contentMode=text|regex`); see `parseSearchQuery` for the parameters. Streams
+ * newline-delimited JSON: `{ item, matches? }` per result as it is found, then
+ * `{ done: true, scanned, truncated }` or `{ error }`. Closing the request cancels the search.
+ */
+router.get('/search', async (req, res) => {
+    let query;
+    try {
+        query = parseSearchQuery({ ...req.query, caseSensitive: req.query.caseSensitive === 'true' });
+    } catch (error) {
+        return res.status(error.status === 403 ? 403 : 400).json({ error: error.message });
+    }
+    const maxResults = Math.min(parseInt(req.query.maxResults, 10) || MAX_SEARCH_RESULTS, MAX_SEARCH_RESULTS);
+
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    const stats = { scanned: 0 };
+    let resultCount = 0;
+    let truncated = false;
+    try {
+        for await (const result of searchFiles(query, abortController.signal, stats)) {
+            if (resultCount === maxResults) {
+                truncated = true;
+                break;
+            }
+            resultCount++;
+            // Let a slow client catch up instead of buffering every result in memory
+            if (!res.write(JSON.stringify(result) + '\n')) await once(res, 'drain', { signal: abortController.signal });
+        }
+        if (!abortController.signal.aborted) {
+            res.end(JSON.stringify({ done: true, scanned: stats.scanned, truncated }) + '\n');
+        }
+    } catch (error) {
+        if (abortController.signal.aborted) return;
+        console.error(`API Error searching ${req.query.path}:`, error);
+        res.end(JSON.stringify({ error: 'Search failed' }) + '\n');
+    }
+});
+
 router.get('/read', async (req, res) => {
     try {
         const relativePath = req.query.path;
@@ -42,6 +118,7 @@ router.get('/read', async (req, res) => {
         const content = await fs.promises.readFile(filePath, 'utf-8');
         res.json({ name: path.basename(relativePath), path: relativePath, content });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error reading file ${req.query.path}:`, error);
         res.status(500).json({ error: 'Failed to read file' });
     }
@@ -58,6 +135,7 @@ router.get('/read-base64', async (req, res) => {
             content: contentBuffer.toString('base64')
         });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error reading file as base64 ${req.query.path}:`, error);
         res.status(500).json({ error: 'Failed to read file' });
     }
@@ -76,6 +154,7 @@ router.get('/download', (req, res) => {
             }
         });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
          console.error(`API Error setting up download for ${req.query.path}:`, error);
          if (!res.headersSent) {
             res.status(500).json({ error: 'Failed to initiate download' });
@@ -83,39 +162,81 @@ router.get('/download', (req, res) => {
     }
 });
 
+// Raw file contents. GET and HEAD honour `Range` headers (answering 206 with Content-Range),
+// so clients can read a slice of a large file or let <video>/<audio> elements seek.
+router.get('/stream', (req, res) => {
+    try {
+        const filePath = resolvePath(req.query.path);
+        res.sendFile(filePath, { dotfiles: 'allow', acceptRanges: true, cacheControl: false }, (err) => {
+            if (!err || res.headersSent) return;
+            // Missing files, unsatisfiable ranges and the like arrive with a 4xx status
+            if (err.status && err.status < 500) return res.status(err.status).json({ error: err.status === 404 ? 'File not found' : err.message });
+            console.error(`API Error streaming file ${req.query.path}:`, err);
+            res.status(500).json({ error: 'Failed to read file' });
+        });
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error(`API Error streaming file ${req.query.path}:`, error);
+        res.status(500).json({ error: 'Failed to read file' });
+    }
+});
+
+// Replaces a file with the raw request body, streamed to disk without buffering it in memory.
+// The body is written to UPLOADS_DIR first and moved into place when complete, so readers never
+// see a half-written file. The previous contents are kept in the file's version history.
+router.put('/stream', async (req, res) => {
+    let tempPath = null;
+    try {
+        const filePath = resolvePath(req.query.path, 'write');
+        await fs.promises.mkdir(UPLOADS_DIR, { recursive: true });
+        tempPath = path.join(UPLOADS_DIR, crypto.randomUUID());
+        await pipeline(req, fs.createWriteStream(tempPath));
+        await recordVersion(req.query.path, 'save');
+        await movePath(tempPath, filePath, { overwrite: true });
+        const { size } = await fs.promises.stat(filePath);
+        res.json({ success: true, size });
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error(`API Error writing file ${req.query.path}:`, error);
+        if (tempPath) await fs.promises.rm(tempPath, { force: true }).catch(() => {});
+        res.status(500).json({ error: 'Failed to write file' });
+    }
+});
 
+// The previous contents are kept in the file's version history
 router.post('/save', async (req, res) => {
     try {
         const { path: relativePath, content } = req.body;
-        const filePath = resolvePath(relativePath);
+        const filePath = resolvePath(relativePath, 'write');
+        await recordVersion(relativePath, 'save');
         await fs.promises.writeFile(filePath, content, 'utf-8');
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error saving file ${req.body.path}:`, error);
         res.status(500).json({ error: 'Failed to save file' });
     }
 });
 
 router.post('/find-unique-name', (req, res) => {
-    const { destinationPath: destRelativePath, baseName, isFolder, extension } = req.body;
-    const destPath = resolvePath(destRelativePath);
-    let counter = 0;
-    let newName = `${baseName}${isFolder ? '' : extension}`;
-    let fullPath = path.join(destPath, newName);
-    while (fs.existsSync(fullPath)) {
-        counter++;
-        newName = `${baseName} (${counter})${isFolder ? '' : extension}`;
-        fullPath = path.join(destPath, newName);
+    try {
+        const { destinationPath: destRelativePath, baseName, isFolder, extension } = req.body;
+        const destPath = resolvePath(destRelativePath);
+        res.json({ name: findUniqueName(destPath, baseName, isFolder ? '' : extension) });
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error('API Error finding a unique name:', error);
+        res.status(500).json({ error: 'Failed to find a unique name' });
     }
-    res.json({ name: newName });
 });
 
 router.post('/create-folder', async (req, res) => {
     try {
         const { path: relativePath, name } = req.body;
-        await fs.promises.mkdir(resolvePath(path.join(relativePath, name)), { recursive: true });
+        await fs.promises.mkdir(resolvePath(path.join(relativePath, name), 'write'), { recursive: true });
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error creating folder:`, error);
         res.status(500).json({ error: 'Failed to create folder' });
     }
@@ -124,9 +245,10 @@ router.post('/create-folder', async (req, res) => {
 router.post('/create-file', async (req, res) => {
     try {
         const { path: relativePath, name, content } = req.body;
-        await fs.promises.writeFile(resolvePath(path.join(relativePath, name)), content, 'utf-8');
+        await fs.promises.writeFile(resolvePath(path.join(relativePath, name), 'write'), content, 'utf-8');
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error creating file:`, error);
         res.status(500).json({ error: 'Failed to create file' });
     }
@@ -135,27 +257,32 @@ router.post('/create-file', async (req, res) => {
 router.post('/create-shortcut', async (req, res) => {
     try {
         const { appId, appName } = req.body;
-        const shortcutPath = resolvePath(path.join('Desktop', `${appName}.app`));
+        const shortcutPath = resolvePath(path.join('Desktop', `${appName}.app`), 'write');
         const shortcutContent = JSON.stringify({ appId });
         await fs.promises.writeFile(shortcutPath, shortcutContent, 'utf-8');
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error creating shortcut:`, error);
         res.status(500).json({ error: 'Failed to create shortcut' });
     }
 });
 
+// Deleted items go to the Recycle Bin unless `permanent` is set. A deleted file's last contents are
+// kept in its version history either way.
 router.post('/delete', async (req, res) => {
     try {
-        const item = req.body.item;
-        const itemPath = resolvePath(item.path);
-        if (item.type === 'folder') {
+        const { item, permanent } = req.body;
+        const itemPath = resolvePath(item.path, 'remove');
+        await recordVersion(item.path, 'delete');
+        if (permanent) {
             await fs.promises.rm(itemPath, { recursive: true, force: true });
         } else {
-            await fs.promises.unlink(itemPath);
+            await moveToRecycleBin(item.path);
         }
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error deleting item:`, error);
         res.status(500).json({ error: 'Failed to delete item' });
     }
@@ -164,11 +291,18 @@ router.post('/delete', async (req, res) => {
 router.post('/rename', async (req, res) => {
     try {
         const { item, newName } = req.body;
-        const oldPath = resolvePath(item.path);
-        const newPath = resolvePath(path.join(path.dirname(item.path), newName));
+        const oldPath = resolvePath(item.path, 'remove');
+        const newPath = resolvePath(path.join(path.dirname(item.path), newName), 'write');
+        // rename() would silently replace an existing file; only a change of case may reuse the name
+        if (fs.existsSync(newPath) && oldPath.toLowerCase() !== newPath.toLowerCase()) {
+            return res.status(409).json({ error: 'An item with this name already exists' });
+        }
+        await recordVersion(item.path, 'rename');
         await fs.promises.rename(oldPath, newPath);
+        await moveHistory(toRelativePath(oldPath), toRelativePath(newPath));
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error renaming item:`, error);
         res.status(500).json({ error: 'Failed to rename item' });
     }
@@ -177,11 +311,13 @@ router.post('/rename', async (req, res) => {
 router.post('/move', async (req, res) => {
     try {
         const { sourceItem, destinationPath } = req.body;
-        const sourcePath = resolvePath(sourceItem.path);
-        const destPath = resolvePath(path.join(destinationPath, sourceItem.name));
-        await fs.promises.rename(sourcePath, destPath);
+        const sourcePath = resolvePath(sourceItem.path, 'remove');
+        const destPath = resolvePath(path.join(destinationPath, sourceItem.name), 'write');
+        await movePath(sourcePath, destPath);
+        await moveHistory(toRelativePath(sourcePath), toRelativePath(destPath));
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error moving item:`, error);
         res.status(500).json({ error: 'Failed to move item' });
     }
@@ -191,13 +327,224 @@ router.post('/copy', async (req, res) => {
     try {
         const { sourceItem, destinationPath } = req.body;
         const sourcePath = resolvePath(sourceItem.path);
-        const destPath = resolvePath(path.join(destinationPath, sourceItem.name));
+        const destPath = resolvePath(path.join(destinationPath, sourceItem.name), 'write');
         await fs.promises.cp(sourcePath, destPath, { recursive: true });
         res.json({ success: true });
     } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
         console.error(`API Error copying item:`, error);
         res.status(500).json({ error: 'Failed to copy item' });
     }
 });
 
+// --- Batch operations ---
+// Each responds with `{ results: [{ path, success, error?, newPath?, recycleBinId? }] }`, one entry
+// per requested item, so one failing item doesn't stop the others. `newPath` is where a moved or
+// copied item ended up and `recycleBinId` identifies a deleted one, so clients can undo the operation.
+
+const describeFsError = (error) => {
+    if (error.status === 403) return error.message;
+    switch (error.code) {
+        case 'ENOENT': return 'The item no longer exists';
+        case 'EEXIST':
+        case 'ENOTEMPTY': return 'An item with this name already exists in the destination';
+        case 'EACCES':
+        case 'EPERM': return 'Permission denied';
+        case 'EROFS': return 'The drive is read-only';
+        default: return error.message || 'Operation failed';
+    }
+};
+
+const runBatch = async (items, operation, operationName) => {
+    const results = [];
+    // One at a time, so that items inside the same folder don't race each other
+    for (const item of items) {
+        try {
+            const details = await operation(item);
+            results.push({ path: item.path, success: true, ...details });
+        } catch (error) {
+            console.error(`API Error during batch ${operationName} of ${item.path}:`, error);
+            results.push({ path: item.path, success: false, error: describeFsError(error) });
+        }
+    }
+    return results;
+};
+
+const isInside = (parentPath, childPath) => childPath === parentPath || childPath.startsWith(parentPath + path.sep);
+
+const parseBatchRequest = (body) => {
+    const { items, destinationPath } = body || {};
+    return Array.isArray(items) ? { items, destinationPath } : null;
+};
+
+router.post('/batch/delete', async (req, res) => {
+    const request = parseBatchRequest(req.body);
+    if (!request) return res.status(400).json({ error: 'Missing items in request body' });
+    const results = await runBatch(request.items, async (item) => {
+        const itemPath = resolvePath(item.path, 'remove');
+        await recordVersion(item.path, 'delete');
+        if (req.body.permanent) {
+            await fs.promises.rm(itemPath, { recursive: true });
+            return;
+        }
+        const entry = await moveToRecycleBin(item.path);
+        return { recycleBinId: entry.id };
+    }, 'delete');
+    res.json({ results });
+});
+
+router.post('/batch/move', async (req, res) => {
+    const request = parseBatchRequest(req.body);
+    if (!request || typeof request.destinationPath !== 'string') return res.status(400).json({ error: 'Missing items or destinationPath in request body' });
+    const results = await runBatch(request.items, async (item) => {
+        // Resolved per item, so a read-only destination is reported like any other failure
+        const destDir = resolvePath(request.destinationPath, 'write');
+        const sourcePath = resolvePath(item.path, 'remove');
+        const destPath = path.join(destDir, path.basename(sourcePath));
+        if (sourcePath === destPath) return { newPath: toRelativePath(destPath) }; // Already there
+        if (isInside(sourcePath, destDir)) throw new Error('A folder cannot be moved into itself');
+        // rename() would silently replace an existing file
+        if (fs.existsSync(destPath)) throw Object.assign(new Error('Destination exists'), { code: 'EEXIST' });
+        await movePath(sourcePath, destPath);
+        await moveHistory(toRelativePath(sourcePath), toRelativePath(destPath));
+        return { newPath: toRelativePath(destPath) };
+    }, 'move');
+    res.json({ results });
+});
+
+router.post('/batch/copy', async (req, res) => {
+    const request = parseBatchRequest(req.body);
+    if (!request || typeof request.destinationPath !== 'string') return res.status(400).json({ error: 'Missing items or destinationPath in request body' });
+    const results = await runBatch(request.items, async (item) => {
+        const destDir = resolvePath(request.destinationPath, 'write');
+        const sourcePath = resolvePath(item.path);
+        if (isInside(sourcePath, destDir)) throw new Error('A folder cannot be copied into itself');
+        const stats = await fs.promises.stat(sourcePath);
+        // Copying next to the original (or onto an existing name) creates "name (1).ext"
+        const name = path.basename(sourcePath);
+        const extension = stats.isDirectory() ? '' : path.extname(name);
+        const uniqueName = findUniqueName(destDir, name.substring(0, name.length - extension.length), extension);
+        const destPath = path.join(destDir, uniqueName);
+        await fs.promises.cp(sourcePath, destPath, { recursive: true, errorOnExist: true, force: false });
+        return { newPath: toRelativePath(destPath) };
+    }, 'copy');
+    res.json({ results });
+});
+
+// --- Uploads ---
+// A file is uploaded in chunks: `POST /upload` starts an upload, each chunk is sent as a raw
+// `PUT /upload/:id?offset=N` body, and `POST /upload/:id/complete` moves the finished file into
+// its folder. Chunks are written to UPLOADS_DIR so the watcher never reports half-written files.
+
+const MAX_UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+// Uploads that receive no chunk for this long are assumed abandoned and removed
+const UPLOAD_TIMEOUT_MS = 30 * 60 * 1000;
+
+// uploadId -> { tempPath, destinationPath, name, size, received, updatedAt }
+const activeUploads = new Map();
+
+const removeUpload = async (uploadId) => {
+    const upload = activeUploads.get(uploadId);
+    if (!upload) return;
+    activeUploads.delete(uploadId);
+    await fs.promises.rm(upload.tempPath, { force: true });
+};
+
+const removeAbandonedUploads = () => {
+    const cutoff = Date.now() - UPLOAD_TIMEOUT_MS;
+    for (const [uploadId, upload] of activeUploads) {
+        if (upload.updatedAt < cutoff) removeUpload(uploadId).catch(error => console.error('API Error removing abandoned upload:', error));
+    }
+};
+
+// "report.pdf" becomes "report (1).pdf" if the name is taken
+const findUniqueFileName = (destDir, name) => {
+    const extension = path.extname(name);
+    return findUniqueName(destDir, name.substring(0, name.length - extension.length), extension);
+};
+
+router.post('/upload', async (req, res) => {
+    try {
+        const { destinationPath, name, size } = req.body || {};
+        if (typeof destinationPath !== 'string' || typeof name !== 'string' || typeof size !== 'number') {
+            return res.status(400).json({ error: 'Missing destinationPath, name or size in request body' });
+        }
+        // Only a plain file name is accepted, so an upload can't be written outside its folder
+        if (!name || name !== path.basename(name) || name === '.' || name === '..') {
+            return res.status(400).json({ error: 'Invalid file name' });
+        }
+        const destDir = resolvePath(destinationPath, 'write');
+        if (!(await fs.promises.stat(destDir)).isDirectory()) return res.status(400).json({ error: 'Destination is not a folder' });
+        // The file's own name is checked too, so an upload can't create a hidden or write-protected file
+        resolvePath(path.posix.join(destinationPath, name), 'write');
+
+        removeAbandonedUploads();
+        await fs.promises.mkdir(UPLOADS_DIR, { recursive: true });
+        const uploadId = crypto.randomUUID();
+        const tempPath = path.join(UPLOADS_DIR, uploadId);
+        await fs.promises.writeFile(tempPath, '');
+        activeUploads.set(uploadId, { tempPath, destinationPath, name, size, received: 0, updatedAt: Date.now() });
+        res.json({ uploadId });
+    } catch (error) {
+        if (error.status === 403) return res.status(403).json({ error: error.message });
+        console.error('API Error starting upload:', error);
+        res.status(500).json({ error: 'Failed to start upload' });
+    }
+});
+
+router.put('/upload/:uploadId', express.raw({ type: 'application/octet-stream', limit: MAX_UPLOAD_CHUNK_BYTES }), async (req, res) => {
+    try {
+        const upload = activeUploads.get(req.params.uploadId);
+        if (!upload) return res.status(404).json({ error: 'Unknown or expired upload' });
+        // Chunks must arrive in order; the client can resume from `received` after an error
+        const offset = Number(req.query.offset);
+        if (offset !== upload.received) return res.status(409).json({ error: 'Unexpected chunk offset', received: upload.received });
+        const chunk = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        if (upload.received + chunk.length > upload.size) return res.status(400).json({ error: 'Upload is larger than announced' });
+
+        await fs.promises.appendFile(upload.tempPath, chunk);
+        upload.received += chunk.length;
+        upload.updatedAt = Date.now();
+        res.json({ received: upload.received });
+    } catch (error) {
+        console.error('API Error receiving upload chunk:', error);
+        res.status(500).json({ error: 'Failed to write upload chunk' });
+    }
+});
+
+router.post('/upload/:uploadId/complete', async (req, res) => {
+    const { uploadId } = req.params;
+    try {
+        const upload = activeUploads.get(uploadId);
+        if (!upload) return res.status(404).json({ error: 'Unknown or expired upload' });
+        if (upload.received !== upload.size) return res.status(400).json({ error: `Upload incomplete: received ${upload.received} of ${upload.size} bytes` });
+
+        // The name is picked only now, so a file created during the upload isn't overwritten
+        const destDir = resolvePath(upload.destinationPath, 'write');
+        const name = findUniqueFileName(destDir, upload.name);
+        resolvePath(path.posix.join(upload.destinationPath, name), 'write');
+        await movePath(upload.tempPath, path.join(destDir, name));
+        activeUploads.delete(uploadId);
+        res.json({ path: toRelativePath(path.join(destDir, name)), name });
+    } catch (error) {
+        if (error.status === 403) {
+            // The upload can never be completed here; don't keep its data until it expires
+            await removeUpload(uploadId).catch(() => {});
+            return res.status(403).json({ error: error.message });
+        }
+        console.error('API Error completing upload:', error);
+        res.status(500).json({ error: 'Failed to complete upload' });
+    }
+});
+
+router.delete('/upload/:uploadId', async (req, res) => {
+    try {
+        await removeUpload(req.params.uploadId);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('API Error cancelling upload:', error);
+        res.status(500).json({ error: 'Failed to cancel upload' });
+    }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,76 @@
+const { EventEmitter } = require('events');
+const path = require('path');
+const chokidar = require('chokidar');
+const { FS_ROOT, MOUNTS, APP_DATA_DIR } = require('./constants');
+const { toRelativePath, toFilesystemItem } = require('./utils');
+const { isHiddenPath } = require('./path-policy');
+
+// Folders under the root that are never shown to the user and churn constantly
+const IGNORED_DIRS = ['node_modules', '.git', 'dist', path.relative(FS_ROOT, APP_DATA_DIR)].map(dir => path.join(FS_ROOT, dir));
+// Changes are collected for this long and delivered together, so a bulk copy
+// results in a handful of events instead of one per file
+const BATCH_DELAY_MS = 100;
+
+/**
+ * @typedef {Object} FilesystemChange
+ * @property {'created' | 'changed' | 'deleted'} type
+ * @property {string} path - The item's path as used by the API, e.g. '/Desktop/notes.txt'.
+ * @property {string} parentPath - The folder containing the item.
+ * @property {'file' | 'folder'} itemType
+ * @property {Object} [item] - The item as returned by `/api/fs/list`, for created and changed items.
+ */
+
+/**
+ * Emits `changes` with an array of FilesystemChange for every batch of changes in a mounted folder,
+ * whoever made them (the API, Terminus, SFTP downloads, other programs).
+ */
+const fsEvents = new EventEmitter();
+
+function startFilesystemWatcher() {
+    let pendingChanges = [];
+    let flushTimer = null;
+    // Building items is async; chaining keeps the changes in the order they happened
+    let queue = Promise.resolve();
+
+    const flush = () => {
+        flushTimer = null;
+        const changes = pendingChanges;
+        pendingChanges = [];
+        fsEvents.emit('changes', changes);
+    };
+
+    const queueChange = (type, itemType, absolutePath, stats) => {
+        queue = queue.then(async () => {
+            const relativePath = toRelativePath(absolutePath);
+            const change = {
+                type,
+                path: relativePath,
+                parentPath: path.posix.dirname(relativePath),
+                itemType,
+            };
+            if (stats) change.item = await toFilesystemItem(relativePath, stats);
+            pendingChanges.push(change);
+            if (!flushTimer) flushTimer = setTimeout(flush, BATCH_DELAY_MS);
+        }).catch(error => console.error('[FS Watcher] Could not process change:', error));
+    };
+
+    const watcher = chokidar.watch(MOUNTS.map(mount => mount.root), {
+        ignored: (watchedPath) => IGNORED_DIRS.some(dir => watchedPath === dir || watchedPath.startsWith(dir + path.sep))
+            || isHiddenPath(toRelativePath(watchedPath)),
+        ignoreInitial: true,
+        alwaysStat: true,
+    });
+
+    watcher
+        .on('add', (filePath, stats) => queueChange('created', 'file', filePath, stats))
+        .on('addDir', (dirPath, stats) => queueChange('created', 'folder', dirPath, stats))
+        .on('change', (filePath, stats) => queueChange('changed', 'file', filePath, stats))
+        .on('unlink', (filePath) => queueChange('deleted', 'file', filePath))
+        .on('unlinkDir', (dirPath) => queueChange('deleted', 'folder', dirPath))
+        .on('ready', () => console.log(`✅ Filesystem watcher is running on ${MOUNTS.map(mount => mount.root).join(', ')}`))
+        .on('error', (error) => console.error('[FS Watcher] Error:', error));
+
+    return watcher;
+}
+
+module.exports = { fsEvents, startFilesystemWatcher };
@@ -0,0 +1,54 @@
+// Glob patterns, shared by file search and the path policy
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a glob (`*`, `**`, `?`, `[abc]`, `{a,b}`) into a regular expression. A pattern without
+ * wildcards matches any name containing it, which is what people expect from a search box.
+ */
+function globToRegExp(glob, flags) {
+    if (!/[*?[{]/.test(glob)) return new RegExp(escapeRegExp(glob), flags);
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            const isGlobstar = glob[i + 1] === '*';
+            if (isGlobstar) {
+                i++;
+                // `**/` also matches no folders at all
+                if (glob[i + 1] === '/') {
+                    i++;
+                    source += '(?:.*/)?';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += `[${glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`, flags);
+}
+
+module.exports = { escapeRegExp, globToRegExp };
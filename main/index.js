@@ -10,10 +10,15 @@ require('dotenv').config();
 
 const { isDev } = require('./constants');
 const { setupInitialFilesystem } = require('./setup');
+const { initializeUsers } = require('./auth');
 const { initializeIpcHandlers } = require('./ipc');
 const { startApiServer } = require('./api');
 const { startTerminusServer } = require('./ws-terminus');
 const { startSftpServer } = require('./ws-sftp');
+const { startFilesystemWatcher } = require('./fs-watcher');
+const { startFsEventsServer } = require('./ws-fs-events');
+const { startRecycleBinCleanup } = require('./recycle-bin');
+const { startSearchIndexer } = require('./search-index');
 const { startChrome3Proxy } = require('./proxy-chrome3'); // Import the new SOCKS5 proxy client
 const { setupHeaderStripping } = require('./header-stripper');
 const { launchExternalAppByPath } = require('./launcher');
@@ -46,11 +51,16 @@ function createWindow() {
 
 app.whenReady().then(() => {
     setupInitialFilesystem();
+    initializeUsers();
     initializeIpcHandlers();
     
     startApiServer();
     startTerminusServer();
     startSftpServer();
+    startFilesystemWatcher();
+    startFsEventsServer();
+    startRecycleBinCleanup();
+    startSearchIndexer();
     startChrome3Proxy(); // Start the new SOCKS5 proxy client for Chrome 3
     
     // Start Chrome 5 backend service as a detached process
@@ -0,0 +1,107 @@
+const fs = require('fs');
+const path = require('path');
+const { HIDDEN_PATHS, WRITE_PROTECTED_PATHS, APP_DATA_DIR } = require('./constants');
+const { escapeRegExp, globToRegExp } = require('./glob');
+
+const isInside = (parentPath, childPath) => childPath === parentPath || childPath.startsWith(parentPath + path.sep);
+
+// Plain patterns match exactly, not as a substring like in the search box. Matching ignores case,
+// so a case-insensitive disk can't be used to get around a pattern.
+const compilePattern = (pattern) => {
+    const glob = pattern.includes('/') ? pattern : `**/${pattern}`;
+    return /[*?[{]/.test(glob) ? globToRegExp(glob, 'i') : new RegExp(`^${escapeRegExp(glob)}$`, 'i');
+};
+
+const hiddenMatchers = HIDDEN_PATHS.map(compilePattern);
+const writeProtectedMatchers = WRITE_PROTECTED_PATHS.map(compilePattern);
+
+// A pattern matching a folder also covers everything inside it: '/main' protects '/main/api.js'
+const matchesAny = (matchers, virtualPath) => {
+    for (let end = virtualPath.indexOf('/', 1); ; end = virtualPath.indexOf('/', end + 1)) {
+        const candidate = end === -1 ? virtualPath : virtualPath.substring(0, end);
+        if (matchers.some(matcher => matcher.test(candidate))) return true;
+        if (end === -1) return false;
+    }
+};
+
+/** Whether a path is hidden from listings, search and every other route. */
+const isHiddenPath = (virtualPath) => matchesAny(hiddenMatchers, virtualPath);
+
+const isWriteProtectedPath = (virtualPath) => matchesAny(writeProtectedMatchers, virtualPath);
+
+// Policy violations are sent to clients as 403 with their message
+const denyAccess = (message, code = 'EACCES') => Object.assign(new Error(message), { code, status: 403 });
+
+/**
+ * The real location of a path, following symbolic links. A path that doesn't exist yet, like a
+ * file about to be created, is resolved through its nearest existing parent folder.
+ */
+const getRealPath = (fullPath) => {
+    const missingNames = [];
+    let existingPath = fullPath;
+    for (;;) {
+        try {
+            return path.join(fs.realpathSync(existingPath), ...missingNames);
+        } catch (error) {
+            const parentPath = path.dirname(existingPath);
+            if ((error.code !== 'ENOENT' && error.code !== 'ENOTDIR') || parentPath === existingPath) throw error;
+            missingNames.unshift(path.basename(existingPath));
+            existingPath = parentPath;
+        }
+    }
+};
+
+const realMountRoots = new Map();
+const getRealMountRoot = (mount) => {
+    if (!realMountRoots.has(mount.root)) {
+        try {
+            realMountRoots.set(mount.root, fs.realpathSync(mount.root));
+        } catch (error) {
+            // A mount whose folder is missing has nothing to escape to; don't cache, it may appear later
+            return mount.root;
+        }
+    }
+    return realMountRoots.get(mount.root);
+};
+
+// Users, password hashes and sessions. Refused by where they really are rather than by a pattern,
+// so no mount, link or FS_HIDDEN_PATHS setting can expose them.
+let realAppDataDir = null;
+const isAppData = (realPath) => {
+    realAppDataDir ??= fs.existsSync(APP_DATA_DIR) ? fs.realpathSync(APP_DATA_DIR) : null;
+    return isInside(realAppDataDir || APP_DATA_DIR, realPath);
+};
+
+/**
+ * Checks that a client may access a path, and throws a 403 error explaining why not otherwise.
+ * Symbolic links are followed, so a link can't lead outside its mount or into a hidden or
+ * write-protected location; removing a link itself is allowed wherever it points.
+ * @param {{ mountPoint: string, root: string, readOnly: boolean }} mount - The mount the path is on.
+ * @param {string} virtualPath - The normalized path as used by the API, e.g. '/Desktop/notes.txt'.
+ * @param {string} fullPath - Where `virtualPath` is on disk, before following links.
+ * @param {'read' | 'write' | 'remove'} access
+ * @throws {Error} With `status` 403 and `code` 'EACCES' (outside the mount, hidden, write-protected),
+ *   'EROFS' (read-only mount) or 'EPERM' (removing a mount point).
+ */
+function checkPathAccess(mount, virtualPath, fullPath, access) {
+    if (!isInside(mount.root, fullPath)) throw denyAccess('Access denied: the path is outside of the allowed folders');
+    const realRoot = getRealMountRoot(mount);
+    const realPath = access === 'remove' && virtualPath !== mount.mountPoint
+        ? path.join(getRealPath(path.dirname(fullPath)), path.basename(fullPath))
+        : getRealPath(fullPath);
+    if (!isInside(realRoot, realPath)) throw denyAccess(`Access denied: ${virtualPath} links to a location outside of the allowed folders`);
+    // Where a link really leads, as an API path, so policies can't be sidestepped through links
+    const relativeRealPath = path.relative(realRoot, realPath).split(path.sep).join('/');
+    const realVirtualPath = mount.mountPoint === '/' ? `/${relativeRealPath}` : `${mount.mountPoint}/${relativeRealPath}`.replace(/\/$/, '');
+    const paths = realVirtualPath === virtualPath ? [virtualPath] : [virtualPath, realVirtualPath];
+
+    if (isAppData(realPath) || paths.some(isHiddenPath)) throw denyAccess(`Access denied: ${virtualPath} is not available`);
+    if (access === 'read') return;
+    if (mount.readOnly) throw denyAccess(`${mount.mountPoint} is mounted read-only`, 'EROFS');
+    if (access === 'remove' && virtualPath === mount.mountPoint) {
+        throw denyAccess(`${virtualPath} is a mount point and can't be moved or deleted`, 'EPERM');
+    }
+    if (paths.some(isWriteProtectedPath)) throw denyAccess(`${virtualPath} is write-protected`);
+}
+
+module.exports = { checkPathAccess, isHiddenPath, isWriteProtectedPath };
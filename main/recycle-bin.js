@@ -0,0 +1,214 @@
+const express = require('express');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { EventEmitter } = require('events');
+const { RECYCLE_BIN_DIR, RECYCLE_BIN_RETENTION_DAYS, RECYCLE_BIN_MAX_BYTES } = require('./constants');
+const { resolvePath, toRelativePath, movePath, measurePath, findUniqueName } = require('./utils');
+const { moveHistory } = require('./file-history');
+
+const router = express.Router();
+
+// Deleted items are stored as ITEMS_DIR/<id>; the index remembers where each one came from
+const ITEMS_DIR = path.join(RECYCLE_BIN_DIR, 'items');
+const INDEX_FILE = path.join(RECYCLE_BIN_DIR, 'index.json');
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @typedef {Object} RecycleBinEntry
+ * @property {string} id
+ * @property {string} name
+ * @property {string} originalPath - Where the item was deleted from, e.g. '/Documents/notes.txt'.
+ * @property {'file' | 'folder'} type
+ * @property {number} size - Size in bytes, including everything inside a folder.
+ * @property {string} deletedAt - ISO timestamp.
+ */
+
+/** Emits `changed` whenever items are added to or removed from the Recycle Bin. */
+const recycleBinEvents = new EventEmitter();
+
+// Every read-modify-write of the index runs through this queue so concurrent requests don't lose entries
+let queue = Promise.resolve();
+const serialize = (task) => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+};
+
+const readIndex = async () => {
+    try {
+        return JSON.parse(await fs.promises.readFile(INDEX_FILE, 'utf-8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+};
+
+const writeIndex = async (entries) => {
+    await fs.promises.mkdir(RECYCLE_BIN_DIR, { recursive: true });
+    const tempFile = `${INDEX_FILE}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(entries, null, 2), 'utf-8');
+    await fs.promises.rename(tempFile, INDEX_FILE);
+    recycleBinEvents.emit('changed');
+};
+
+const getStoredPath = (id) => path.join(ITEMS_DIR, id);
+
+/**
+ * Drops entries older than the retention period, then the oldest ones until the bin fits
+ * within RECYCLE_BIN_MAX_BYTES. Returns the entries that are kept.
+ */
+const applyLimits = async (entries) => {
+    const cutoff = Date.now() - RECYCLE_BIN_RETENTION_DAYS * DAY_MS;
+    const oldestFirst = [...entries].sort((a, b) => Date.parse(a.deletedAt) - Date.parse(b.deletedAt));
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const purgedIds = new Set();
+    for (const entry of oldestFirst) {
+        if (Date.parse(entry.deletedAt) >= cutoff && totalSize <= RECYCLE_BIN_MAX_BYTES) break;
+        purgedIds.add(entry.id);
+        totalSize -= entry.size;
+    }
+    for (const id of purgedIds) {
+        await fs.promises.rm(getStoredPath(id), { recursive: true, force: true });
+    }
+    return entries.filter(entry => !purgedIds.has(entry.id));
+};
+
+/**
+ * Moves a file or folder into the Recycle Bin.
+ * @param {string} relativePath - The item's path relative to the project root.
+ * @returns {Promise<RecycleBinEntry>}
+ */
+async function moveToRecycleBin(relativePath) {
+    const sourcePath = resolvePath(relativePath, 'remove');
+    const stats = await fs.promises.lstat(sourcePath);
+    const { size } = await measurePath(sourcePath);
+    if (size > RECYCLE_BIN_MAX_BYTES) {
+        throw Object.assign(new Error('The item is too large for the Recycle Bin. Delete it permanently instead (Shift+Delete).'), { code: 'EFBIG' });
+    }
+    return serialize(async () => {
+        const entry = {
+            id: crypto.randomUUID(),
+            name: path.basename(sourcePath),
+            originalPath: toRelativePath(sourcePath),
+            type: stats.isDirectory() ? 'folder' : 'file',
+            size,
+            deletedAt: new Date().toISOString(),
+        };
+        await fs.promises.mkdir(ITEMS_DIR, { recursive: true });
+        await movePath(sourcePath, getStoredPath(entry.id));
+        await writeIndex(await applyLimits([...await readIndex(), entry]));
+        return entry;
+    });
+}
+
+// Puts an entry back where it came from, recreating missing parent folders. If the name has
+// been taken in the meantime the restored item gets a "name (1).ext" name instead, and its
+// version history follows it there.
+const restoreEntry = async (entry) => {
+    const destDir = resolvePath(path.posix.dirname(entry.originalPath), 'write');
+    await fs.promises.mkdir(destDir, { recursive: true });
+    const extension = entry.type === 'folder' ? '' : path.extname(entry.name);
+    const uniqueName = findUniqueName(destDir, entry.name.substring(0, entry.name.length - extension.length), extension);
+    const destPath = path.join(destDir, uniqueName);
+    await movePath(getStoredPath(entry.id), destPath);
+    const newPath = toRelativePath(destPath);
+    if (newPath !== entry.originalPath) await moveHistory(entry.originalPath, newPath, entry.deletedAt);
+    return { newPath };
+};
+
+const describeError = (error) => error.code === 'ENOENT' ? 'The item is missing from the Recycle Bin' : (error.message || 'Operation failed');
+
+/**
+ * Runs `operation` for each requested entry and removes the handled entries from the index.
+ * Responds with `{ results: [{ path, success, error?, newPath? }] }` like the filesystem batch routes.
+ */
+const processEntries = (ids, operation, operationName) => serialize(async () => {
+    let entries = await readIndex();
+    const results = [];
+    for (const id of ids) {
+        const entry = entries.find(e => e.id === id);
+        if (!entry) {
+            results.push({ path: id, success: false, error: 'The item is no longer in the Recycle Bin' });
+            continue;
+        }
+        try {
+            const details = await operation(entry);
+            entries = entries.filter(e => e.id !== id);
+            results.push({ path: entry.originalPath, success: true, ...details });
+        } catch (error) {
+            console.error(`API Error during recycle bin ${operationName} of ${entry.originalPath}:`, error);
+            // An entry whose stored item is gone can never be restored, so it is dropped as well
+            if (error.code === 'ENOENT') entries = entries.filter(e => e.id !== id);
+            results.push({ path: entry.originalPath, success: false, error: describeError(error) });
+        }
+    }
+    await writeIndex(entries);
+    return results;
+});
+
+router.get('/', async (req, res) => {
+    try {
+        const entries = await serialize(readIndex);
+        res.json(entries.sort((a, b) => Date.parse(b.deletedAt) - Date.parse(a.deletedAt)));
+    } catch (error) {
+        console.error('API Error listing recycle bin:', error);
+        res.status(500).json({ error: 'Failed to list the Recycle Bin' });
+    }
+});
+
+router.post('/restore', async (req, res) => {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids)) return res.status(400).json({ error: 'Missing ids in request body' });
+    try {
+        res.json({ results: await processEntries(ids, restoreEntry, 'restore') });
+    } catch (error) {
+        console.error('API Error restoring from recycle bin:', error);
+        res.status(500).json({ error: 'Failed to restore items' });
+    }
+});
+
+router.post('/delete', async (req, res) => {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids)) return res.status(400).json({ error: 'Missing ids in request body' });
+    try {
+        const results = await processEntries(ids, async (entry) => {
+            await fs.promises.rm(getStoredPath(entry.id), { recursive: true, force: true });
+        }, 'delete');
+        res.json({ results });
+    } catch (error) {
+        console.error('API Error deleting from recycle bin:', error);
+        res.status(500).json({ error: 'Failed to delete items' });
+    }
+});
+
+router.post('/empty', async (req, res) => {
+    try {
+        await serialize(async () => {
+            await fs.promises.rm(ITEMS_DIR, { recursive: true, force: true });
+            await writeIndex([]);
+        });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('API Error emptying recycle bin:', error);
+        res.status(500).json({ error: 'Failed to empty the Recycle Bin' });
+    }
+});
+
+/**
+ * Enforces the retention period and size limit now and then once an hour, so items expire
+ * even when nothing new is deleted.
+ */
+function startRecycleBinCleanup() {
+    const cleanup = () => serialize(async () => {
+        const entries = await readIndex();
+        const keptEntries = await applyLimits(entries);
+        if (keptEntries.length !== entries.length) await writeIndex(keptEntries);
+    }).catch(error => console.error('[Recycle Bin] Cleanup failed:', error));
+
+    cleanup();
+    setInterval(cleanup, CLEANUP_INTERVAL_MS);
+}
+
+module.exports = { router, moveToRecycleBin, recycleBinEvents, startRecycleBinCleanup };
@@ -0,0 +1,274 @@
+const express = require('express');
+const fs = require('fs');
+const path = require('path');
+const { MOUNTS, APP_DATA_DIR, SEARCH_INDEX_FILE } = require('./constants');
+const { resolvePath, toRelativePath, toFilesystemItem } = require('./utils');
+const { fsEvents } = require('./fs-watcher');
+const { isBinaryFile, SKIPPED_FOLDER_NAMES } = require('./search');
+
+const router = express.Router();
+
+// Same folders the watcher ignores, so the index never holds items it won't hear about
+const INDEX_SKIPPED_FOLDER_NAMES = new Set([...SKIPPED_FOLDER_NAMES, 'dist']);
+const MAX_INDEXED_FILE_BYTES = 1024 * 1024;
+const MAX_TOKENS_PER_FILE = 5000;
+const TOKEN_PATTERN = /[\p{L}\p{N}_]{2,40}/gu;
+// Changes are written to disk at most this often
+const SAVE_DELAY_MS = 10 * 1000;
+// The initial crawl hands the event loop back to API requests after this many entries
+const CRAWL_BATCH_SIZE = 50;
+const DEFAULT_RESULT_LIMIT = 20;
+const MAX_RESULT_LIMIT = 100;
+
+/**
+ * @typedef {Object} IndexEntry
+ * @property {string} path - The item's path as used by the API, e.g. '/Documents/notes.txt'.
+ * @property {string} name
+ * @property {'file' | 'folder'} type
+ * @property {number} mtimeMs - Lets a restart skip files that haven't changed.
+ * @property {number} size
+ * @property {string[]} tokens - Distinct lower-case words of a text file's content.
+ */
+
+/** @type {Map<string, IndexEntry>} */
+const entries = new Map();
+// Inverted index: word -> paths of the files containing it
+const postings = new Map();
+let isIndexing = false;
+let saveTimer = null;
+
+// Updates run one at a time, in the order the changes happened
+let queue = Promise.resolve();
+const serialize = (task) => {
+    const result = queue.then(task);
+    queue = result.catch(error => console.error('[Search Index] Update failed:', error));
+    return result;
+};
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+const isSkippedFolder = (absolutePath) =>
+    INDEX_SKIPPED_FOLDER_NAMES.has(path.basename(absolutePath)) || absolutePath === APP_DATA_DIR;
+
+const tokenize = (text) => [...new Set(text.toLowerCase().match(TOKEN_PATTERN) || [])].slice(0, MAX_TOKENS_PER_FILE);
+
+const removeEntry = (relativePath) => {
+    const entry = entries.get(relativePath);
+    if (!entry) return;
+    entry.tokens.forEach(token => {
+        const paths = postings.get(token);
+        paths?.delete(relativePath);
+        if (paths?.size === 0) postings.delete(token);
+    });
+    entries.delete(relativePath);
+};
+
+// Removes an item and, for folders, everything that was indexed inside it
+const removeTree = (relativePath) => {
+    removeEntry(relativePath);
+    const prefix = relativePath + '/';
+    [...entries.keys()].filter(key => key.startsWith(prefix)).forEach(removeEntry);
+};
+
+const addEntry = (entry) => {
+    removeEntry(entry.path);
+    entries.set(entry.path, entry);
+    entry.tokens.forEach(token => {
+        if (!postings.has(token)) postings.set(token, new Set());
+        postings.get(token).add(entry.path);
+    });
+};
+
+const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        saveIndex().catch(error => console.error('[Search Index] Could not save the index:', error));
+    }, SAVE_DELAY_MS);
+};
+
+const saveIndex = async () => {
+    await fs.promises.mkdir(APP_DATA_DIR, { recursive: true });
+    const tempFile = `${SEARCH_INDEX_FILE}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify([...entries.values()]), 'utf-8');
+    await fs.promises.rename(tempFile, SEARCH_INDEX_FILE);
+};
+
+const loadSavedIndex = async () => {
+    try {
+        return new Map(JSON.parse(await fs.promises.readFile(SEARCH_INDEX_FILE, 'utf-8')).map(entry => [entry.path, entry]));
+    } catch (error) {
+        if (error.code !== 'ENOENT') console.error('[Search Index] Ignoring unreadable saved index:', error.message);
+        return new Map();
+    }
+};
+
+/**
+ * Builds the entry for one file or folder. Text files up to MAX_INDEXED_FILE_BYTES have their
+ * words indexed; an unchanged `previous` entry is reused without reading the file again.
+ */
+const buildEntry = async (absolutePath, stats, previous) => {
+    const relativePath = toRelativePath(absolutePath);
+    const type = stats.isDirectory() ? 'folder' : 'file';
+    if (previous && previous.type === type && previous.mtimeMs === stats.mtimeMs && previous.size === stats.size) return previous;
+    const entry = { path: relativePath, name: path.basename(absolutePath), type, mtimeMs: stats.mtimeMs, size: stats.size, tokens: [] };
+    if (type === 'file' && stats.size <= MAX_INDEXED_FILE_BYTES && !await isBinaryFile(absolutePath)) {
+        entry.tokens = tokenize(await fs.promises.readFile(absolutePath, 'utf-8'));
+    }
+    return entry;
+};
+
+// Items the path policy refuses (hidden ones, links leading to them or out of the project) are never
+// indexed, so their names and words can't end up in the saved index
+const isRefused = (relativePath) => {
+    try {
+        resolvePath(relativePath);
+        return false;
+    } catch (error) {
+        return true;
+    }
+};
+
+const indexPath = async (relativePath) => {
+    try {
+        const absolutePath = resolvePath(relativePath);
+        const stats = await fs.promises.stat(absolutePath);
+        addEntry(await buildEntry(absolutePath, stats, entries.get(relativePath)));
+    } catch (error) {
+        // Gone again, or unreadable
+        removeTree(relativePath);
+    }
+};
+
+/**
+ * Indexes everything in every mount, reusing saved entries for files that haven't changed since
+ * the last run, and drops entries for items that no longer exist.
+ */
+const crawl = async (savedEntries) => {
+    const seenPaths = new Set();
+    const mountRoots = MOUNTS.map(mount => mount.root);
+    const pending = [...mountRoots];
+    let processed = 0;
+    while (pending.length > 0) {
+        const folderPath = pending.pop();
+        let dirents;
+        try {
+            dirents = await fs.promises.readdir(folderPath, { withFileTypes: true });
+        } catch (error) {
+            continue;
+        }
+        for (const dirent of dirents) {
+            const absolutePath = path.join(folderPath, dirent.name);
+            if (isRefused(toRelativePath(absolutePath))) continue;
+            if (dirent.isDirectory()) {
+                // A mount inside another is crawled on its own
+                if (isSkippedFolder(absolutePath) || mountRoots.includes(absolutePath)) continue;
+                pending.push(absolutePath);
+            }
+            const relativePath = toRelativePath(absolutePath);
+            try {
+                const stats = await fs.promises.stat(absolutePath);
+                addEntry(await buildEntry(absolutePath, stats, savedEntries.get(relativePath)));
+                seenPaths.add(relativePath);
+            } catch (error) {
+                // Broken links and items removed mid-crawl are left out
+            }
+            if (++processed % CRAWL_BATCH_SIZE === 0) await yieldToEventLoop();
+        }
+    }
+    [...entries.keys()].filter(key => !seenPaths.has(key)).forEach(removeEntry);
+};
+
+const applyChanges = (changes) => serialize(async () => {
+    for (const change of changes) {
+        if (change.type === 'deleted' || isRefused(change.path)) removeTree(change.path);
+        else await indexPath(change.path);
+    }
+    scheduleSave();
+});
+
+/**
+ * Loads the saved index, brings it up to date in the background and then keeps it current from
+ * the filesystem watcher's change events. Searches work while the first crawl is running; they
+ * just may not find everything yet.
+ */
+function startSearchIndexer() {
+    fsEvents.on('changes', applyChanges);
+    isIndexing = true;
+    serialize(async () => {
+        const startedAt = Date.now();
+        const savedEntries = await loadSavedIndex();
+        savedEntries.forEach(addEntry);
+        await crawl(savedEntries);
+        await saveIndex();
+        console.log(`✅ Search index is up to date (${entries.size} items, ${Date.now() - startedAt} ms)`);
+    }).finally(() => {
+        isIndexing = false;
+    });
+}
+
+// Paths of files containing a word; the last word of a query also matches as a prefix, so results
+// show up while it is still being typed
+const findContentMatches = (term, isPrefix) => {
+    const paths = new Set(postings.get(term) || []);
+    if (isPrefix && term.length >= 3) {
+        postings.forEach((tokenPaths, token) => {
+            if (token.startsWith(term)) tokenPaths.forEach(p => paths.add(p));
+        });
+    }
+    return paths;
+};
+
+/**
+ * Ranks indexed items against a query. Every word has to match the name or the content; name
+ * matches count for more than content matches, and exact and prefix name matches most.
+ * @returns {{ entry: IndexEntry, score: number, matchedContent: boolean }[]}
+ */
+function queryIndex(query, limit) {
+    const normalizedQuery = query.trim().toLowerCase();
+    const terms = normalizedQuery.split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    const contentMatches = terms.map((term, index) => findContentMatches(term, index === terms.length - 1));
+
+    const ranked = [];
+    entries.forEach(entry => {
+        const name = entry.name.toLowerCase();
+        let score = name === normalizedQuery ? 100 : 0;
+        let matchedContent = false;
+        for (let i = 0; i < terms.length; i++) {
+            if (name.startsWith(terms[i])) score += 30;
+            else if (name.includes(terms[i])) score += 15;
+            else if (contentMatches[i].has(entry.path)) {
+                score += 5;
+                matchedContent = true;
+            } else return;
+        }
+        // Among equal matches, items nearer the root come first
+        score -= entry.path.split('/').length * 0.1;
+        ranked.push({ entry, score, matchedContent });
+    });
+    return ranked.sort((a, b) => b.score - a.score || a.entry.path.localeCompare(b.entry.path)).slice(0, limit);
+}
+
+// Responds with `{ results: [{ item, score, matchedContent }], isIndexing, indexedCount }`
+router.get('/', async (req, res) => {
+    const query = req.query.q || '';
+    const limit = Math.min(parseInt(req.query.limit, 10) || DEFAULT_RESULT_LIMIT, MAX_RESULT_LIMIT);
+    try {
+        const results = [];
+        for (const { entry, score, matchedContent } of queryIndex(query, limit)) {
+            try {
+                const stats = await fs.promises.stat(resolvePath(entry.path));
+                results.push({ item: await toFilesystemItem(entry.path, stats), score, matchedContent });
+            } catch (error) {
+                // Deleted or refused since it was indexed; the watcher will catch up
+            }
+        }
+        res.json({ results, isIndexing, indexedCount: entries.size });
+    } catch (error) {
+        console.error(`API Error searching the index for "${query}":`, error);
+        res.status(500).json({ error: 'Search failed' });
+    }
+});
+
+module.exports = { router, startSearchIndexer, queryIndex };
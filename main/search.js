@@ -0,0 +1,141 @@
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+const { APP_DATA_DIR, MOUNTS } = require('./constants');
+const { resolvePath, toRelativePath, toFilesystemItem } = require('./utils');
+const { isHiddenPath } = require('./path-policy');
+const { escapeRegExp, globToRegExp } = require('./glob');
+
+// Folders that are never searched: dependencies, git internals and server state
+const SKIPPED_FOLDER_NAMES = new Set(['node_modules', '.git']);
+const MAX_CONTENT_SEARCH_BYTES = 10 * 1024 * 1024;
+const MAX_MATCHES_PER_FILE = 20;
+const MAX_LINE_LENGTH = 300;
+// A file whose first bytes contain a NUL byte is treated as binary and not searched for content
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Validates the search parameters and compiles them into matchers.
+ * @param {Object} query
+ * @param {string} [query.path] - Folder to search in, e.g. '/Documents'. Defaults to '/', which includes every mount.
+ * @param {string} [query.name] - Pattern the item name must match. Patterns containing '/' are matched against the path below the search folder.
+ * @param {'glob' | 'regex'} [query.nameMode] - How `name` is interpreted. Defaults to 'glob'.
+ * @param {string} [query.content] - Text (or regex) a file must contain. Folders never match a content search.
+ * @param {'text' | 'regex'} [query.contentMode] - How `content` is interpreted. Defaults to 'text'.
+ * @param {boolean} [query.caseSensitive]
+ * @returns {{ searchFolder: string, rootPaths: string[], nameMatcher: RegExp | null, matchesPath: boolean, contentMatcher: RegExp | null }}
+ * @throws {Error} With `code` 'EINVAL' when the query is incomplete or a pattern is invalid, or
+ *   `status` 403 when the path policy refuses the folder.
+ */
+function parseSearchQuery({ path: searchPath = '/', name, nameMode = 'glob', content, contentMode = 'text', caseSensitive = false }) {
+    const invalid = (message) => Object.assign(new Error(message), { code: 'EINVAL' });
+    if (!name && !content) throw invalid('Provide a name pattern, a content pattern or both');
+    const flags = caseSensitive ? '' : 'i';
+    // Outside the try: a path the policy refuses is reported as such, not as an invalid pattern
+    const rootPath = resolvePath(searchPath);
+    const searchFolder = toRelativePath(rootPath);
+    try {
+        return {
+            searchFolder,
+            // The other mounts are folders elsewhere on the server's disk, shown inside the root
+            rootPaths: searchFolder === '/' ? MOUNTS.map(mount => mount.root) : [rootPath],
+            nameMatcher: !name ? null : nameMode === 'regex' ? new RegExp(name, flags) : globToRegExp(name, flags),
+            matchesPath: Boolean(name && name.includes('/')),
+            contentMatcher: !content ? null : new RegExp(contentMode === 'regex' ? content : escapeRegExp(content), flags),
+        };
+    } catch (error) {
+        throw invalid(`Invalid pattern: ${error.message}`);
+    }
+}
+
+const isBinaryFile = async (absolutePath) => {
+    const handle = await fs.promises.open(absolutePath, 'r');
+    try {
+        const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+        const { bytesRead } = await handle.read(buffer, 0, BINARY_SNIFF_BYTES, 0);
+        return buffer.subarray(0, bytesRead).includes(0);
+    } finally {
+        await handle.close();
+    }
+};
+
+/** Returns the lines of a text file that match, as `{ line, text }` with 1-based line numbers. */
+async function findMatchingLines(absolutePath, size, matcher, signal) {
+    if (size > MAX_CONTENT_SEARCH_BYTES || await isBinaryFile(absolutePath)) return [];
+    const matches = [];
+    const input = fs.createReadStream(absolutePath, { encoding: 'utf-8' });
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let lineNumber = 0;
+    try {
+        for await (const text of lines) {
+            lineNumber++;
+            if (signal?.aborted) break;
+            if (!matcher.test(text)) continue;
+            matches.push({ line: lineNumber, text: text.length > MAX_LINE_LENGTH ? text.substring(0, MAX_LINE_LENGTH) + '…' : text });
+            if (matches.length >= MAX_MATCHES_PER_FILE) break;
+        }
+    } finally {
+        lines.close();
+        input.destroy();
+    }
+    return matches;
+}
+
+/**
+ * Walks the search folder (for '/', every mount) depth-first and yields `{ item, matches? }` for every match, as soon as it is
+ * found. `matches` lists the matching lines of content searches. Symbolic links to folders are
+ * not followed. Unreadable entries are skipped. Stops early when `signal` is aborted.
+ * @param {ReturnType<typeof parseSearchQuery>} query
+ * @param {AbortSignal} [signal]
+ * @param {{ scanned: number }} [stats] - Counts the entries looked at, for reporting.
+ */
+async function* searchFiles(query, signal, stats = { scanned: 0 }) {
+    const { searchFolder, rootPaths, nameMatcher, matchesPath, contentMatcher } = query;
+    // Reversed so that popping starts with the project
+    const pending = [...rootPaths].reverse();
+    while (pending.length > 0 && !signal?.aborted) {
+        const folderPath = pending.pop();
+        let entries;
+        try {
+            entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+        } catch (error) {
+            continue;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        const subfolders = [];
+        for (const entry of entries) {
+            if (signal?.aborted) return;
+            const absolutePath = path.join(folderPath, entry.name);
+            if (isHiddenPath(toRelativePath(absolutePath))) continue;
+            if (entry.isDirectory()) {
+                if (SKIPPED_FOLDER_NAMES.has(entry.name) || absolutePath === APP_DATA_DIR) continue;
+                // A mount inside another is walked on its own
+                if (rootPaths.includes(absolutePath)) continue;
+                subfolders.push(absolutePath);
+            }
+            stats.scanned++;
+            if (nameMatcher) {
+                const subject = matchesPath
+                    ? path.posix.relative(searchFolder, toRelativePath(absolutePath))
+                    : entry.name;
+                if (!nameMatcher.test(subject)) continue;
+            }
+            try {
+                const fileStats = await fs.promises.stat(absolutePath);
+                if (!contentMatcher) {
+                    yield { item: await toFilesystemItem(toRelativePath(absolutePath), fileStats) };
+                    continue;
+                }
+                if (!fileStats.isFile()) continue;
+                const matches = await findMatchingLines(absolutePath, fileStats.size, contentMatcher, signal);
+                if (matches.length > 0) yield { item: await toFilesystemItem(toRelativePath(absolutePath), fileStats), matches };
+            } catch (error) {
+                // Broken links and files removed mid-search are skipped
+            }
+        }
+        // Reversed so that popping visits subfolders in alphabetical order
+        pending.push(...subfolders.reverse());
+    }
+}
+
+module.exports = { parseSearchQuery, searchFiles, globToRegExp, isBinaryFile, SKIPPED_FOLDER_NAMES };
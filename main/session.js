@@ -0,0 +1,51 @@
+const express = require('express');
+const fs = require('fs');
+const path = require('path');
+const { SESSIONS_DIR } = require('./constants');
+
+const router = express.Router();
+
+// Each user gets their own session file; usernames are sanitized so they can't escape SESSIONS_DIR
+const getSessionFile = (username) => path.join(SESSIONS_DIR, `${username.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`);
+
+router.get('/', async (req, res) => {
+    try {
+        const sessionFile = getSessionFile(req.user.username);
+        if (!fs.existsSync(sessionFile)) return res.json(null);
+        const content = await fs.promises.readFile(sessionFile, 'utf-8');
+        res.json(JSON.parse(content));
+    } catch (error) {
+        console.error('API Error reading session:', error);
+        res.status(500).json({ error: 'Failed to read session' });
+    }
+});
+
+router.post('/', async (req, res) => {
+    try {
+        const snapshot = req.body;
+        if (!snapshot || typeof snapshot.version !== 'number' || !Array.isArray(snapshot.windows)) {
+            return res.status(400).json({ error: 'Invalid session snapshot' });
+        }
+        // Write to a temp file first so a crash mid-write never leaves a truncated session behind
+        const sessionFile = getSessionFile(req.user.username);
+        const tempFile = `${sessionFile}.tmp`;
+        await fs.promises.writeFile(tempFile, JSON.stringify(snapshot, null, 2), 'utf-8');
+        await fs.promises.rename(tempFile, sessionFile);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('API Error saving session:', error);
+        res.status(500).json({ error: 'Failed to save session' });
+    }
+});
+
+router.delete('/', async (req, res) => {
+    try {
+        await fs.promises.rm(getSessionFile(req.user.username), { force: true });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('API Error clearing session:', error);
+        res.status(500).json({ error: 'Failed to clear session' });
+    }
+});
+
+module.exports = router;
@@ -1,6 +1,6 @@
 const fs = require('fs');
 const path = require('path');
-const { FS_ROOT, SFTP_TEMP_DIR } = require('./constants');
+const { FS_ROOT, SFTP_TEMP_DIR, APP_DATA_DIR, SESSIONS_DIR, UPLOADS_DIR } = require('./constants');
 
 function setupInitialFilesystem() {
     console.log('Ensuring essential directories exist in project root...');
@@ -15,11 +15,20 @@ function setupInitialFilesystem() {
     if (!fs.existsSync(SFTP_TEMP_DIR)) {
         fs.mkdirSync(SFTP_TEMP_DIR);
     }
+    // Unfinished uploads can't be resumed after a restart
+    fs.rmSync(UPLOADS_DIR, { recursive: true, force: true });
+    // Create the directories for server-side application state
+    [APP_DATA_DIR, SESSIONS_DIR].forEach(dir => {
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    });
     const desktopPath = path.join(FS_ROOT, 'Desktop');
     const defaultApps = [
         { appId: 'appStore', name: 'App Store' },
         { appId: 'fileExplorer', name: 'File Explorer' },
         { appId: 'settings', name: 'Settings' },
+        { appId: 'recycleBin', name: 'Recycle Bin' },
     ];
     defaultApps.forEach(appDef => {
         const appShortcutPath = path.join(desktopPath, `${appDef.name}.app`);
@@ -1,19 +1,152 @@
+const crypto = require('crypto');
+const fs = require('fs');
 const path = require('path');
-const { FS_ROOT } = require('./constants');
+const mime = require('mime-types');
+const { MOUNTS } = require('./constants');
+const { checkPathAccess } = require('./path-policy');
+
+const isInside = (parentPath, childPath) => childPath === parentPath || childPath.startsWith(parentPath + path.sep);
+
+/**
+ * Finds the mount a path is on: the one with the longest mount point containing it.
+ * @param {string} virtualPath - A normalized '/'-rooted path, e.g. '/data/report.pdf'.
+ */
+function findMount(virtualPath) {
+    return MOUNTS
+        .filter(mount => mount.mountPoint === '/' || virtualPath === mount.mountPoint || virtualPath.startsWith(mount.mountPoint + '/'))
+        .reduce((best, mount) => (mount.mountPoint.length > best.mountPoint.length ? mount : best));
+}
 
 /**
- * Resolves a relative path to an absolute path within the project's root directory.
- * This is a security measure to prevent path traversal attacks.
- * @param {string} relativePath - The path relative to the project root.
+ * Resolves a path as used by the API ('/Desktop/notes.txt', '/data/report.pdf') to the absolute
+ * path on disk, inside the folder of the mount it is on. Every access goes through the path
+ * policy (`main/path-policy.js`), which prevents path traversal and symlink escapes and enforces
+ * read-only mounts and hidden and write-protected paths.
+ * @param {string} relativePath - The path relative to the root of the virtual filesystem.
+ * @param {'read' | 'write' | 'remove'} [access] - What the caller is about to do. 'write' changes
+ *   the item or its contents; 'remove' deletes, renames or moves the item itself.
  * @returns {string} The resolved absolute path.
- * @throws {Error} If the path is outside the allowed root directory.
+ * @throws {Error} With `status` 403 if the policy denies the access.
  */
-function resolvePath(relativePath) {
-    const fullPath = path.join(FS_ROOT, relativePath);
-    if (!fullPath.startsWith(FS_ROOT)) {
-        throw new Error('Access denied: Path is outside of the allowed root directory.');
-    }
+function resolvePath(relativePath, access = 'read') {
+    const virtualPath = path.posix.normalize('/' + String(relativePath).replace(/\\/g, '/')).replace(/(.)\/$/, '$1');
+    const mount = findMount(virtualPath);
+    const fullPath = path.join(mount.root, virtualPath.substring(mount.mountPoint.length));
+    checkPathAccess(mount, virtualPath, fullPath, access);
     return fullPath;
 }
 
-module.exports = { resolvePath };
+/**
+ * Converts an absolute path inside a mounted folder to the '/'-rooted path used by the API.
+ * @param {string} absolutePath
+ * @returns {string}
+ */
+function toRelativePath(absolutePath) {
+    const mount = MOUNTS
+        .filter(candidate => isInside(candidate.root, absolutePath))
+        .reduce((best, candidate) => (!best || candidate.root.length > best.root.length ? candidate : best), null);
+    if (!mount) throw new Error(`${absolutePath} is not inside a mounted folder`);
+    const relativePath = path.relative(mount.root, absolutePath).split(path.sep).join('/');
+    if (mount.mountPoint === '/') return '/' + relativePath;
+    return relativePath ? `${mount.mountPoint}/${relativePath}` : mount.mountPoint;
+}
+
+/**
+ * Moves a file or folder. Mounts can be on different disks, where rename() fails with `EXDEV`;
+ * the item is then copied and the original removed.
+ * @param {string} sourcePath - Absolute path of the item.
+ * @param {string} destPath - Absolute path it should have afterwards.
+ * @param {{ overwrite?: boolean }} [options] - `overwrite` replaces a file already at `destPath`.
+ *   Across disks the copy is then made next to it and renamed over it, so it is still replaced in one step.
+ */
+async function movePath(sourcePath, destPath, { overwrite = false } = {}) {
+    try {
+        await fs.promises.rename(sourcePath, destPath);
+    } catch (error) {
+        if (error.code !== 'EXDEV') throw error;
+        if (overwrite) {
+            const copyPath = path.join(path.dirname(destPath), `.${path.basename(destPath)}.${crypto.randomUUID()}.tmp`);
+            try {
+                await fs.promises.cp(sourcePath, copyPath, { recursive: true, preserveTimestamps: true });
+                await fs.promises.rename(copyPath, destPath);
+            } catch (copyError) {
+                await fs.promises.rm(copyPath, { recursive: true, force: true });
+                throw copyError;
+            }
+        } else {
+            await fs.promises.cp(sourcePath, destPath, { recursive: true, errorOnExist: true, force: false, preserveTimestamps: true });
+        }
+        await fs.promises.rm(sourcePath, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Builds the item the API returns for a file or folder, with its metadata. Symbolic links are
+ * described by what they point to, plus `symlinkTarget`. App shortcuts (`.app` files) include
+ * their content so clients can tell which app they launch.
+ * @param {string} relativePath - The item's path, e.g. '/Desktop/notes.txt'.
+ * @param {fs.Stats} stats - Stats of the item (following symlinks; lstat results for broken links).
+ */
+async function toFilesystemItem(relativePath, stats) {
+    const absolutePath = resolvePath(relativePath);
+    const name = path.posix.basename(relativePath);
+    const item = {
+        name,
+        path: relativePath,
+        type: stats.isDirectory() ? 'folder' : 'file',
+        mtime: stats.mtime.toISOString(),
+        ctime: stats.ctime.toISOString(),
+        mode: stats.mode & 0o7777,
+    };
+    if (item.type === 'file') {
+        item.size = stats.size;
+        item.mimeType = mime.lookup(name) || 'application/octet-stream';
+    }
+    try {
+        const linkStats = await fs.promises.lstat(absolutePath);
+        if (linkStats.isSymbolicLink()) item.symlinkTarget = await fs.promises.readlink(absolutePath);
+    } catch (e) { /* ignore */ }
+    if (item.type === 'file' && item.name.endsWith('.app')) {
+        try {
+            item.content = await fs.promises.readFile(absolutePath, 'utf-8');
+        } catch (e) { /* ignore */ }
+    }
+    return item;
+}
+
+/**
+ * Adds up the size of a file, or of everything inside a folder, and counts the files and
+ * subfolders it contains. Symbolic links are counted as files and not followed.
+ * @param {string} absolutePath
+ * @returns {Promise<{ size: number, fileCount: number, folderCount: number }>}
+ */
+async function measurePath(absolutePath) {
+    const stats = await fs.promises.lstat(absolutePath);
+    if (!stats.isDirectory()) return { size: stats.size, fileCount: 1, folderCount: 0 };
+    const total = { size: 0, fileCount: 0, folderCount: 0 };
+    for (const entry of await fs.promises.readdir(absolutePath, { withFileTypes: true })) {
+        const childTotal = await measurePath(path.join(absolutePath, entry.name));
+        total.size += childTotal.size;
+        total.fileCount += childTotal.fileCount;
+        total.folderCount += childTotal.folderCount + (entry.isDirectory() ? 1 : 0);
+    }
+    return total;
+}
+
+/**
+ * Finds a name that doesn't exist yet in `destPath` by appending " (1)", " (2)", ... to `baseName`.
+ * @param {string} destPath - Absolute path of the destination folder.
+ * @param {string} baseName - The name without its extension.
+ * @param {string} [extension] - Extension including the dot, e.g. '.txt'. Empty for folders.
+ */
+function findUniqueName(destPath, baseName, extension = '') {
+    let counter = 0;
+    let newName = `${baseName}${extension}`;
+    while (fs.existsSync(path.join(destPath, newName))) {
+        counter++;
+        newName = `${baseName} (${counter})${extension}`;
+    }
+    return newName;
+}
+
+module.exports = { findMount, resolvePath, toRelativePath, movePath, toFilesystemItem, measurePath, findUniqueName };
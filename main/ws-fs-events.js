@@ -0,0 +1,28 @@
+const { WebSocketServer } = require('ws');
+const { FS_EVENTS_WS_PORT } = require('./constants');
+const { verifyWebSocketClient } = require('./auth');
+const { fsEvents } = require('./fs-watcher');
+const { recycleBinEvents } = require('./recycle-bin');
+
+/**
+ * Pushes filesystem changes to every connected client as `{ type: 'changes', payload: FilesystemChange[] }`.
+ * Clients filter the changes down to the folders they display. The Recycle Bin lives in the
+ * unwatched app data folder, so changes to it are announced separately as `{ type: 'recycle-bin-changed' }`.
+ */
+function startFsEventsServer() {
+    const wss = new WebSocketServer({ port: FS_EVENTS_WS_PORT, verifyClient: verifyWebSocketClient });
+
+    const broadcast = (message) => {
+        const data = JSON.stringify(message);
+        wss.clients.forEach(client => {
+            if (client.readyState === client.OPEN) client.send(data);
+        });
+    };
+
+    fsEvents.on('changes', (changes) => broadcast({ type: 'changes', payload: changes }));
+    recycleBinEvents.on('changed', () => broadcast({ type: 'recycle-bin-changed' }));
+
+    console.log(`✅ Filesystem events WebSocket server listening on ws://localhost:${FS_EVENTS_WS_PORT}`);
+}
+
+module.exports = { startFsEventsServer };
@@ -3,11 +3,12 @@ const { Client } = require('ssh2');
 const path = require('path');
 const fs = require('fs');
 const { SFTP_WS_PORT } = require('./constants');
+const { verifyWebSocketClient } = require('./auth');
 const { resolvePath } = require('./utils');
 
 
 function startSftpServer() {
-    const sftpWss = new WebSocketServer({ port: SFTP_WS_PORT });
+    const sftpWss = new WebSocketServer({ port: SFTP_WS_PORT, verifyClient: verifyWebSocketClient });
     const sftpConnections = new Map();
     
     sftpWss.on('connection', (ws) => {
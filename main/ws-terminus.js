@@ -1,9 +1,10 @@
 const { WebSocketServer } = require('ws');
 const { Client } = require('ssh2');
 const { WS_PORT } = require('./constants');
+const { verifyWebSocketClient } = require('./auth');
 
 function startTerminusServer() {
-    const wss = new WebSocketServer({ port: WS_PORT });
+    const wss = new WebSocketServer({ port: WS_PORT, verifyClient: verifyWebSocketClient });
     const sshConnections = new Map();
 
     wss.on('connection', (ws) => {
@@ -0,0 +1,91 @@
+const API_BASE_URL = 'http://localhost:3001/api/auth';
+const TOKEN_STORAGE_KEY = 'win11-auth-token';
+
+let authToken: string | null = localStorage.getItem(TOKEN_STORAGE_KEY);
+const unauthorizedListeners = new Set<() => void>();
+
+const setAuthToken = (token: string | null) => {
+    authToken = token;
+    if (token) {
+        localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } else {
+        localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+};
+
+export const getAuthToken = (): string | null => authToken;
+
+/**
+ * Registers a callback fired whenever the backend rejects the current token
+ * (e.g. it expired or the server restarted). Returns an unsubscribe function.
+ */
+export const onUnauthorized = (listener: () => void): (() => void) => {
+    unauthorizedListeners.add(listener);
+    return () => { unauthorizedListeners.delete(listener); };
+};
+
+/**
+ * Drop-in replacement for `fetch` that attaches the session token to API requests.
+ */
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (authToken) headers.set('Authorization', `Bearer ${authToken}`);
+    const response = await fetch(input, { ...init, headers });
+    if (response.status === 401 && authToken) {
+        setAuthToken(null);
+        unauthorizedListeners.forEach(listener => listener());
+    }
+    return response;
+};
+
+/**
+ * Appends the session token as a query parameter, for URLs the browser requests
+ * by itself and which therefore can't carry an Authorization header (WebSockets, media sources).
+ */
+export const withAuthToken = (url: string): string => {
+    if (!authToken) return url;
+    const separator = url.includes('?') ? '&' : '?';
+    return `${url}${separator}token=${encodeURIComponent(authToken)}`;
+};
+
+export const login = async (username: string, password: string): Promise<{ username?: string; error?: string }> => {
+    try {
+        const response = await fetch(`${API_BASE_URL}/login`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ username, password }),
+        });
+        const result = await response.json();
+        if (!response.ok) return { error: result.error || 'Login failed' };
+        setAuthToken(result.token);
+        return { username: result.username };
+    } catch (e) {
+        console.error('Network error in login:', e);
+        return { error: 'Could not connect to the backend server.' };
+    }
+};
+
+export const logout = async (): Promise<void> => {
+    try {
+        await authFetch(`${API_BASE_URL}/logout`, { method: 'POST' });
+    } catch (e) {
+        console.error('Network error in logout:', e);
+    }
+    setAuthToken(null);
+};
+
+/**
+ * Returns the username for the stored token, or null if there is no valid session.
+ */
+export const getCurrentUser = async (): Promise<string | null> => {
+    if (!authToken) return null;
+    try {
+        const response = await authFetch(`${API_BASE_URL}/me`);
+        if (!response.ok) return null;
+        const result = await response.json();
+        return result.username;
+    } catch (e) {
+        console.error('Network error in getCurrentUser:', e);
+        return null;
+    }
+};
@@ -0,0 +1,62 @@
+import { ChatAttachment } from '../types';
+import * as FsService from './filesystemService';
+
+// Keeps a single attachment from blowing past the model's context window
+export const MAX_TEXT_ATTACHMENT_LENGTH = 200_000;
+export const MAX_IMAGE_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+// Formats that are binary but don't fit the image path; everything else is attempted as text
+const BINARY_EXTENSIONS = new Set([
+  'zip', 'gz', 'tar', '7z', 'rar', 'exe', 'dll', 'so', 'bin', 'pdf', 'mp3', 'mp4', 'wav', 'mov', 'avi', 'mkv', 'ico', 'bmp',
+]);
+
+const getExtension = (name: string) => {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 ? name.substring(dotIndex + 1).toLowerCase() : '';
+};
+
+export const isImageFile = (name: string) => getExtension(name) in IMAGE_MIME_TYPES;
+
+export const isAttachableFile = (name: string) => !BINARY_EXTENSIONS.has(getExtension(name));
+
+/**
+ * Reads a file from the virtual filesystem so it can be sent to Gemini.
+ * Images are read as base64, everything else as text. Returns an error message instead
+ * of an attachment when the file can't be used.
+ */
+export const loadAttachment = async (path: string): Promise<{ attachment?: ChatAttachment; error?: string }> => {
+  const name = path.substring(path.lastIndexOf('/') + 1);
+  if (!isAttachableFile(name)) {
+    return { error: `${name} can't be attached. Only text files and images are supported.` };
+  }
+
+  // Check the size first so oversized files are never downloaded
+  const size = await FsService.getFileSize(path);
+  if (size === null) return { error: `Could not read ${name}.` };
+
+  if (isImageFile(name)) {
+    if (size > MAX_IMAGE_ATTACHMENT_BYTES) return { error: `${name} is too large to attach.` };
+    const file = await FsService.readFileAsBase64(path);
+    if (!file) return { error: `Could not read ${name}.` };
+    return { attachment: { name, path, kind: 'image', mimeType: IMAGE_MIME_TYPES[getExtension(name)], data: file.content } };
+  }
+
+  // UTF-8 needs at most 4 bytes per character, so bigger files can't possibly fit
+  if (size > MAX_TEXT_ATTACHMENT_LENGTH * 4) return { error: `${name} is too large to attach.` };
+  const file = await FsService.readFile(path);
+  if (!file) return { error: `Could not read ${name}.` };
+  if (file.content.length > MAX_TEXT_ATTACHMENT_LENGTH) {
+    return { error: `${name} is too large to attach.` };
+  }
+  return { attachment: { name, path, kind: 'text', mimeType: 'text/plain', data: file.content } };
+};
@@ -0,0 +1,102 @@
+import { ChatDocument, FilesystemItem } from '../types';
+import * as FsService from './filesystemService';
+
+const CHATS_PARENT_FOLDER = '/Documents';
+const CHATS_FOLDER_NAME = 'Chats';
+export const CHATS_FOLDER = `${CHATS_PARENT_FOLDER}/${CHATS_FOLDER_NAME}`;
+export const CHAT_FILE_EXTENSION = '.chat.json';
+const CHAT_DOCUMENT_VERSION = 1;
+
+export interface SavedChatSummary {
+    path: string;
+    title: string;
+    updatedAt: number;
+    // Concatenated message text, used for searching
+    searchText: string;
+}
+
+export const isChatFile = (name: string): boolean => name.endsWith(CHAT_FILE_EXTENSION);
+
+// Strips characters that are not allowed in file names on common platforms
+const toFileBaseName = (title: string): string => title.replace(/[\\/:*?"<>|]/g, '-').trim().substring(0, 60) || 'Chat';
+
+export const createChatDocument = (fields: Partial<ChatDocument> = {}): ChatDocument => {
+    const now = Date.now();
+    return {
+        version: CHAT_DOCUMENT_VERSION,
+        title: 'New chat',
+        model: '',
+        systemInstruction: '',
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+        ...fields,
+    };
+};
+
+export const loadChat = async (path: string): Promise<ChatDocument | null> => {
+    const file = await FsService.readFile(path);
+    if (!file) return null;
+    try {
+        const chat = JSON.parse(file.content) as ChatDocument;
+        return Array.isArray(chat.messages) ? chat : null;
+    } catch (e) {
+        console.error(`Could not parse chat file ${path}`, e);
+        return null;
+    }
+};
+
+export const listChats = async (): Promise<SavedChatSummary[]> => {
+    const items = await FsService.listDirectory(CHATS_FOLDER);
+    const chatItems = items.filter((item: FilesystemItem) => item.type === 'file' && isChatFile(item.name));
+    const chats = await Promise.all(chatItems.map(async (item) => {
+        const chat = await loadChat(item.path);
+        if (!chat) return null;
+        return {
+            path: item.path,
+            title: chat.title,
+            updatedAt: chat.updatedAt,
+            searchText: `${chat.title}\n${chat.messages.map(m => m.text).join('\n')}`.toLowerCase(),
+        };
+    }));
+    return chats
+        .filter((chat): chat is SavedChatSummary => chat !== null)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Saves a chat. Without `path` a new file named after the chat title is created.
+ * Returns the path the chat was saved to, or null on failure.
+ */
+export const saveChat = async (chat: ChatDocument, path?: string): Promise<string | null> => {
+    const content = JSON.stringify(chat, null, 2);
+    if (path) {
+        return (await FsService.saveFile(path, content)) ? path : null;
+    }
+    await FsService.createFolder(CHATS_PARENT_FOLDER, CHATS_FOLDER_NAME);
+    const name = await FsService.findUniqueName(CHATS_FOLDER, toFileBaseName(chat.title), false, CHAT_FILE_EXTENSION);
+    const success = await FsService.createFile(CHATS_FOLDER, name, content);
+    return success ? `${CHATS_FOLDER}/${name}` : null;
+};
+
+/**
+ * Updates the chat title and renames its file to match. Returns the new path, or null on failure.
+ */
+export const renameChat = async (path: string, newTitle: string): Promise<string | null> => {
+    const chat = await loadChat(path);
+    if (!chat) return null;
+    const updatedChat = { ...chat, title: newTitle };
+    if (!(await FsService.saveFile(path, JSON.stringify(updatedChat, null, 2)))) return null;
+
+    const parentPath = path.substring(0, path.lastIndexOf('/')) || '/';
+    const currentName = path.substring(path.lastIndexOf('/') + 1);
+    if (currentName === `${toFileBaseName(newTitle)}${CHAT_FILE_EXTENSION}`) return path;
+    const newName = await FsService.findUniqueName(parentPath, toFileBaseName(newTitle), false, CHAT_FILE_EXTENSION);
+    const item: FilesystemItem = { name: currentName, path, type: 'file' };
+    return (await FsService.renameItem(item, newName)) ? `${parentPath}/${newName}` : null;
+};
+
+export const deleteChat = async (path: string): Promise<boolean> => {
+    const name = path.substring(path.lastIndexOf('/') + 1);
+    return FsService.deleteItem({ name, path, type: 'file' });
+};
@@ -0,0 +1,66 @@
+import { authFetch } from './authService';
+
+const API_BASE_URL = 'http://localhost:3001/api/file-associations';
+
+/** The user's default app per file type, e.g. `{ md: 'notebook' }`. Types without an entry use the built-in default. */
+export type DefaultApps = Record<string, string>;
+
+let defaultApps: DefaultApps = {};
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const update = (next: DefaultApps) => {
+    defaultApps = next;
+    listeners.forEach(listener => listener());
+};
+
+/** Fetches the user's defaults once; later calls share the first request. */
+export const loadDefaultApps = (): Promise<void> => {
+    loadPromise ??= (async () => {
+        try {
+            const response = await authFetch(API_BASE_URL);
+            if (!response.ok) {
+                console.error(`API Error: ${response.status} ${response.statusText}`);
+                return;
+            }
+            update(await response.json());
+        } catch (e) {
+            console.error('Network error in loadDefaultApps:', e);
+        }
+    })();
+    return loadPromise;
+};
+
+const saveDefaultApp = async (fileType: string, init: RequestInit): Promise<boolean> => {
+    try {
+        const response = await authFetch(`${API_BASE_URL}/${encodeURIComponent(fileType)}`, init);
+        if (!response.ok) {
+            console.error(`API Error: ${response.status} ${response.statusText}`);
+            return false;
+        }
+        update(await response.json());
+        return true;
+    } catch (e) {
+        console.error('Network error in saveDefaultApp:', e);
+        return false;
+    }
+};
+
+/** Opens files of `fileType` with `appId` from now on. */
+export const setDefaultApp = (fileType: string, appId: string): Promise<boolean> => saveDefaultApp(fileType, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ appId }),
+});
+
+/** Goes back to the built-in default app for `fileType`. */
+export const resetDefaultApp = (fileType: string): Promise<boolean> => saveDefaultApp(fileType, { method: 'DELETE' });
+
+export const getDefaultApps = (): DefaultApps => defaultApps;
+
+export const subscribe = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -1,6 +1,38 @@
-import { ProjectFile, FilesystemItem } from '../types';
+import { ProjectFile, FilesystemItem, FilesystemItemDetails, FilesystemChange, Mount, BatchItemResult, RecycleBinEntry, FileVersion, FileSearchQuery, FileSearchResult, IndexedSearchResult } from '../types';
+import { authFetch, withAuthToken } from './authService';
 
 const API_BASE_URL = 'http://localhost:3001/api/fs';
+const RECYCLE_BIN_API_URL = 'http://localhost:3001/api/recycle-bin';
+const FILE_HISTORY_API_URL = 'http://localhost:3001/api/file-history';
+const SEARCH_INDEX_API_URL = 'http://localhost:3001/api/search';
+const ARCHIVE_API_URL = 'http://localhost:3001/api/archive';
+const FS_EVENTS_URL = 'ws://localhost:3004';
+const RECONNECT_DELAY_MS = 3000;
+const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const accessDeniedListeners = new Set<(message: string) => void>();
+
+/**
+ * Calls `listener` with the server's reason whenever it refuses a path (403): the path is hidden,
+ * write-protected, on a read-only drive or outside the allowed folders. Service functions still
+ * just return null, false or [] then, so this is where the UI learns why.
+ */
+export const subscribeToAccessDenied = (listener: (message: string) => void): (() => void) => {
+    accessDeniedListeners.add(listener);
+    return () => {
+        accessDeniedListeners.delete(listener);
+    };
+};
+
+const reportAccessDenied = (details: { error?: string } | null) => {
+    const message = details?.error || 'Access denied';
+    accessDeniedListeners.forEach(listener => listener(message));
+};
+
+// For requests that only check `response.ok`: reports a refused path before the caller gives up
+const checkAccess = async (response: Response) => {
+    if (response.status === 403) reportAccessDenied(await response.json().catch(() => null));
+};
 
 const handleResponse = async <T>(response: Response): Promise<T | null> => {
     if (!response.ok) {
@@ -8,6 +40,7 @@ const handleResponse = async <T>(response: Response): Promise<T | null> => {
         try {
             const err = await response.json();
             console.error('Error details:', err);
+            if (response.status === 403) reportAccessDenied(err);
         } catch (e) {
             // Ignore if body is not json
         }
@@ -20,7 +53,7 @@ const handleResponse = async <T>(response: Response): Promise<T | null> => {
 
 export const listDirectory = async (path: string): Promise<FilesystemItem[]> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/list?path=${encodeURIComponent(path)}`);
+        const response = await authFetch(`${API_BASE_URL}/list?path=${encodeURIComponent(path)}`);
         return (await handleResponse<FilesystemItem[]>(response)) || [];
     } catch (e) {
         console.error('Network error in listDirectory:', e);
@@ -28,9 +61,39 @@ export const listDirectory = async (path: string): Promise<FilesystemItem[]> =>
     }
 };
 
+/** The drives configured on the server. The project is always mounted at '/'. */
+export const listMounts = async (): Promise<Mount[]> => {
+    try {
+        const response = await authFetch(`${API_BASE_URL}/mounts`);
+        return (await handleResponse<Mount[]>(response)) || [];
+    } catch (e) {
+        console.error('Network error in listMounts:', e);
+        return [];
+    }
+};
+
+/** The mount a path is on: the one with the longest path containing it. */
+export const getMountForPath = (mounts: Mount[], path: string): Mount | undefined =>
+    mounts
+        .filter(mount => mount.path === '/' || path === mount.path || path.startsWith(mount.path + '/'))
+        .reduce<Mount | undefined>((best, mount) => (!best || mount.path.length > best.path.length ? mount : best), undefined);
+
+/**
+ * Full metadata of one item. For folders this adds up the size of their contents, which can take a while.
+ */
+export const getItemDetails = async (path: string): Promise<FilesystemItemDetails | null> => {
+    try {
+        const response = await authFetch(`${API_BASE_URL}/stat?path=${encodeURIComponent(path)}`);
+        return await handleResponse<FilesystemItemDetails>(response);
+    } catch (e) {
+        console.error('Network error in getItemDetails:', e);
+        return null;
+    }
+};
+
 export const readFile = async (path: string): Promise<ProjectFile | null> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/read?path=${encodeURIComponent(path)}`);
+        const response = await authFetch(`${API_BASE_URL}/read?path=${encodeURIComponent(path)}`);
         return await handleResponse<ProjectFile>(response);
     } catch (e) {
         console.error('Network error in readFile:', e);
@@ -40,7 +103,7 @@ export const readFile = async (path: string): Promise<ProjectFile | null> => {
 
 export const readFileAsBase64 = async (path: string): Promise<ProjectFile | null> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/read-base64?path=${encodeURIComponent(path)}`);
+        const response = await authFetch(`${API_BASE_URL}/read-base64?path=${encodeURIComponent(path)}`);
         // The content will be a base64 string. The ProjectFile type is compatible.
         return await handleResponse<ProjectFile>(response);
     } catch (e) {
@@ -51,7 +114,8 @@ export const readFileAsBase64 = async (path: string): Promise<ProjectFile | null
 
 export const downloadFile = async (path: string): Promise<Blob | null> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/download?path=${encodeURIComponent(path)}`);
+        const response = await authFetch(`${API_BASE_URL}/download?path=${encodeURIComponent(path)}`);
+        await checkAccess(response);
         if (!response.ok) return null;
         return response.blob();
     } catch (e) {
@@ -60,10 +124,133 @@ export const downloadFile = async (path: string): Promise<Blob | null> => {
     }
 };
 
+// --- Binary and streamed access ---
+
+const getStreamUrl = (path: string) => `${API_BASE_URL}/stream?path=${encodeURIComponent(path)}`;
+
+/**
+ * A URL serving the raw file, for elements that load it themselves (`<img>`, `<video>`, `<audio>`).
+ * The server supports Range requests, so media can seek without downloading the whole file.
+ */
+export const getFileStreamUrl = (path: string): string => withAuthToken(getStreamUrl(path));
+
+/**
+ * The size of a file in bytes, without reading it. Null if it doesn't exist or can't be read.
+ */
+export const getFileSize = async (path: string): Promise<number | null> => {
+    try {
+        const response = await authFetch(getStreamUrl(path), { method: 'HEAD' });
+        await checkAccess(response);
+        if (!response.ok) return null;
+        return Number(response.headers.get('Content-Length'));
+    } catch (e) {
+        console.error('Network error in getFileSize:', e);
+        return null;
+    }
+};
+
+/**
+ * Reads bytes `start` to `end` (exclusive) of a file, for paging through files too large to load at once.
+ * `totalSize` is the size of the whole file. `end` defaults to the end of the file.
+ */
+export const readFileRange = async (path: string, start: number, end?: number): Promise<{ data: ArrayBuffer; totalSize: number } | null> => {
+    try {
+        const response = await authFetch(getStreamUrl(path), {
+            headers: { Range: `bytes=${start}-${end !== undefined ? end - 1 : ''}` },
+        });
+        // 416: the range starts at or past the end of the file
+        if (response.status === 416) {
+            const totalSize = Number(response.headers.get('Content-Range')?.split('/')[1] || 0);
+            return { data: new ArrayBuffer(0), totalSize };
+        }
+        await checkAccess(response);
+        if (!response.ok) return null;
+        const data = await response.arrayBuffer();
+        // Content-Range is "bytes 0-1023/52428800"; a 200 means the whole (e.g. empty) file was sent
+        const contentRange = response.headers.get('Content-Range');
+        const totalSize = response.status === 206 && contentRange ? Number(contentRange.split('/')[1]) : data.byteLength;
+        return { data, totalSize };
+    } catch (e) {
+        console.error('Network error in readFileRange:', e);
+        return null;
+    }
+};
+
+export interface TextPreview {
+    text: string;
+    totalSize: number;
+    isTruncated: boolean; // only the first `maxBytes` were read
+    isBinary: boolean;
+}
+
+/**
+ * Reads the start of a file as UTF-8 text, for previews that shouldn't load a whole large file.
+ * A character cut off at `maxBytes` is dropped rather than decoded as garbage.
+ */
+export const readFilePreview = async (path: string, maxBytes: number): Promise<TextPreview | null> => {
+    const range = await readFileRange(path, 0, maxBytes);
+    if (!range) return null;
+    const bytes = new Uint8Array(range.data);
+    return {
+        // `stream: true` holds back an incomplete trailing sequence instead of emitting U+FFFD
+        text: new TextDecoder('utf-8').decode(bytes, { stream: true }),
+        totalSize: range.totalSize,
+        isTruncated: range.totalSize > bytes.length,
+        // Text files practically never contain NUL bytes; binary formats nearly always do
+        isBinary: bytes.includes(0),
+    };
+};
+
+export const readFileAsArrayBuffer = async (path: string): Promise<ArrayBuffer | null> => {
+    try {
+        const response = await authFetch(getStreamUrl(path));
+        await checkAccess(response);
+        if (!response.ok) return null;
+        return await response.arrayBuffer();
+    } catch (e) {
+        console.error('Network error in readFileAsArrayBuffer:', e);
+        return null;
+    }
+};
+
+/**
+ * Opens a file for reading as a stream of byte chunks, so it can be processed without
+ * holding all of it in memory.
+ */
+export const openFileStream = async (path: string): Promise<ReadableStream<Uint8Array> | null> => {
+    try {
+        const response = await authFetch(getStreamUrl(path));
+        await checkAccess(response);
+        if (!response.ok) return null;
+        return response.body;
+    } catch (e) {
+        console.error('Network error in openFileStream:', e);
+        return null;
+    }
+};
+
+/**
+ * Replaces the contents of a file with raw bytes. Blobs (including `File`s) are sent
+ * straight from disk, so large files don't have to be read into memory first.
+ */
+export const writeFileBinary = async (path: string, data: Blob | ArrayBuffer): Promise<boolean> => {
+    try {
+        const response = await authFetch(getStreamUrl(path), {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: data,
+        });
+        const result = await handleResponse<{ success: boolean }>(response);
+        return result?.success || false;
+    } catch (e) {
+        console.error('Network error in writeFileBinary:', e);
+        return false;
+    }
+};
 
 export const saveFile = async (path: string, content: string): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/save`, {
+        const response = await authFetch(`${API_BASE_URL}/save`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ path, content }),
@@ -78,7 +265,7 @@ export const saveFile = async (path: string, content: string): Promise<boolean>
 
 export const findUniqueName = async (destinationPath: string, baseName: string, isFolder: boolean, extension: string = ''): Promise<string> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/find-unique-name`, {
+        const response = await authFetch(`${API_BASE_URL}/find-unique-name`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ destinationPath, baseName, isFolder, extension }),
@@ -93,7 +280,7 @@ export const findUniqueName = async (destinationPath: string, baseName: string,
 
 export const createFolder = async (path: string, name: string): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/create-folder`, {
+        const response = await authFetch(`${API_BASE_URL}/create-folder`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ path, name }),
@@ -108,7 +295,7 @@ export const createFolder = async (path: string, name: string): Promise<boolean>
 
 export const createFile = async (path: string, name: string, content: string): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/create-file`, {
+        const response = await authFetch(`${API_BASE_URL}/create-file`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ path, name, content }),
@@ -123,7 +310,7 @@ export const createFile = async (path: string, name: string, content: string): P
 
 export const createAppShortcut = async (appId: string, appName: string): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/create-shortcut`, {
+        const response = await authFetch(`${API_BASE_URL}/create-shortcut`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ appId, appName }),
@@ -136,12 +323,15 @@ export const createAppShortcut = async (appId: string, appName: string): Promise
     }
 };
 
-export const deleteItem = async (item: FilesystemItem): Promise<boolean> => {
+/**
+ * Moves an item to the Recycle Bin, or deletes it for good when `permanent` is set.
+ */
+export const deleteItem = async (item: FilesystemItem, permanent: boolean = false): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/delete`, {
+        const response = await authFetch(`${API_BASE_URL}/delete`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ item }),
+            body: JSON.stringify({ item, permanent }),
         });
         const result = await handleResponse<{ success: boolean }>(response);
         return result?.success || false;
@@ -153,7 +343,7 @@ export const deleteItem = async (item: FilesystemItem): Promise<boolean> => {
 
 export const renameItem = async (item: FilesystemItem, newName: string): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/rename`, {
+        const response = await authFetch(`${API_BASE_URL}/rename`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ item, newName }),
@@ -168,7 +358,7 @@ export const renameItem = async (item: FilesystemItem, newName: string): Promise
 
 export const moveItem = async (sourceItem: FilesystemItem, destinationPath: string): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/move`, {
+        const response = await authFetch(`${API_BASE_URL}/move`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ sourceItem, destinationPath }),
@@ -183,7 +373,7 @@ export const moveItem = async (sourceItem: FilesystemItem, destinationPath: stri
 
 export const copyItem = async (sourceItem: FilesystemItem, destinationPath: string): Promise<boolean> => {
     try {
-        const response = await fetch(`${API_BASE_URL}/copy`, {
+        const response = await authFetch(`${API_BASE_URL}/copy`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ sourceItem, destinationPath }),
@@ -194,4 +384,514 @@ export const copyItem = async (sourceItem: FilesystemItem, destinationPath: stri
         console.error('Network error in copyItem:', e);
         return false;
     }
-};
\ No newline at end of file
+};
+
+const runBatch = async (endpoint: string, items: FilesystemItem[], options: { destinationPath?: string; permanent?: boolean } = {}): Promise<BatchItemResult[]> => {
+    try {
+        const response = await authFetch(`${API_BASE_URL}/batch/${endpoint}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ items, ...options }),
+        });
+        const result = await handleResponse<{ results: BatchItemResult[] }>(response);
+        if (result) return result.results;
+    } catch (e) {
+        console.error(`Network error in batch ${endpoint}:`, e);
+    }
+    return items.map(item => ({ path: item.path, success: false, error: 'Could not reach the server' }));
+};
+
+/**
+ * Moves items to the Recycle Bin, or deletes them for good when `permanent` is set.
+ */
+export const deleteItems = (items: FilesystemItem[], permanent: boolean = false): Promise<BatchItemResult[]> => runBatch('delete', items, { permanent });
+
+export const moveItems = (items: FilesystemItem[], destinationPath: string): Promise<BatchItemResult[]> => runBatch('move', items, { destinationPath });
+
+export const copyItems = (items: FilesystemItem[], destinationPath: string): Promise<BatchItemResult[]> => runBatch('copy', items, { destinationPath });
+
+/**
+ * Summarizes the failed items of a batch operation for an error message, or returns null if all succeeded.
+ */
+export const describeBatchFailures = (results: BatchItemResult[], action: string): string | null => {
+    const failures = results.filter(result => !result.success);
+    if (failures.length === 0) return null;
+    const lines = failures.map(failure => `${failure.path.split('/').pop()}: ${failure.error || 'Failed'}`);
+    return `Could not ${action} ${failures.length} of ${results.length} item(s):\n${lines.join('\n')}`;
+};
+
+// --- Search ---
+
+export interface FileSearchSummary {
+    scanned: number; // files and folders looked at
+    truncated: boolean; // true when the search stopped at the server's result limit
+}
+
+/**
+ * Searches a folder and its subfolders, calling `onResult` for each match as the server finds it.
+ * Resolves with a summary once the search is complete. Abort `signal` to cancel the search;
+ * cancelling rejects with an `AbortError`. Invalid patterns reject with the server's message.
+ */
+export const searchFiles = async (
+    query: FileSearchQuery,
+    onResult: (result: FileSearchResult) => void,
+    signal?: AbortSignal,
+): Promise<FileSearchSummary> => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const response = await authFetch(`${API_BASE_URL}/search?${params}`, { signal });
+    if (!response.ok || !response.body) {
+        const details = await response.json().catch(() => null);
+        throw new Error(details?.error || `Search failed (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const data = JSON.parse(line);
+            if (data.error) throw new Error(data.error);
+            if (data.done) return { scanned: data.scanned, truncated: data.truncated };
+            onResult(data);
+        }
+    }
+    throw new Error('The search ended unexpectedly');
+};
+
+/**
+ * Looks a query up in the server's background index of file names and contents. Much faster than
+ * `searchFiles`, but only as current as the index; `isIndexing` is true while it is still being built.
+ */
+export const searchIndex = async (query: string, limit?: number): Promise<{ results: IndexedSearchResult[]; isIndexing: boolean }> => {
+    try {
+        const params = new URLSearchParams({ q: query });
+        if (limit) params.set('limit', String(limit));
+        const response = await authFetch(`${SEARCH_INDEX_API_URL}?${params}`);
+        return (await handleResponse<{ results: IndexedSearchResult[]; isIndexing: boolean }>(response)) || { results: [], isIndexing: false };
+    } catch (e) {
+        console.error('Network error in searchIndex:', e);
+        return { results: [], isIndexing: false };
+    }
+};
+
+// --- Uploads ---
+
+export interface UploadProgress {
+    fileName: string;
+    fileIndex: number; // 0-based index of the file being uploaded
+    fileCount: number;
+    uploadedBytes: number; // across all files
+    totalBytes: number;
+}
+
+export interface UploadResult {
+    fileName: string;
+    success: boolean;
+    path?: string; // where the file was saved; differs from the dropped name if that was taken
+    error?: string;
+}
+
+const uploadFile = async (file: File, destinationPath: string, onChunk: (bytes: number) => void): Promise<UploadResult> => {
+    const startResponse = await authFetch(`${API_BASE_URL}/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ destinationPath, name: file.name, size: file.size }),
+    });
+    const started = await handleResponse<{ uploadId: string }>(startResponse);
+    if (!started) return { fileName: file.name, success: false, error: 'The server refused the upload' };
+    const uploadUrl = `${API_BASE_URL}/upload/${encodeURIComponent(started.uploadId)}`;
+
+    try {
+        for (let offset = 0; offset < file.size; offset += UPLOAD_CHUNK_SIZE) {
+            const chunk = file.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+            const chunkResponse = await authFetch(`${uploadUrl}?offset=${offset}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/octet-stream' },
+                body: chunk,
+            });
+            if (!(await handleResponse<{ received: number }>(chunkResponse))) throw new Error('Upload interrupted');
+            onChunk(chunk.size);
+        }
+        const completeResponse = await authFetch(`${uploadUrl}/complete`, { method: 'POST' });
+        const completed = await handleResponse<{ path: string; name: string }>(completeResponse);
+        if (!completed) throw new Error('The server could not save the file');
+        return { fileName: file.name, success: true, path: completed.path };
+    } catch (e) {
+        // Don't leave the partial file behind on the server
+        authFetch(uploadUrl, { method: 'DELETE' }).catch(() => {});
+        throw e;
+    }
+};
+
+/**
+ * Uploads files from the user's machine into `destinationPath`, one after another in chunks.
+ * Files whose name is already taken are saved as "name (1).ext". `onProgress` is called after
+ * every chunk. Resolves to one result per file; a failed file doesn't stop the others.
+ */
+export const uploadFiles = async (
+    files: File[],
+    destinationPath: string,
+    onProgress?: (progress: UploadProgress) => void,
+): Promise<UploadResult[]> => {
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    let uploadedBytes = 0;
+    const results: UploadResult[] = [];
+
+    for (const [fileIndex, file] of files.entries()) {
+        const report = () => onProgress?.({ fileName: file.name, fileIndex, fileCount: files.length, uploadedBytes, totalBytes });
+        const bytesBefore = uploadedBytes;
+        report();
+        try {
+            results.push(await uploadFile(file, destinationPath, (bytes) => {
+                uploadedBytes += bytes;
+                report();
+            }));
+        } catch (e) {
+            console.error('Network error in uploadFiles:', e);
+            results.push({ fileName: file.name, success: false, error: e instanceof Error ? e.message : 'Upload failed' });
+        }
+        // Count failed files as done so the overall progress still reaches 100%
+        uploadedBytes = bytesBefore + file.size;
+    }
+    return results;
+};
+
+// --- Archives ---
+
+export interface ArchiveProgress {
+    currentFile: string;
+    fileIndex: number; // 0-based index of the file being compressed or extracted
+    fileCount: number;
+    processedBytes: number; // uncompressed, across all files
+    totalBytes: number;
+}
+
+export const isArchiveFile = (name: string): boolean => name.toLowerCase().endsWith('.zip');
+
+/**
+ * Splits a path that points into a zip file, e.g. '/Downloads/photos.zip/2024', into the archive's
+ * path and the path inside it ('' for its root). Returns null for paths outside any archive.
+ */
+export const getArchiveLocation = (path: string): { archivePath: string; innerPath: string } | null => {
+    const segments = path.split('/').filter(Boolean);
+    const index = segments.findIndex(isArchiveFile);
+    if (index === -1) return null;
+    return { archivePath: '/' + segments.slice(0, index + 1).join('/'), innerPath: segments.slice(index + 1).join('/') };
+};
+
+/**
+ * Lists a folder inside a zip file. Resolves to null when `path` isn't inside a readable archive,
+ * e.g. for a folder that just happens to be named 'something.zip'.
+ */
+export const listArchive = async (path: string): Promise<FilesystemItem[] | null> => {
+    try {
+        const response = await authFetch(`${ARCHIVE_API_URL}/list?path=${encodeURIComponent(path)}`);
+        return await handleResponse<FilesystemItem[]>(response);
+    } catch (e) {
+        console.error('Network error in listArchive:', e);
+        return null;
+    }
+};
+
+/** Reads a file inside a zip as text. */
+export const readArchiveEntry = async (path: string): Promise<ProjectFile | null> => {
+    try {
+        const response = await authFetch(`${ARCHIVE_API_URL}/read?path=${encodeURIComponent(path)}`);
+        return await handleResponse<ProjectFile>(response);
+    } catch (e) {
+        console.error('Network error in readArchiveEntry:', e);
+        return null;
+    }
+};
+
+// Posts a compress or extract request and follows its progress until the final `{ done }` line
+const runArchiveOperation = async <T>(
+    endpoint: string,
+    body: object,
+    onProgress?: (progress: ArchiveProgress) => void,
+    signal?: AbortSignal,
+): Promise<T> => {
+    const response = await authFetch(`${ARCHIVE_API_URL}/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok || !response.body) {
+        const details = await response.json().catch(() => null);
+        throw new Error(details?.error || `The operation failed (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const data = JSON.parse(line);
+            if (data.error) throw new Error(data.error);
+            if (data.done) return data as T;
+            onProgress?.(data.progress);
+        }
+    }
+    throw new Error('The operation ended unexpectedly');
+};
+
+/**
+ * Zips items into a new archive in `destinationPath` (by default the folder of the first item),
+ * named after the item or 'Archive.zip' for several. Resolves to the new zip file. Throws on
+ * failure; aborting `signal` cancels the operation and leaves nothing behind.
+ */
+export const compressItems = async (
+    items: FilesystemItem[],
+    destinationPath?: string,
+    onProgress?: (progress: ArchiveProgress) => void,
+    signal?: AbortSignal,
+): Promise<FilesystemItem> => {
+    const result = await runArchiveOperation<{ item: FilesystemItem }>(
+        'compress', { paths: items.map(item => item.path), destinationPath }, onProgress, signal);
+    return result.item;
+};
+
+export interface ExtractOptions {
+    destinationPath?: string; // defaults to the archive's folder
+    entries?: string[]; // paths inside the archive; everything when omitted
+    createFolder?: boolean; // extract into a folder named after the archive; defaults to true when extracting everything
+}
+
+/**
+ * Extracts a zip file, or some of its entries. Names that are already taken get a "name (1)" name.
+ * Resolves to the paths of the extracted top-level items. Throws on failure; aborting `signal`
+ * cancels the operation and leaves nothing behind.
+ */
+export const extractArchive = async (
+    path: string,
+    options: ExtractOptions = {},
+    onProgress?: (progress: ArchiveProgress) => void,
+    signal?: AbortSignal,
+): Promise<string[]> => {
+    const result = await runArchiveOperation<{ paths: string[] }>('extract', { path, ...options }, onProgress, signal);
+    return result.paths;
+};
+
+// --- Recycle Bin ---
+
+export const listRecycleBin = async (): Promise<RecycleBinEntry[]> => {
+    try {
+        const response = await authFetch(RECYCLE_BIN_API_URL);
+        return (await handleResponse<RecycleBinEntry[]>(response)) || [];
+    } catch (e) {
+        console.error('Network error in listRecycleBin:', e);
+        return [];
+    }
+};
+
+type RecycleBinEntryRef = Pick<RecycleBinEntry, 'id' | 'originalPath'>;
+
+const runRecycleBinBatch = async (endpoint: string, entries: RecycleBinEntryRef[]): Promise<BatchItemResult[]> => {
+    try {
+        const response = await authFetch(`${RECYCLE_BIN_API_URL}/${endpoint}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids: entries.map(entry => entry.id) }),
+        });
+        const result = await handleResponse<{ results: BatchItemResult[] }>(response);
+        if (result) return result.results;
+    } catch (e) {
+        console.error(`Network error in recycle bin ${endpoint}:`, e);
+    }
+    return entries.map(entry => ({ path: entry.originalPath, success: false, error: 'Could not reach the server' }));
+};
+
+/**
+ * Puts items back where they were deleted from. Items whose name has been taken since get a "name (1)" name.
+ */
+export const restoreItems = (entries: RecycleBinEntryRef[]): Promise<BatchItemResult[]> => runRecycleBinBatch('restore', entries);
+
+export const deleteItemsPermanently = (entries: RecycleBinEntryRef[]): Promise<BatchItemResult[]> => runRecycleBinBatch('delete', entries);
+
+export const emptyRecycleBin = async (): Promise<boolean> => {
+    try {
+        const response = await authFetch(`${RECYCLE_BIN_API_URL}/empty`, { method: 'POST' });
+        const result = await handleResponse<{ success: boolean }>(response);
+        return result?.success || false;
+    } catch (e) {
+        console.error('Network error in emptyRecycleBin:', e);
+        return false;
+    }
+};
+
+// --- Version history ---
+
+/** Earlier versions of a file, newest first. A deleted file keeps its versions. */
+export const listFileVersions = async (path: string): Promise<FileVersion[]> => {
+    try {
+        const response = await authFetch(`${FILE_HISTORY_API_URL}?path=${encodeURIComponent(path)}`);
+        return (await handleResponse<FileVersion[]>(response)) || [];
+    } catch (e) {
+        console.error('Network error in listFileVersions:', e);
+        return [];
+    }
+};
+
+export const readFileVersion = async (version: FileVersion): Promise<string | null> => {
+    try {
+        const response = await authFetch(`${FILE_HISTORY_API_URL}/content?path=${encodeURIComponent(version.path)}&id=${encodeURIComponent(version.id)}`);
+        await checkAccess(response);
+        if (!response.ok) return null;
+        return await response.text();
+    } catch (e) {
+        console.error('Network error in readFileVersion:', e);
+        return null;
+    }
+};
+
+/** Replaces a file with one of its versions. The replaced contents become a version themselves. */
+export const restoreFileVersion = async (version: FileVersion): Promise<boolean> => {
+    try {
+        const response = await authFetch(`${FILE_HISTORY_API_URL}/restore`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ path: version.path, id: version.id }),
+        });
+        const result = await handleResponse<{ success: boolean }>(response);
+        return result?.success || false;
+    } catch (e) {
+        console.error('Network error in restoreFileVersion:', e);
+        return false;
+    }
+};
+
+// --- Change notifications ---
+
+interface ChangeSubscription {
+    path: string;
+    onChanges: (changes: FilesystemChange[]) => void;
+    onResync?: () => void;
+}
+
+const subscriptions = new Set<ChangeSubscription>();
+const recycleBinListeners = new Set<() => void>();
+let eventSocket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let hasMissedChanges = false;
+
+const hasSubscribers = () => subscriptions.size > 0 || recycleBinListeners.size > 0;
+
+const connectToChangeEvents = () => {
+    const socket = new WebSocket(withAuthToken(FS_EVENTS_URL));
+    eventSocket = socket;
+
+    socket.onopen = () => {
+        // Anything that changed while we were disconnected was missed, so everyone reloads
+        if (hasMissedChanges) {
+            subscriptions.forEach(sub => sub.onResync?.());
+            recycleBinListeners.forEach(listener => listener());
+        }
+        hasMissedChanges = false;
+    };
+
+    socket.onmessage = (event) => {
+        const message = JSON.parse(event.data);
+        if (message.type === 'recycle-bin-changed') {
+            recycleBinListeners.forEach(listener => listener());
+            return;
+        }
+        if (message.type !== 'changes') return;
+        const changes: FilesystemChange[] = message.payload;
+        subscriptions.forEach(sub => {
+            const relevantChanges = changes.filter(change => change.parentPath === sub.path || change.path === sub.path);
+            if (relevantChanges.length > 0) sub.onChanges(relevantChanges);
+        });
+    };
+
+    socket.onclose = () => {
+        if (eventSocket !== socket) return;
+        eventSocket = null;
+        if (hasSubscribers()) {
+            hasMissedChanges = true;
+            reconnectTimer = setTimeout(() => {
+                reconnectTimer = null;
+                if (hasSubscribers()) connectToChangeEvents();
+            }, RECONNECT_DELAY_MS);
+        }
+    };
+};
+
+const disconnectIfUnused = () => {
+    if (hasSubscribers()) return;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    const socket = eventSocket;
+    eventSocket = null;
+    hasMissedChanges = false;
+    socket?.close();
+};
+
+/**
+ * Calls `onChanges` whenever items directly inside `path` (or the folder itself) are created,
+ * changed or deleted, by this client or anyone else. `onResync` is called after the connection
+ * to the server drops and comes back, when changes may have been missed and the folder should
+ * be listed again. Returns a function that unsubscribes.
+ */
+export const subscribeToChanges = (
+    path: string,
+    onChanges: (changes: FilesystemChange[]) => void,
+    onResync?: () => void,
+): (() => void) => {
+    const subscription: ChangeSubscription = { path, onChanges, onResync };
+    subscriptions.add(subscription);
+    if (!eventSocket && !reconnectTimer) connectToChangeEvents();
+
+    return () => {
+        subscriptions.delete(subscription);
+        disconnectIfUnused();
+    };
+};
+
+/**
+ * Calls `onChange` whenever items are added to or removed from the Recycle Bin, and after a
+ * reconnect when changes may have been missed. Returns a function that unsubscribes.
+ */
+export const subscribeToRecycleBin = (onChange: () => void): (() => void) => {
+    recycleBinListeners.add(onChange);
+    if (!eventSocket && !reconnectTimer) connectToChangeEvents();
+
+    return () => {
+        recycleBinListeners.delete(onChange);
+        disconnectIfUnused();
+    };
+};
+
+/**
+ * Applies change notifications to the listing of `folderPath`, keeping the order of existing items.
+ */
+export const applyChanges = (items: FilesystemItem[], changes: FilesystemChange[], folderPath: string): FilesystemItem[] => {
+    let result = items;
+    for (const change of changes) {
+        if (change.parentPath !== folderPath) continue;
+        if (change.type === 'deleted') {
+            result = result.filter(item => item.path !== change.path);
+        } else if (change.item) {
+            const newItem = change.item;
+            result = result.some(item => item.path === newItem.path)
+                ? result.map(item => item.path === newItem.path ? newItem : item)
+                : [...result, newItem];
+        }
+    }
+    return result;
+};
@@ -1,68 +1,471 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { ChatMessage, ChatAttachment, ChatToolCall } from '../types';
+import { authFetch } from './authService';
+import * as FsService from './filesystemService';
 
-const API_URL = 'http://localhost:3001/api';
+const API_URL = 'http://localhost:3001/api/ai';
 
-let ai: GoogleGenAI | null = null;
-let isInitializing = false;
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
 
-// Gets the API key by fetching from the backend server
-const getApiKey = async (): Promise<string | null> => {
+export const GEMINI_MODELS = [
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
+  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro' },
+  { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash-Lite' },
+];
+
+export interface FunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+  thoughtSignature?: string;
+}
+
+export type ChatPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { id?: string; name: string; args: Record<string, any> }; thoughtSignature?: string }
+  | { functionResponse: { id?: string; name: string; response: Record<string, any> } };
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+export interface GenerateRequest {
+  model?: string;
+  contents: string | ChatTurn[];
+  config?: Record<string, any>;
+}
+
+const getErrorMessage = async (response: Response): Promise<string> => {
   try {
-    const response = await fetch(`${API_URL}/get-key`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch API key: ${response.statusText}`);
-    }
     const data = await response.json();
-    return data.apiKey;
-  } catch (error) {
-    console.error("Could not fetch Gemini API key from the backend:", error);
-    return null;
+    if (data.error) return data.error;
+  } catch (e) {
+    // Ignore if body is not json
   }
+  return `Request failed: ${response.status} ${response.statusText}`;
 };
 
-// Initialize the GoogleGenAI instance asynchronously
-const initializeAi = async () => {
-  if (ai || isInitializing) return;
-  isInitializing = true;
-  
+export const generateGeminiResponse = async (prompt: string): Promise<string> => {
   try {
-    const apiKey = await getApiKey();
-    if (apiKey) {
-      ai = new GoogleGenAI({ apiKey });
-    } else {
-      console.warn(
-        "Gemini API key not found. Ensure the backend server is running and the API_KEY is set in the .env file. AI features will be disabled or return mock responses."
-      );
+    const response = await authFetch(`${API_URL}/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: DEFAULT_MODEL, contents: prompt }),
+    });
+    if (!response.ok) {
+      return await getErrorMessage(response);
     }
+    const data = await response.json();
+    return data.text;
   } catch (error) {
-    console.error("Error initializing Gemini API:", error);
-  } finally {
-    isInitializing = false;
+    console.error("Error calling Gemini API:", error);
+    if (error instanceof Error) {
+        return `Error from Gemini: ${error.message}`;
+    }
+    return "An unknown error occurred while contacting Gemini.";
   }
 };
 
-export const generateGeminiResponse = async (prompt: string): Promise<string> => {
-  // Ensure the AI client is initialized before making a request
-  if (!ai && !isInitializing) {
-    await initializeAi();
+export interface StreamResult {
+  text: string;
+  functionCalls: FunctionCall[];
+}
+
+/**
+ * Streams a response from the backend, calling `onChunk` with each piece of text as it arrives.
+ * Resolves with the full text and any tool calls once the stream ends. Pass an AbortSignal to
+ * cancel generation; cancelling rejects with an `AbortError`.
+ */
+export const streamGeminiResponse = async (
+  request: GenerateRequest,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<StreamResult> => {
+  const response = await authFetch(`${API_URL}/generate-stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: DEFAULT_MODEL, ...request }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(await getErrorMessage(response));
   }
-  
-  if (!ai) {
-    await new Promise(resolve => setTimeout(resolve, 500)); // Simulate delay
-    return "Gemini API is not configured. Please ensure the backend server is running and the API_KEY environment variable is set.";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+  const functionCalls: FunctionCall[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const data = JSON.parse(line);
+      if (data.error) throw new Error(data.error);
+      if (data.text) {
+        fullText += data.text;
+        onChunk(data.text);
+      }
+      if (data.functionCalls) functionCalls.push(...data.functionCalls);
+    }
   }
+  return { text: fullText, functionCalls };
+};
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-        return `Error from Gemini: ${error.message}`;
+// --- Agent mode ---
+
+export interface AgentToolContext {
+  /** Apps Gemini may open, as `{ id, name }` pairs. */
+  apps: { id: string; name: string }[];
+  openApp: (appId: string, initialData?: any) => void;
+  /** Asks the user to allow a call that changes something. Resolves to false if they deny it. */
+  confirm: (description: string, call: FunctionCall) => Promise<boolean>;
+  /** Receives every state change of every call, for the audit trail shown in the chat. */
+  onToolCall: (toolCall: ChatToolCall) => void;
+}
+
+export interface AgentToolset {
+  declarations: Record<string, any>[];
+  execute: (call: FunctionCall) => Promise<Record<string, any>>;
+}
+
+interface AgentTool {
+  declaration: Record<string, any>;
+  isMutating: boolean;
+  describe: (args: Record<string, any>) => string;
+  run: (args: Record<string, any>, context: AgentToolContext) => Promise<Record<string, any>>;
+}
+
+// Keeps a single tool response from flooding the model's context window
+const MAX_TOOL_FILE_LENGTH = 100_000;
+// Upper bound on model → tool → model round trips for a single message
+const MAX_TOOL_STEPS = 10;
+
+const getName = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+
+const createAgentTools = (apps: AgentToolContext['apps']): Record<string, AgentTool> => ({
+  list_directory: {
+    declaration: {
+      name: 'list_directory',
+      description: 'Lists the files and folders in a directory of the desktop filesystem. Paths are absolute from the filesystem root, e.g. "/Documents".',
+      parameters: {
+        type: 'object',
+        properties: { path: { type: 'string', description: 'Absolute directory path, "/" for the root.' } },
+        required: ['path'],
+      },
+    },
+    isMutating: false,
+    describe: (args) => `List ${args.path}`,
+    run: async (args) => {
+      const items = await FsService.listDirectory(args.path);
+      return { items: items.map(item => ({ name: item.name, path: item.path, type: item.type })) };
+    },
+  },
+  read_file: {
+    declaration: {
+      name: 'read_file',
+      description: 'Reads a text file from the desktop filesystem.',
+      parameters: {
+        type: 'object',
+        properties: { path: { type: 'string', description: 'Absolute file path.' } },
+        required: ['path'],
+      },
+    },
+    isMutating: false,
+    describe: (args) => `Read ${args.path}`,
+    run: async (args) => {
+      const file = await FsService.readFile(args.path);
+      if (!file) return { error: `Could not read ${args.path}` };
+      const isTruncated = file.content.length > MAX_TOOL_FILE_LENGTH;
+      return { content: isTruncated ? file.content.substring(0, MAX_TOOL_FILE_LENGTH) : file.content, isTruncated };
+    },
+  },
+  save_file: {
+    declaration: {
+      name: 'save_file',
+      description: 'Creates or overwrites a text file on the desktop filesystem.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Absolute file path.' },
+          content: { type: 'string', description: 'The full new content of the file.' },
+        },
+        required: ['path', 'content'],
+      },
+    },
+    isMutating: true,
+    describe: (args) => `Save ${String(args.content ?? '').length} characters to ${args.path}`,
+    run: async (args) => {
+      const success = await FsService.saveFile(args.path, String(args.content ?? ''));
+      return success ? { success } : { error: `Could not save ${args.path}` };
+    },
+  },
+  create_folder: {
+    declaration: {
+      name: 'create_folder',
+      description: 'Creates a folder on the desktop filesystem.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Absolute path of the parent directory.' },
+          name: { type: 'string', description: 'Name of the new folder.' },
+        },
+        required: ['path', 'name'],
+      },
+    },
+    isMutating: true,
+    describe: (args) => `Create folder "${args.name}" in ${args.path}`,
+    run: async (args) => {
+      const success = await FsService.createFolder(args.path, args.name);
+      return success ? { success } : { error: `Could not create ${args.name} in ${args.path}` };
+    },
+  },
+  open_app: {
+    declaration: {
+      name: 'open_app',
+      description: 'Opens an app window on the desktop. Notebook and File Explorer can be opened on a file or folder.',
+      parameters: {
+        type: 'object',
+        properties: {
+          appId: { type: 'string', enum: apps.map(app => app.id), description: apps.map(app => `${app.id}: ${app.name}`).join(', ') },
+          path: { type: 'string', description: 'Optional file (Notebook) or folder (File Explorer) to open.' },
+        },
+        required: ['appId'],
+      },
+    },
+    isMutating: false,
+    describe: (args) => `Open ${apps.find(app => app.id === args.appId)?.name || args.appId}${args.path ? ` on ${args.path}` : ''}`,
+    run: async (args, context) => {
+      if (!apps.some(app => app.id === args.appId)) return { error: `Unknown app ${args.appId}` };
+      let initialData: any;
+      if (args.path && args.appId === 'notebook') initialData = { file: { path: args.path, name: getName(args.path) } };
+      if (args.path && args.appId === 'fileExplorer') initialData = { initialPath: args.path };
+      context.openApp(args.appId, initialData);
+      return { success: true };
+    },
+  },
+  run_terminal_command: {
+    declaration: {
+      name: 'run_terminal_command',
+      description: 'Opens a Terminus terminal and runs a shell command on the host once the user has signed in to it. The output is shown to the user, not returned.',
+      parameters: {
+        type: 'object',
+        properties: { command: { type: 'string', description: 'The shell command to run.' } },
+        required: ['command'],
+      },
+    },
+    isMutating: true,
+    describe: (args) => `Run in Terminus: ${args.command}`,
+    run: async (args, context) => {
+      context.openApp('terminus', { command: args.command });
+      return { success: true, note: 'The command runs once the user signs in to Terminus. Its output is not available to you.' };
+    },
+  },
+});
+
+/**
+ * Builds the tools Gemini can call in agent mode. Calls that change files or run commands
+ * only go ahead once the user confirms them, and every call is reported to `onToolCall`.
+ */
+export const createAgentToolset = (context: AgentToolContext): AgentToolset => {
+  const tools = createAgentTools(context.apps);
+  let callCounter = 0;
+
+  const execute = async (call: FunctionCall): Promise<Record<string, any>> => {
+    const tool = tools[call.name];
+    const args = call.args || {};
+    const toolCall: ChatToolCall = {
+      id: call.id || `tool-${Date.now()}-${callCounter++}`,
+      name: call.name,
+      description: tool ? tool.describe(args) : call.name,
+      status: tool?.isMutating ? 'pending' : 'running',
+    };
+    const report = (update: Partial<ChatToolCall>) => context.onToolCall(Object.assign(toolCall, update));
+
+    if (!tool) {
+      report({ status: 'error', result: 'Unknown tool' });
+      return { error: `Unknown tool ${call.name}` };
     }
-    return "An unknown error occurred while contacting Gemini.";
+    report({});
+    if (tool.isMutating) {
+      const isAllowed = await context.confirm(toolCall.description, call);
+      if (!isAllowed) {
+        report({ status: 'denied' });
+        return { error: 'The user denied this action.' };
+      }
+      report({ status: 'running' });
+    }
+    try {
+      const result = await tool.run(args, context);
+      report(result.error ? { status: 'error', result: result.error } : { status: 'done' });
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report({ status: 'error', result: message });
+      return { error: message };
+    }
+  };
+
+  return { declarations: Object.values(tools).map(tool => tool.declaration), execute };
+};
+
+export interface ChatSessionOptions {
+  model?: string;
+  systemInstruction?: string;
+  history?: ChatTurn[];
+}
+
+export interface ChatSession {
+  getHistory: () => ChatTurn[];
+  getModel: () => string;
+  setModel: (model: string) => void;
+  getSystemInstruction: () => string;
+  setSystemInstruction: (instruction: string) => void;
+  /** Turns agent mode on (with the tools Gemini may call) or off (`null`). */
+  setTools: (tools: AgentToolset | null) => void;
+  /** Sends a user message (and any attached files) with the full conversation history and streams the reply. */
+  sendMessageStream: (text: string, onChunk: (text: string) => void, attachments?: ChatAttachment[]) => Promise<string>;
+  /** Discards the last reply and asks for a new one to the same user message. */
+  regenerate: (onChunk: (text: string) => void) => Promise<string>;
+  /** Stops the reply in progress. Whatever was received so far is kept in the history. */
+  cancel: () => void;
+  isStreaming: () => boolean;
+}
+
+/**
+ * Builds the parts of a user turn. Text files are inlined as fenced blocks labelled with their
+ * path so the model can tell them apart; images are sent as inline data.
+ */
+export const buildUserParts = (text: string, attachments: ChatAttachment[] = []): ChatPart[] => [
+  ...attachments.map((attachment): ChatPart => attachment.kind === 'image'
+    ? { inlineData: { mimeType: attachment.mimeType, data: attachment.data } }
+    : { text: `File: ${attachment.path}\n\`\`\`\n${attachment.data}\n\`\`\`` }),
+  { text },
+];
+
+/**
+ * Rebuilds the model history from rendered chat messages, e.g. when resuming a saved conversation.
+ */
+export const messagesToHistory = (messages: ChatMessage[]): ChatTurn[] =>
+  messages
+    .filter(msg => !msg.isLoading && !msg.isError && msg.text)
+    .map(msg => msg.sender === 'user'
+      ? { role: 'user', parts: buildUserParts(msg.text, msg.attachments) }
+      : { role: 'model', parts: [{ text: msg.text }] });
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const isToolResponseTurn = (turn: ChatTurn) => turn.parts.some(part => 'functionResponse' in part);
+
+// Index of the last message the user typed; tool responses are also sent as user turns
+const findLastUserMessageIndex = (history: ChatTurn[]) => {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role === 'user' && !isToolResponseTurn(history[i])) return i;
   }
-};
\ No newline at end of file
+  return -1;
+};
+
+/**
+ * Creates a multi-turn conversation. The session owns the history sent to the model,
+ * so callers only deal with the text of the new message and the streamed reply.
+ */
+export const createChatSession = (options: ChatSessionOptions = {}): ChatSession => {
+  let model = options.model || DEFAULT_MODEL;
+  let systemInstruction = options.systemInstruction || '';
+  let history: ChatTurn[] = [...(options.history || [])];
+  let tools: AgentToolset | null = null;
+  let abortController: AbortController | null = null;
+
+  const getConfig = () => {
+    const config: Record<string, any> = {};
+    if (systemInstruction) config.systemInstruction = systemInstruction;
+    if (tools) config.tools = [{ functionDeclarations: tools.declarations }];
+    return Object.keys(config).length > 0 ? config : undefined;
+  };
+
+  /**
+   * Streams the model's answer. In agent mode the model may call tools first; each round of
+   * calls and their results is added to the history before asking the model to continue.
+   * Resolves with all the text received, across every round.
+   */
+  const streamReply = async (onChunk: (text: string) => void): Promise<string> => {
+    abortController = new AbortController();
+    const { signal } = abortController;
+    let receivedText = '';
+    let stepText = '';
+    try {
+      for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+        stepText = '';
+        const result = await streamGeminiResponse(
+          { model, contents: history, config: getConfig() },
+          (chunk) => {
+            stepText += chunk;
+            receivedText += chunk;
+            onChunk(chunk);
+          },
+          signal,
+        );
+        if (!tools || result.functionCalls.length === 0) break;
+
+        const toolResponses: ChatPart[] = [];
+        for (const call of result.functionCalls) {
+          const response = await tools.execute(call);
+          if (signal.aborted) throw new DOMException('The reply was cancelled.', 'AbortError');
+          toolResponses.push({ functionResponse: { id: call.id, name: call.name, response } });
+        }
+        const callParts: ChatPart[] = result.functionCalls.map(({ thoughtSignature, ...functionCall }) => ({
+          functionCall,
+          ...(thoughtSignature && { thoughtSignature }),
+        }));
+        history = [
+          ...history,
+          { role: 'model', parts: [...(stepText ? [{ text: stepText }] : []), ...callParts] },
+          { role: 'user', parts: toolResponses },
+        ];
+        stepText = '';
+      }
+    } catch (error) {
+      // A cancelled reply is still part of the conversation; real errors leave the
+      // unanswered user turn at the end of the history so it can be regenerated.
+      if (!isAbortError(error)) throw error;
+    } finally {
+      abortController = null;
+    }
+    if (stepText) {
+      history = [...history, { role: 'model', parts: [{ text: stepText }] }];
+    }
+    return receivedText;
+  };
+
+  return {
+    getHistory: () => history,
+    getModel: () => model,
+    setModel: (newModel) => { model = newModel; },
+    getSystemInstruction: () => systemInstruction,
+    setSystemInstruction: (instruction) => { systemInstruction = instruction; },
+    setTools: (newTools) => { tools = newTools; },
+    sendMessageStream: async (text, onChunk, attachments) => {
+      if (abortController) throw new Error('A reply is already being generated.');
+      // A user turn that never got a reply (because of an error) is replaced by the new message
+      if (history.length > 0 && history[history.length - 1].role === 'user') {
+        history = history.slice(0, Math.max(findLastUserMessageIndex(history), 0));
+      }
+      history = [...history, { role: 'user', parts: buildUserParts(text, attachments) }];
+      return streamReply(onChunk);
+    },
+    regenerate: async (onChunk) => {
+      if (abortController) throw new Error('A reply is already being generated.');
+      // Drop the whole last answer, including any tool calls made for it
+      history = history.slice(0, findLastUserMessageIndex(history) + 1);
+      if (history.length === 0) return '';
+      return streamReply(onChunk);
+    },
+    cancel: () => abortController?.abort(),
+    isStreaming: () => abortController !== null,
+  };
+};
@@ -0,0 +1,225 @@
+import { FilesystemItem, BatchItemResult } from '../types';
+import * as FsService from './filesystemService';
+
+/**
+ * A journal of the filesystem changes made from the Desktop and File Explorer, so they can be
+ * undone (Ctrl+Z) and redone (Ctrl+Y). Mutations go through the functions exported here instead
+ * of calling `filesystemService` directly; each records what it did, with the paths needed to
+ * invert it. The journal lives for the lifetime of the page and is shared by all windows.
+ */
+
+type JournalOperation =
+    | { type: 'rename'; item: FilesystemItem; newPath: string }
+    // `to` is the path the item was moved to
+    | { type: 'move'; moves: { item: FilesystemItem; to: string }[] }
+    // `copyPath` is where the copy of `source` was created
+    | { type: 'copy'; destinationPath: string; copies: { source: FilesystemItem; copyPath: string }[] }
+    // `recycleBinId` is the Recycle Bin entry from the latest time the item was deleted
+    | { type: 'delete'; deletions: { item: FilesystemItem; recycleBinId: string }[] };
+
+// The inverse of an operation, and the operation to push onto the opposite stack afterwards
+type StepResult = { error: string | null; next: JournalOperation | null };
+
+export interface JournalState {
+    undoLabel: string | null; // e.g. 'Undo rename of "notes.txt"'
+    redoLabel: string | null;
+}
+
+const MAX_JOURNAL_LENGTH = 50;
+
+let undoStack: JournalOperation[] = [];
+let redoStack: JournalOperation[] = [];
+let isBusy = false;
+const listeners = new Set<() => void>();
+
+const getName = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+const getParentPath = (path: string) => path.substring(0, path.lastIndexOf('/')) || '/';
+const joinPath = (folderPath: string, name: string) => folderPath === '/' ? `/${name}` : `${folderPath}/${name}`;
+const withPath = (item: FilesystemItem, path: string): FilesystemItem => ({ name: getName(path), path, type: item.type });
+
+const describeItems = (items: FilesystemItem[]) => items.length === 1 ? `"${items[0].name}"` : `${items.length} items`;
+
+const describeOperation = (operation: JournalOperation): string => {
+    switch (operation.type) {
+        case 'rename': return `rename of "${operation.item.name}"`;
+        case 'move': return `move of ${describeItems(operation.moves.map(move => move.item))}`;
+        case 'copy': return `copy of ${describeItems(operation.copies.map(copy => copy.source))}`;
+        case 'delete': return `delete of ${describeItems(operation.deletions.map(deletion => deletion.item))}`;
+    }
+};
+
+const buildState = (): JournalState => ({
+    undoLabel: undoStack.length > 0 ? `Undo ${describeOperation(undoStack[undoStack.length - 1])}` : null,
+    redoLabel: redoStack.length > 0 ? `Redo ${describeOperation(redoStack[redoStack.length - 1])}` : null,
+});
+
+let state = buildState();
+
+const notify = () => {
+    state = buildState();
+    listeners.forEach(listener => listener());
+};
+
+const record = (operation: JournalOperation) => {
+    undoStack = [...undoStack, operation].slice(-MAX_JOURNAL_LENGTH);
+    redoStack = [];
+    notify();
+};
+
+const succeeded = (results: BatchItemResult[]) => results.filter(result => result.success);
+
+const toCopies = (sources: FilesystemItem[], results: BatchItemResult[]) => succeeded(results)
+    .filter(result => result.newPath)
+    .map(result => ({ source: sources.find(item => item.path === result.path)!, copyPath: result.newPath! }));
+
+const toDeletions = (items: FilesystemItem[], results: BatchItemResult[]) => succeeded(results)
+    .filter(result => result.recycleBinId)
+    .map(result => ({ item: items.find(item => item.path === result.path)!, recycleBinId: result.recycleBinId! }));
+
+// Moves each item into its own destination folder, one batch per folder
+const moveToFolders = async (moves: { item: FilesystemItem; destinationPath: string }[]): Promise<BatchItemResult[]> => {
+    const byFolder = new Map<string, FilesystemItem[]>();
+    moves.forEach(({ item, destinationPath }) => byFolder.set(destinationPath, [...(byFolder.get(destinationPath) || []), item]));
+    const results: BatchItemResult[] = [];
+    for (const [destinationPath, items] of byFolder) {
+        results.push(...await FsService.moveItems(items, destinationPath));
+    }
+    return results;
+};
+
+// --- Journaled operations ---
+
+export const renameItem = async (item: FilesystemItem, newName: string): Promise<boolean> => {
+    const success = await FsService.renameItem(item, newName);
+    if (success) record({ type: 'rename', item, newPath: joinPath(getParentPath(item.path), newName) });
+    return success;
+};
+
+export const moveItems = async (items: FilesystemItem[], destinationPath: string): Promise<BatchItemResult[]> => {
+    const results = await FsService.moveItems(items, destinationPath);
+    const moves = succeeded(results)
+        .filter(result => result.newPath && result.newPath !== result.path)
+        .map(result => ({ item: items.find(item => item.path === result.path)!, to: result.newPath! }));
+    if (moves.length > 0) record({ type: 'move', moves });
+    return results;
+};
+
+export const copyItems = async (items: FilesystemItem[], destinationPath: string): Promise<BatchItemResult[]> => {
+    const results = await FsService.copyItems(items, destinationPath);
+    const copies = toCopies(items, results);
+    if (copies.length > 0) record({ type: 'copy', destinationPath, copies });
+    return results;
+};
+
+/**
+ * Deletes items like `FsService.deleteItems`. Only deletions into the Recycle Bin can be undone,
+ * so permanent deletes are not recorded.
+ */
+export const deleteItems = async (items: FilesystemItem[], permanent: boolean = false): Promise<BatchItemResult[]> => {
+    const results = await FsService.deleteItems(items, permanent);
+    const deletions = toDeletions(items, results);
+    if (deletions.length > 0) record({ type: 'delete', deletions });
+    return results;
+};
+
+// --- Undo / redo ---
+
+const invert = async (operation: JournalOperation): Promise<StepResult> => {
+    switch (operation.type) {
+        case 'rename': {
+            const success = await FsService.renameItem(withPath(operation.item, operation.newPath), operation.item.name);
+            return success
+                ? { error: null, next: operation }
+                : { error: `Could not rename "${getName(operation.newPath)}" back to "${operation.item.name}".`, next: null };
+        }
+        case 'move': {
+            const results = await moveToFolders(operation.moves.map(({ item, to }) => ({ item: withPath(item, to), destinationPath: getParentPath(item.path) })));
+            return { error: FsService.describeBatchFailures(results, 'move back'), next: operation };
+        }
+        case 'copy': {
+            const results = await FsService.deleteItems(operation.copies.map(({ source, copyPath }) => withPath(source, copyPath)));
+            return { error: FsService.describeBatchFailures(results, 'remove'), next: operation };
+        }
+        case 'delete': {
+            const results = await FsService.restoreItems(operation.deletions.map(({ item, recycleBinId }) => ({ id: recycleBinId, originalPath: item.path })));
+            // Restored items may have landed under a new name; redo has to delete them from there
+            const restored = operation.deletions.flatMap((deletion, index) => {
+                const result = results[index];
+                return result?.success ? [{ ...deletion, item: withPath(deletion.item, result.newPath || deletion.item.path) }] : [];
+            });
+            return {
+                error: FsService.describeBatchFailures(results, 'restore'),
+                next: restored.length > 0 ? { type: 'delete', deletions: restored } : null,
+            };
+        }
+    }
+};
+
+const reapply = async (operation: JournalOperation): Promise<StepResult> => {
+    switch (operation.type) {
+        case 'rename': {
+            const success = await FsService.renameItem(operation.item, getName(operation.newPath));
+            return success
+                ? { error: null, next: operation }
+                : { error: `Could not rename "${operation.item.name}" to "${getName(operation.newPath)}".`, next: null };
+        }
+        case 'move': {
+            const results = await moveToFolders(operation.moves.map(({ item, to }) => ({ item, destinationPath: getParentPath(to) })));
+            return { error: FsService.describeBatchFailures(results, 'move'), next: operation };
+        }
+        case 'copy': {
+            const sources = operation.copies.map(copy => copy.source);
+            const results = await FsService.copyItems(sources, operation.destinationPath);
+            const copies = toCopies(sources, results);
+            return {
+                error: FsService.describeBatchFailures(results, 'copy'),
+                next: copies.length > 0 ? { ...operation, copies } : null,
+            };
+        }
+        case 'delete': {
+            const items = operation.deletions.map(deletion => deletion.item);
+            const results = await FsService.deleteItems(items);
+            const deletions = toDeletions(items, results);
+            return {
+                error: FsService.describeBatchFailures(results, 'delete'),
+                next: deletions.length > 0 ? { type: 'delete', deletions } : null,
+            };
+        }
+    }
+};
+
+const step = async (from: 'undo' | 'redo'): Promise<string | null> => {
+    const source = from === 'undo' ? undoStack : redoStack;
+    const operation = source[source.length - 1];
+    if (!operation || isBusy) return null;
+    isBusy = true;
+    try {
+        const { error, next } = from === 'undo' ? await invert(operation) : await reapply(operation);
+        if (from === 'undo') {
+            undoStack = undoStack.slice(0, -1);
+            if (next) redoStack = [...redoStack, next];
+        } else {
+            redoStack = redoStack.slice(0, -1);
+            if (next) undoStack = [...undoStack, next];
+        }
+        notify();
+        return error;
+    } finally {
+        isBusy = false;
+    }
+};
+
+/** Reverts the most recent operation. Resolves to an error message if (part of) it could not be undone. */
+export const undo = (): Promise<string | null> => step('undo');
+
+/** Re-applies the most recently undone operation. Resolves to an error message on failure. */
+export const redo = (): Promise<string | null> => step('redo');
+
+export const getState = (): JournalState => state;
+
+export const subscribe = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
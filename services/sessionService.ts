@@ -0,0 +1,66 @@
+import { SessionSnapshot } from '../types';
+import { authFetch } from './authService';
+
+const API_BASE_URL = 'http://localhost:3001/api/session';
+
+export const SESSION_SCHEMA_VERSION = 1;
+
+/**
+ * Migrations keyed by the schema version they upgrade *from*.
+ * When bumping SESSION_SCHEMA_VERSION, add an entry here that turns a snapshot
+ * of the previous version into the next one so old sessions keep restoring.
+ */
+const SESSION_MIGRATIONS: Record<number, (snapshot: any) => any> = {};
+
+export const migrateSession = (raw: any): SessionSnapshot | null => {
+    if (!raw || typeof raw.version !== 'number') return null;
+    let snapshot = raw;
+    while (snapshot.version < SESSION_SCHEMA_VERSION) {
+        const migrate = SESSION_MIGRATIONS[snapshot.version];
+        if (!migrate) {
+            console.warn(`No session migration from version ${snapshot.version}, discarding saved session.`);
+            return null;
+        }
+        snapshot = migrate(snapshot);
+    }
+    if (snapshot.version > SESSION_SCHEMA_VERSION || !Array.isArray(snapshot.windows)) return null;
+    return snapshot as SessionSnapshot;
+};
+
+export const loadSession = async (): Promise<SessionSnapshot | null> => {
+    try {
+        const response = await authFetch(API_BASE_URL);
+        if (!response.ok) {
+            console.error(`API Error: ${response.status} ${response.statusText}`);
+            return null;
+        }
+        return migrateSession(await response.json());
+    } catch (e) {
+        console.error('Network error in loadSession:', e);
+        return null;
+    }
+};
+
+export const saveSession = async (snapshot: Omit<SessionSnapshot, 'version' | 'savedAt'>): Promise<boolean> => {
+    try {
+        const response = await authFetch(API_BASE_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...snapshot, version: SESSION_SCHEMA_VERSION, savedAt: Date.now() }),
+        });
+        return response.ok;
+    } catch (e) {
+        console.error('Network error in saveSession:', e);
+        return false;
+    }
+};
+
+export const clearSession = async (): Promise<boolean> => {
+    try {
+        const response = await authFetch(API_BASE_URL, { method: 'DELETE' });
+        return response.ok;
+    } catch (e) {
+        console.error('Network error in clearSession:', e);
+        return false;
+    }
+};
@@ -31,17 +31,99 @@ export interface FilesystemItem extends Partial<ProjectFile> {
     name: string;
     path: string;
     type: 'file' | 'folder';
+    // Metadata, present on items listed by the backend
+    size?: number; // bytes; files only
+    mtime?: string; // ISO timestamp of the last modification
+    ctime?: string; // ISO timestamp of the last status change
+    mode?: number; // Unix permission bits, e.g. 0o644
+    symlinkTarget?: string; // set when the item is a symbolic link
+    mimeType?: string; // files only
+}
+
+// An item with everything the Properties dialog shows; for folders `size` is the total of their contents
+export interface FilesystemItemDetails extends FilesystemItem {
+    fileCount?: number;
+    folderCount?: number;
+}
+
+// A folder of the server's disk shown as a drive; '/' is the project itself
+export interface Mount {
+    path: string; // where it appears, e.g. '/data'
+    label: string;
+    readOnly: boolean;
+}
+
+// Pushed by the backend whenever something under the filesystem root changes
+export interface FilesystemChange {
+    type: 'created' | 'changed' | 'deleted';
+    path: string;
+    parentPath: string;
+    itemType: 'file' | 'folder';
+    item?: FilesystemItem; // Present for created and changed items
 }
 
 export type ClipboardItem = {
-    item: FilesystemItem;
+    items: FilesystemItem[];
     operation: 'copy' | 'cut';
 };
 
+// Outcome for one item of a batch copy/move/delete
+export interface BatchItemResult {
+    path: string;
+    success: boolean;
+    error?: string;
+    newPath?: string; // where a moved, copied or restored item ended up
+    recycleBinId?: string; // the Recycle Bin entry of a deleted item
+}
+
+// An item in the Recycle Bin, as listed by /api/recycle-bin
+export interface RecycleBinEntry {
+    id: string;
+    name: string;
+    originalPath: string;
+    type: 'file' | 'folder';
+    size: number; // bytes, including a folder's contents
+    deletedAt: string; // ISO timestamp
+}
+
+// An earlier version of a file, as listed by /api/file-history
+export interface FileVersion {
+    id: string;
+    path: string;
+    originalPath?: string; // where the file was when the version was kept, if it has been renamed or moved since
+    size: number; // bytes
+    modifiedAt: string; // ISO timestamp of when these contents were written
+    savedAt: string; // ISO timestamp of when they were replaced
+    reason: 'save' | 'rename' | 'delete' | 'restore'; // what replaced them, or for 'rename' what happened to the file
+}
+
+export interface FileSearchQuery {
+    path: string; // folder to search in, including its subfolders
+    name?: string; // pattern the name must match; patterns containing '/' match the path below `path`
+    nameMode?: 'glob' | 'regex';
+    content?: string; // text a file must contain
+    contentMode?: 'text' | 'regex';
+    caseSensitive?: boolean;
+}
+
+export interface FileSearchResult {
+    item: FilesystemItem;
+    matches?: { line: number; text: string }[]; // matching lines (1-based) of a content search
+}
+
+// A hit from the background search index, ranked against the other hits by `score`
+export interface IndexedSearchResult {
+    item: FilesystemItem;
+    score: number;
+    matchedContent: boolean; // true when at least one word was only found inside the file
+}
+
 export type AppComponentProps = {
   appInstanceId: string;
   onClose: () => void;
   setTitle: (title: string) => void; 
+  // Lets an app record the serializable state it should be restored with after a reload
+  setSessionData?: (data: any) => void;
   wallpaper?: string;
   onWallpaperChange?: (newWallpaper: string) => void;
   // Allow apps to open other apps
@@ -50,8 +132,8 @@ export type AppComponentProps = {
 
   // Filesystem related props for apps like File Explorer and Desktop
   clipboard?: ClipboardItem | null;
-  handleCopy?: (item: FilesystemItem) => void;
-  handleCut?: (item: FilesystemItem) => void;
+  handleCopy?: (items: FilesystemItem[]) => void;
+  handleCut?: (items: FilesystemItem[]) => void;
   handlePaste?: (destinationPath: string) => void;
 };
 
@@ -68,6 +150,13 @@ export interface AppDefinition {
   externalPath?: string; // Path relative to app root for the external app
   isWebApp?: boolean; // To launch as a URL in the user's default browser
   webAppUrl?: string; // The URL to launch
+  fileTypes?: FileTypeAssociation; // Files the app can open, offered under "Open with"
+  getFileInitialData?: (file: FilesystemItem) => any; // initialData that opens `file`; defaults to `{ file: { path, name } }`
+}
+
+export interface FileTypeAssociation {
+  extensions?: string[]; // Lower case, without the dot, e.g. 'md' or 'chat.json'
+  mimeTypes?: string[]; // e.g. 'application/json', or 'text/*' for a whole family
 }
 
 export interface OpenApp extends AppDefinition {
@@ -81,13 +170,68 @@ export interface OpenApp extends AppDefinition {
   previousPosition?: { x: number; y: number }; // For restoring from maximized
   previousSize?: { width: number; height: number }; // For restoring from maximized
   initialData?: any; // Data passed when the app is opened
+  sessionData?: any; // Serializable state reported by the app, used as initialData on restore
+}
+
+export interface SessionWindow {
+  appId: string;
+  instanceId: string;
+  title: string;
+  zIndex: number;
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+  isMinimized: boolean;
+  isMaximized: boolean;
+  previousPosition?: { x: number; y: number };
+  previousSize?: { width: number; height: number };
+  initialData?: any;
+}
+
+export interface SessionSnapshot {
+  version: number;
+  savedAt: number;
+  activeInstanceId: string | null;
+  windows: SessionWindow[];
+  wallpaper?: string; // The user's own wallpaper, if they chose one; see App's handleWallpaperChange
+}
+
+// A file from the virtual filesystem sent to Gemini along with a message
+export interface ChatAttachment {
+  name: string;
+  path: string;
+  kind: 'text' | 'image';
+  mimeType: string;
+  data: string; // The file's text, or base64 for images
+}
+
+// A tool Gemini called in agent mode, kept on the reply as an audit trail
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  description: string; // Human-readable summary, e.g. "Read /Documents/notes.txt"
+  status: 'pending' | 'running' | 'done' | 'denied' | 'error';
+  result?: string; // Error message when the call failed
 }
 
 export interface ChatMessage {
   id: string;
   sender: 'user' | 'bot';
   text: string;
+  attachments?: ChatAttachment[];
+  toolCalls?: ChatToolCall[];
   isLoading?: boolean;
+  isError?: boolean; // Error replies are shown to the user but never sent back to the model
+}
+
+// A Gemini Chat conversation as stored in the virtual filesystem
+export interface ChatDocument {
+  version: number;
+  title: string;
+  model: string;
+  systemInstruction: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
 }
 
 export interface Theme {